@@ -0,0 +1,63 @@
+// Gameplay constants shared between the frontend and the backend.
+// The backend needs these to regenerate and re-score submitted rounds,
+// so anything that affects sequence generation or scoring lives here.
+// Musical scales live in ./scales, rhythm patterns in ./rhythm, difficulty presets in ./difficulty.
+
+export const PALETTE = [
+  '#f87171', // Red
+  '#fb923c', // Orange
+  '#fbbf24', // Amber
+  '#a3e635', // Lime
+  '#4ade80', // Green
+  '#2dd4bf', // Teal
+  '#22d3ee', // Cyan
+  '#60a5fa', // Blue
+  '#a78bfa', // Violet
+  '#f472b6', // Pink
+];
+
+// Tempo of the default soundtrack. Sequences follow the tempo of the track they are played over,
+// see getDifficultyBpm; other tracks have to stay within the tempo range.
+export const GAME_BPM = 120;
+export const QUARTER_NOTE_MS = 60000 / GAME_BPM;
+export const EIGHTH_NOTE_MS = QUARTER_NOTE_MS / 2;
+export const MIN_TRACK_BPM = 80;
+export const MAX_TRACK_BPM = 160;
+
+// Sequences and clicks live in a play area of this size, in play area units, whatever the size of
+// the screen. The canvas maps it onto its pixels, so positions, distances and sizes below scale with it.
+export const PLAY_AREA_WIDTH = 1600;
+export const PLAY_AREA_HEIGHT = 900;
+
+// Scoring parameters
+export const MAX_POSITION_ERROR_PX = 150; // Max distance from center for 0 score, in play area units
+export const MAX_RHYTHM_ERROR_MS = 300; // Max time diff from expected interval for 0 score
+export const PERFECT_RHYTHM_TOLERANCE_MS = 50; // Window for a "perfect" rhythm hit on normal difficulty
+export const MAX_PITCH_ERROR_CENTS = 300; // Max pitch difference from the note for 0 score
+export const MAX_TEMPO_FIT_DEVIATION = 0.3; // Tempo-invariant rhythm scoring follows a player up to 30% faster or slower
+
+// Round rules. A round passes when every score reaches its threshold; a failed round costs a life
+// and the game ends when no lives are left. A strong round earns a lost life back.
+// The duration score of hold notes only counts in rounds that have them.
+export const PASS_THRESHOLDS = { position: 30, rhythm: 30, pitch: 30, duration: 30, total: 50 } as const;
+export const STARTING_LIVES = 3;
+export const EXTRA_LIFE_MIN_TOTAL = 85; // A strong round has at least this total score and no missed notes
+
+// Judgement windows, best tier first. A note gets the best tier whose timing AND position
+// windows it falls within; anything outside the last tier is a miss.
+// The windows follow the difficulty, see getJudgementWindows. Timing windows are a share of the
+// max rhythm error; position windows a share of the circle's radius, plus a share of the margin
+// from its edge out to the max position error.
+// On normal difficulty that is 50, 100 and 200 ms, and 15, 30 and 75 units.
+export const JUDGEMENT_WINDOWS = [
+  { judgement: 'perfect', rhythmShare: PERFECT_RHYTHM_TOLERANCE_MS / MAX_RHYTHM_ERROR_MS, radiusShare: 0.5, marginShare: 0 },
+  { judgement: 'great', rhythmShare: 1 / 3, radiusShare: 1, marginShare: 0 },
+  { judgement: 'good', rhythmShare: 2 / 3, radiusShare: 1, marginShare: 0.375 },
+] as const;
+
+// Layout parameters, in play area units
+export const CIRCLE_RADIUS = 30;
+export const X_PADDING = 100;
+export const Y_PADDING = 100;
+export const SIMON_SLOT_WIDTH = 160; // Horizontal spacing of Simon mode circles while they fit
+export const SIMON_RELAYOUT_HEADROOM = 3; // Free slots left after re-laying out a Simon sequence
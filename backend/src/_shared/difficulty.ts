@@ -0,0 +1,60 @@
+import type { Difficulty } from '../types.js';
+import { CIRCLE_RADIUS, GAME_BPM, JUDGEMENT_WINDOWS, MAX_POSITION_ERROR_PX, MAX_RHYTHM_ERROR_MS } from './constants';
+
+export interface DifficultyPreset {
+  name: string;
+  maxPositionErrorPx: number; // Max distance from center for 0 score
+  maxRhythmErrorMs: number; // Max time diff from expected interval for 0 score
+  circleRadius: number;
+  bpm: number; // Tempo the sequence's rhythm is played at over the default track
+  startLength: number; // Circles in the first round
+  notesPerRound: number; // Circles added each round, a fraction adds one every few rounds
+}
+
+export const DIFFICULTIES: readonly Difficulty[] = ['easy', 'normal', 'hard', 'expert'];
+
+// Difficulty registry. Normal is the original game: its tolerances, size and tempo are the shared defaults.
+export const DIFFICULTY_PRESETS: Record<Difficulty, DifficultyPreset> = {
+  easy: { name: 'Easy', maxPositionErrorPx: 200, maxRhythmErrorMs: 400, circleRadius: 40, bpm: 100, startLength: 3, notesPerRound: 0.5 },
+  normal: {
+    name: 'Normal',
+    maxPositionErrorPx: MAX_POSITION_ERROR_PX,
+    maxRhythmErrorMs: MAX_RHYTHM_ERROR_MS,
+    circleRadius: CIRCLE_RADIUS,
+    bpm: GAME_BPM,
+    startLength: 3,
+    notesPerRound: 1,
+  },
+  hard: { name: 'Hard', maxPositionErrorPx: 110, maxRhythmErrorMs: 220, circleRadius: 24, bpm: 135, startLength: 4, notesPerRound: 1 },
+  expert: { name: 'Expert', maxPositionErrorPx: 80, maxRhythmErrorMs: 160, circleRadius: 18, bpm: 150, startLength: 4, notesPerRound: 1.5 },
+};
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal';
+
+/**
+ * Returns the tempo a difficulty plays at over a soundtrack. Normal difficulty plays at the track's
+ * tempo, so its notes land on the track's beats; the others stay as much faster or slower.
+ * @param difficulty - The difficulty.
+ * @param trackBpm - Tempo of the soundtrack. Defaults to the default track's.
+ */
+export const getDifficultyBpm = (difficulty: Difficulty, trackBpm = GAME_BPM): number =>
+  (DIFFICULTY_PRESETS[difficulty].bpm * trackBpm) / GAME_BPM;
+
+/**
+ * Returns the judgement windows of a difficulty, its position windows in play area units: a perfect
+ * hit lands on the inner half of the circle, a great one on the circle, and a good one a little
+ * way outside it, however big the circles are. Its timing windows tighten with its max rhythm
+ * error, so a note judged good always still scores some rhythm.
+ * @param difficulty - The difficulty.
+ */
+export const getJudgementWindows = (difficulty: Difficulty) => {
+  const { circleRadius, maxPositionErrorPx, maxRhythmErrorMs } = DIFFICULTY_PRESETS[difficulty];
+  return JUDGEMENT_WINDOWS.map(({ judgement, rhythmShare, radiusShare, marginShare }) => ({
+    judgement,
+    timingMs: maxRhythmErrorMs * rhythmShare,
+    distancePx: circleRadius * radiusShare + (maxPositionErrorPx - circleRadius) * marginShare,
+  }));
+};
+
+export const isValidDifficulty = (difficulty: unknown): difficulty is Difficulty =>
+  typeof difficulty === 'string' && (DIFFICULTIES as readonly string[]).includes(difficulty);
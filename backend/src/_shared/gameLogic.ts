@@ -0,0 +1,704 @@
+import type {
+  BeatGrid, CircleDefinition, Difficulty, Judgement, JudgementCounts, MatchingMode, NoteResult, PlayerClick, RhythmModel, ScaleSelection, Score,
+} from '../types.js';
+import {
+  PALETTE, PLAY_AREA_WIDTH, PLAY_AREA_HEIGHT, X_PADDING, Y_PADDING, SIMON_SLOT_WIDTH, SIMON_RELAYOUT_HEADROOM,
+  MAX_PITCH_ERROR_CENTS, MAX_TEMPO_FIT_DEVIATION, PASS_THRESHOLDS, EXTRA_LIFE_MIN_TOTAL,
+} from './constants';
+import { SeededRandom } from './seededRandom';
+import { DEFAULT_SCALE, getScaleFrequencies } from './scales';
+import { createRhythmPattern, type RhythmComplexity } from './rhythm';
+import { createMelody, createMelodyWalk, harmonizeDegree, type MelodyOptions } from './melody';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, getDifficultyBpm, getJudgementWindows } from './difficulty';
+
+export interface SequenceOptions {
+  random?: () => number; // Source of random numbers in [0, 1). Defaults to Math.random.
+  scale?: ScaleSelection; // Scale the notes are picked from. Defaults to C major pentatonic.
+  rhythmComplexity?: RhythmComplexity; // Richest rhythms the sequence may use, see getRhythmComplexity. Defaults to 0.
+  melody?: MelodyOptions; // Contour and resolution of the melody, see createMelody.
+  difficulty?: Difficulty; // Sets the circle size and tempo, see DIFFICULTY_PRESETS. Defaults to normal.
+  trackBpm?: number; // Tempo of the soundtrack the sequence is played over, see getDifficultyBpm. Defaults to GAME_BPM.
+  beatsPerBar?: number; // Beats in a bar of the soundtrack, the rhythm is phrased in its bars. Defaults to BEATS_PER_BAR.
+}
+
+/**
+ * Returns the frequencies of a scale along with its range, which maps onto the play area's height.
+ */
+const getScaleRange = (scale: ScaleSelection) => {
+  const scaleFrequencies = getScaleFrequencies(scale);
+  const minFreq = Math.min(...scaleFrequencies);
+  const maxFreq = Math.max(...scaleFrequencies);
+  return { scaleFrequencies, minFreq, maxFreq, freqRange: maxFreq - minFreq };
+};
+
+/**
+ * Returns the number of circles in the sequence for a given round.
+ * @param round - The 1-based round number.
+ * @param difficulty - The difficulty, which sets how long sequences start and how fast they grow.
+ */
+export const getSequenceLength = (round: number, difficulty: Difficulty = DEFAULT_DIFFICULTY): number => {
+  const { startLength, notesPerRound } = DIFFICULTY_PRESETS[difficulty];
+  return startLength + Math.floor((round - 1) * notesPerRound);
+};
+
+/**
+ * Returns the number of circles in a Simon mode round: every round adds exactly one note.
+ * @param round - The 1-based round number.
+ * @param difficulty - The difficulty, which sets how long the first sequence is.
+ */
+export const getSimonSequenceLength = (round: number, difficulty: Difficulty = DEFAULT_DIFFICULTY): number =>
+  DIFFICULTY_PRESETS[difficulty].startLength + round - 1;
+
+/**
+ * Generates a musical sequence of circles, arranged from left-to-right
+ * with vertical position based on pitch. Circles are laid out in play area units,
+ * so a sequence is the same whatever the size of the screen it's played on.
+ * The notes of a chord share their time and are stacked in the column of the chord's first
+ * note, which carries the melody; the others are chord tones under it. The rhythm and its chords
+ * are planned first, so the melody has one note per onset and still resolves to the tonic.
+ * @param count - The number of circles in the sequence.
+ * @param options - Random source, scale, rhythm complexity, melody shape and difficulty, see SequenceOptions.
+ * @returns An array of CircleDefinition objects.
+ */
+export const generateSequence = (
+  count: number,
+  { random = Math.random, scale = DEFAULT_SCALE, rhythmComplexity = 0, melody, difficulty = DEFAULT_DIFFICULTY, trackBpm, beatsPerBar }: SequenceOptions = {},
+): CircleDefinition[] => {
+  const sequence: CircleDefinition[] = [];
+  const { circleRadius } = DIFFICULTY_PRESETS[difficulty];
+  const { scaleFrequencies, minFreq, freqRange } = getScaleRange(scale);
+  const nextOnset = createRhythmPattern(rhythmComplexity, random, getDifficultyBpm(difficulty, trackBpm), beatsPerBar);
+
+  // Plan the onsets, each with the chord tones sounding along with it. A chord is cut short when the sequence ends.
+  const onsets: (ReturnType<typeof nextOnset> & { chordTones: number })[] = [];
+  for (let planned = 0; planned < count; planned += onsets[onsets.length - 1].chordTones + 1) {
+    const onset = nextOnset();
+    onsets.push({ ...onset, chordTones: Math.min(onset.chordSize - 1, count - 1 - planned) });
+  }
+  const nextDegree = createMelody(onsets.length, scaleFrequencies.length, random, melody);
+
+  const availableWidth = PLAY_AREA_WIDTH - X_PADDING * 2;
+  const availableHeight = PLAY_AREA_HEIGHT - Y_PADDING * 2;
+  
+  const xStep = count > 1 ? availableWidth / (count - 1) : 0;
+
+  for (const { time, accent, duration, chordTones } of onsets) {
+    const i = sequence.length;
+
+    // Position circles from left to right.
+    let x;
+    if (count === 1) {
+        x = PLAY_AREA_WIDTH / 2;
+    } else {
+        const jitter = (random() - 0.5) * xStep * 0.15;
+        x = X_PADDING + i * xStep + jitter;
+    }
+    
+    const degree = nextDegree();
+    const frequency = scaleFrequencies[degree];
+    const normalizedFreq = freqRange > 0 ? (frequency - minFreq) / freqRange : 0.5;
+    
+    // Higher pitch = smaller Y value (higher on screen).
+    const yJitter = (random() - 0.5) * 50; // Add some vertical variance
+    const y = (PLAY_AREA_HEIGHT - Y_PADDING) - (normalizedFreq * availableHeight) + yJitter;
+
+    const color = PALETTE[i % PALETTE.length];
+    
+    // Clamp coordinates to stay within the play area
+    const clampedX = Math.max(circleRadius, Math.min(PLAY_AREA_WIDTH - circleRadius, x));
+    const clampedY = Math.max(circleRadius, Math.min(PLAY_AREA_HEIGHT - circleRadius, y));
+
+    const circle: CircleDefinition = { id: i, x: clampedX, y: clampedY, color, frequency, time };
+    if (accent) circle.accent = true;
+    if (duration !== null) circle.duration = duration;
+    sequence.push(circle);
+
+    for (let voice = 1; voice <= chordTones; voice++) {
+      // A chord tone: no new onset or melody note, only its own vertical variance is drawn
+      const toneId = sequence.length;
+      const toneFrequency = scaleFrequencies[harmonizeDegree(degree, voice, scaleFrequencies.length)];
+      const toneNormalizedFreq = freqRange > 0 ? (toneFrequency - minFreq) / freqRange : 0.5;
+      const toneY = (PLAY_AREA_HEIGHT - Y_PADDING) - (toneNormalizedFreq * availableHeight) + (random() - 0.5) * 50;
+      const tone: CircleDefinition = {
+        id: toneId,
+        x: clampedX,
+        y: Math.max(circleRadius, Math.min(PLAY_AREA_HEIGHT - circleRadius, toneY)),
+        color: PALETTE[toneId % PALETTE.length],
+        frequency: toneFrequency,
+        time,
+      };
+      if (accent) tone.accent = true;
+      sequence.push(tone);
+    }
+  }
+
+  return sequence;
+};
+
+/**
+ * Generates the sequence for a seed. The same seed always produces the same
+ * sequence, which lets the backend replay a submitted round.
+ * @param count - The number of circles in the sequence.
+ * @param seed - The seed for the sequence's random choices.
+ * @param options - Sequence options other than the random source.
+ * @returns An array of CircleDefinition objects.
+ */
+export const generateSeededSequence = (
+  count: number,
+  seed: number,
+  options: Omit<SequenceOptions, 'random'> = {},
+): CircleDefinition[] => {
+  const rng = new SeededRandom(seed);
+  return generateSequence(count, { ...options, random: () => rng.next() });
+};
+
+/**
+ * Generates the sequence of a Simon mode round: the previous round's sequence plus one new note.
+ * Notes are drawn one after another from the seed, so every round keeps the notes of the rounds
+ * before it. Circles sit in fixed-width slots from left to right; when a new circle would run off
+ * the play area, all circles are re-laid out in narrower slots, leaving room for a few more rounds.
+ * @param round - The 1-based round number.
+ * @param seed - The seed of the whole Simon game.
+ * @param options - The scale, difficulty and track tempo of the game. Simon mode keeps plain rhythms so earlier notes never change.
+ * @returns An array of CircleDefinition objects.
+ */
+export const generateSimonSequence = (
+  round: number,
+  seed: number,
+  { scale = DEFAULT_SCALE, difficulty = DEFAULT_DIFFICULTY, trackBpm }: Pick<SequenceOptions, 'scale' | 'difficulty' | 'trackBpm'> = {},
+): CircleDefinition[] => {
+  const rng = new SeededRandom(seed);
+  const random = () => rng.next();
+  const { circleRadius } = DIFFICULTY_PRESETS[difficulty];
+  const { scaleFrequencies, minFreq, freqRange } = getScaleRange(scale);
+  const nextOnset = createRhythmPattern(0, random, getDifficultyBpm(difficulty, trackBpm));
+  const nextDegree = createMelodyWalk(scaleFrequencies.length, random);
+
+  const availableWidth = PLAY_AREA_WIDTH - X_PADDING * 2;
+  const availableHeight = PLAY_AREA_HEIGHT - Y_PADDING * 2;
+  let slotWidth = SIMON_SLOT_WIDTH;
+
+  const notes = Array.from({ length: getSimonSequenceLength(round, difficulty) }, (_, i) => {
+    const frequency = scaleFrequencies[nextDegree()];
+    const xJitter = (random() - 0.5) * 0.15; // Fraction of a slot, so it survives re-layouts
+    const yJitter = (random() - 0.5) * 50;
+    const { time, accent } = nextOnset();
+    if (i * slotWidth > availableWidth) {
+      slotWidth = availableWidth / (i + SIMON_RELAYOUT_HEADROOM);
+    }
+    return { frequency, xJitter, yJitter, time, accent };
+  });
+
+  return notes.map(({ frequency, xJitter, yJitter, time, accent }, i) => {
+    const x = X_PADDING + (i + xJitter) * slotWidth;
+    const normalizedFreq = freqRange > 0 ? (frequency - minFreq) / freqRange : 0.5;
+    const y = (PLAY_AREA_HEIGHT - Y_PADDING) - (normalizedFreq * availableHeight) + yJitter;
+
+    const circle: CircleDefinition = {
+      id: i,
+      x: Math.max(circleRadius, Math.min(PLAY_AREA_WIDTH - circleRadius, x)),
+      y: Math.max(circleRadius, Math.min(PLAY_AREA_HEIGHT - circleRadius, y)),
+      color: PALETTE[i % PALETTE.length],
+      frequency,
+      time,
+    };
+    if (accent) circle.accent = true;
+    return circle;
+  });
+};
+
+/**
+ * Calculates a musical frequency based on a Y-coordinate in the play area.
+ * This is the inverse of the positioning logic in `generateSequence`.
+ * @param y The y-coordinate of the click/cursor, in play area units.
+ * @param scale The scale whose range is mapped onto the play area. Defaults to C major pentatonic.
+ * @param snap If true, the frequency snaps to the scale note whose lane is nearest, see getScaleDegreeYs.
+ * @returns A frequency in Hz.
+ */
+export const calculateFrequencyFromY = (y: number, scale: ScaleSelection = DEFAULT_SCALE, snap: boolean = false): number => {
+  const availableHeight = PLAY_AREA_HEIGHT - Y_PADDING * 2;
+  const { scaleFrequencies, minFreq, maxFreq, freqRange } = getScaleRange(scale);
+  
+  // Clamp y to the playable area to avoid extreme frequencies
+  const clampedY = Math.max(Y_PADDING, Math.min(PLAY_AREA_HEIGHT - Y_PADDING, y));
+  
+  // Invert the formula from generateSequence:
+  // y = (PLAY_AREA_HEIGHT - Y_PADDING) - (normalizedFreq * availableHeight)
+  // normalizedFreq = ((PLAY_AREA_HEIGHT - Y_PADDING) - y) / availableHeight
+  const normalizedY = ((PLAY_AREA_HEIGHT - Y_PADDING) - clampedY) / availableHeight;
+  
+  const frequency = minFreq + freqRange * normalizedY;
+
+  // Frequency is linear in y, so the nearest frequency is also the nearest lane
+  if (snap) {
+    return scaleFrequencies.reduce((nearest, scaleFrequency) =>
+      Math.abs(scaleFrequency - frequency) < Math.abs(nearest - frequency) ? scaleFrequency : nearest);
+  }
+  
+  // Final clamp to ensure it's within the scale's bounds
+  return Math.max(minFreq, Math.min(maxFreq, frequency));
+};
+
+/**
+ * Returns the y-coordinate of each note of a scale in the play area, where its circles are placed.
+ * @param scale The scale. Defaults to C major pentatonic.
+ * @returns The y-coordinates in play area units, from the lowest note (bottom) up.
+ */
+export const getScaleDegreeYs = (scale: ScaleSelection = DEFAULT_SCALE): number[] => {
+  const availableHeight = PLAY_AREA_HEIGHT - Y_PADDING * 2;
+  const { scaleFrequencies, minFreq, freqRange } = getScaleRange(scale);
+  return [...scaleFrequencies]
+    .sort((a, b) => a - b)
+    .map(frequency => (PLAY_AREA_HEIGHT - Y_PADDING) - (freqRange > 0 ? (frequency - minFreq) / freqRange : 0.5) * availableHeight);
+};
+
+
+/**
+ * Solves the assignment problem for a square cost matrix (Hungarian algorithm, O(n^3)).
+ * @param cost - cost[row][col] of assigning a row to a column.
+ * @returns For each row, the index of its assigned column.
+ */
+const solveAssignment = (cost: number[][]): number[] => {
+  const n = cost.length;
+  // Potentials and matching are 1-indexed, index 0 is a virtual column.
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const columnOwner = new Array(n + 1).fill(0);
+  const way = new Array(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    columnOwner[0] = row;
+    let col0 = 0;
+    const minSlack = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+
+    do {
+      used[col0] = true;
+      const row0 = columnOwner[col0];
+      let delta = Infinity;
+      let col1 = 0;
+      for (let col = 1; col <= n; col++) {
+        if (used[col]) continue;
+        const slack = cost[row0 - 1][col - 1] - u[row0] - v[col];
+        if (slack < minSlack[col]) {
+          minSlack[col] = slack;
+          way[col] = col0;
+        }
+        if (minSlack[col] < delta) {
+          delta = minSlack[col];
+          col1 = col;
+        }
+      }
+      for (let col = 0; col <= n; col++) {
+        if (used[col]) {
+          u[columnOwner[col]] += delta;
+          v[col] -= delta;
+        } else {
+          minSlack[col] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (columnOwner[col0] !== 0);
+
+    // Walk the augmenting path back to the virtual column.
+    do {
+      const col1 = way[col0];
+      columnOwner[col0] = columnOwner[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const assignment = new Array(n).fill(-1);
+  for (let col = 1; col <= n; col++) {
+    assignment[columnOwner[col] - 1] = col - 1;
+  }
+  return assignment;
+};
+
+/**
+ * Groups the notes of a sequence that sound together: each chord is one group, and every
+ * other note is a group of its own.
+ * @returns The indices of the notes in each group, in sequence order.
+ */
+const getChordGroups = (sequence: CircleDefinition[]): number[][] => {
+  const groups: number[][] = [];
+  sequence.forEach((circle, index) => {
+    const group = groups[groups.length - 1];
+    if (group && sequence[group[0]].time === circle.time) {
+      group.push(index);
+    } else {
+      groups.push([index]);
+    }
+  });
+  return groups;
+};
+
+/**
+ * Matches each player click to a circle of the sequence.
+ * - 'optimal': the assignment with the minimum total distance, so out-of-order clicks are handled
+ *   gracefully without an early sloppy click stealing a later click's circle.
+ * - 'inOrder': click i is always judged against circle i. The notes of a chord are hit together
+ *   in no particular order, so the clicks made for a chord are matched to its notes by distance.
+ * @param sequence - The original sequence.
+ * @param playerClicks - The recorded clicks from the player.
+ * @param matchingMode - How clicks are matched to circles.
+ * @returns For each click, the index of its matched circle, or -1 if it has none.
+ */
+export const matchClicksToCircles = (
+  sequence: CircleDefinition[],
+  playerClicks: PlayerClick[],
+  matchingMode: MatchingMode = 'optimal'
+): number[] => {
+  if (matchingMode === 'inOrder') {
+    const matches = playerClicks.map((_, index) => (index < sequence.length ? index : -1));
+    getChordGroups(sequence).filter(group => group.length > 1).forEach(group => {
+      // Rows of chord notes that didn't get a click yet are padding and cost nothing.
+      const cost = group.map(clickIndex => group.map(circleIndex => {
+        const click = playerClicks[clickIndex];
+        const circle = sequence[circleIndex];
+        return click ? Math.hypot(click.x - circle.x, click.y - circle.y) : 0;
+      }));
+      const assignment = solveAssignment(cost);
+      group.forEach((clickIndex, row) => {
+        if (clickIndex < playerClicks.length) matches[clickIndex] = group[assignment[row]];
+      });
+    });
+    return matches;
+  }
+
+  // Pad to a square matrix; pairs with a padding row or column cost nothing and mean "unmatched".
+  const size = Math.max(sequence.length, playerClicks.length);
+  const cost = Array.from({ length: size }, (_, clickIndex) =>
+    Array.from({ length: size }, (_, circleIndex) => {
+      const click = playerClicks[clickIndex];
+      const circle = sequence[circleIndex];
+      return click && circle ? Math.hypot(click.x - circle.x, click.y - circle.y) : 0;
+    })
+  );
+
+  const assignment = solveAssignment(cost);
+  return playerClicks.map((_, clickIndex) => {
+    const circleIndex = assignment[clickIndex];
+    return circleIndex < sequence.length ? circleIndex : -1;
+  });
+};
+
+/**
+ * Judges a single hit against the judgement windows.
+ * @param distance - Distance in play area units from the hit to its circle, null if the note got no click.
+ * @param timingError - Timing error in ms, null if the note has no timing (e.g. the first note).
+ * @param difficulty - The difficulty, whose circle size sets the position windows. Defaults to normal.
+ * @returns The best tier whose timing and position windows both contain the hit.
+ */
+export const judgeNote = (distance: number | null, timingError: number | null, difficulty: Difficulty = DEFAULT_DIFFICULTY): Judgement => {
+  if (distance === null) return 'miss';
+  const window = getJudgementWindows(difficulty).find(({ timingMs, distancePx }) =>
+    distance <= distancePx && (timingError === null || Math.abs(timingError) <= timingMs)
+  );
+  return window ? window.judgement : 'miss';
+};
+
+/**
+ * Fits the player's overall tempo by least squares: the factor the player's offsets are
+ * stretched by compared to the sequence's, above 1 when slower and below 1 when faster.
+ * @param originalOffsets - Offset of each note after the first from the first note, in ms.
+ * @param playerOffsets - Offset of each click after the first from the first click, in ms.
+ * @returns The stretch factor, or null without at least two intervals to fit.
+ */
+const fitTempoStretch = (originalOffsets: number[], playerOffsets: number[]): number | null => {
+  if (playerOffsets.length < 2) return null;
+  let product = 0;
+  let square = 0;
+  playerOffsets.forEach((offset, i) => {
+    product += offset * originalOffsets[i];
+    square += originalOffsets[i] * originalOffsets[i];
+  });
+  return product > 0 && square > 0 ? product / square : null;
+};
+
+/**
+ * Times each click against the note with the same index, both measured from the first note.
+ * Rests are part of the offset of the note that follows them.
+ * The player's first note is the first click, or with a beat grid the beat nearest to the first
+ * click, so a click late on every note is late on the first one too.
+ * @param sequence - The original sequence.
+ * @param playerClicks - The recorded clicks from the player, at least one.
+ * @param tempo - The tempo the sequence was played at, as a fraction of full tempo. See calculateScore.
+ * @param rhythmModel - With 'tempoInvariant', clicks are first scaled from the player's fitted tempo
+ *   to the sequence's, so a steady rhythm played a little fast or slow still lands on time.
+ * @param beatGrid - The beats the round was played on, if the clicks are timed against them.
+ * @returns The timing error of each click in ms, early (<0) or late (>0), null for the first one
+ *   when it is the timing reference, and the tempo drift in percent, see Score.
+ */
+const measureTiming = (
+  sequence: CircleDefinition[],
+  playerClicks: PlayerClick[],
+  tempo: number,
+  rhythmModel: RhythmModel,
+  beatGrid?: BeatGrid
+): { timingErrors: (number | null)[]; tempoDrift: number | null } => {
+  const firstTime = playerClicks[0].time;
+  const reference = beatGrid
+    ? beatGrid.start + Math.round((firstTime - beatGrid.start) / beatGrid.beatMs) * beatGrid.beatMs
+    : firstTime;
+  const originalOffsets: number[] = [];
+  const playerOffsets: number[] = [];
+  for (let i = 0; i < Math.min(sequence.length, playerClicks.length); i++) {
+    originalOffsets.push(sequence[i].time - sequence[0].time);
+    playerOffsets.push((playerClicks[i].time - reference) * tempo);
+  }
+
+  // The tempo is fitted to the intervals after the first note
+  const stretch = fitTempoStretch(originalOffsets.slice(1), playerOffsets.slice(1));
+  // A wildly different tempo isn't followed all the way, the rhythm was off rather than the tempo
+  const appliedStretch = rhythmModel === 'tempoInvariant' && stretch !== null
+    ? Math.max(1 - MAX_TEMPO_FIT_DEVIATION, Math.min(1 + MAX_TEMPO_FIT_DEVIATION, stretch))
+    : 1;
+
+  return {
+    timingErrors: playerOffsets.map((offset, i) => (i === 0 && !beatGrid ? null : offset / appliedStretch - originalOffsets[i])),
+    tempoDrift: stretch === null ? null : (1 / stretch - 1) * 100,
+  };
+};
+
+export interface ScoringOptions {
+  matchingMode?: MatchingMode; // How clicks are matched to circles for the position score. Defaults to 'optimal'.
+  maxPitchError?: number; // The maximum pitch difference in cents for a pitch score > 0. Defaults to MAX_PITCH_ERROR_CENTS.
+  // The tempo the sequence was played at, as a fraction of full tempo (e.g. 0.5 in practice mode at half
+  // speed). Click times are scaled back to full tempo, so timing errors are always measured against the
+  // sequence's own timeline and scores mean the same at any tempo. Defaults to 1.
+  tempo?: number;
+  // 'absolute' scores each click against the sequence's timeline. 'tempoInvariant' fits the player's
+  // overall tempo first and scores the clicks against it, so only the relative intervals count. Either
+  // way, how far the player's tempo drifted is reported as feedback. Defaults to 'absolute'.
+  rhythmModel?: RhythmModel;
+  // The beats the round was played on. Without one, the clicks are timed from the first click, which
+  // has no rhythm score. With one they are timed from the beat nearest the first click, which is scored
+  // like the others: a player who is late on every note is late, and a latency calibration moves their
+  // clicks onto the beat.
+  beatGrid?: BeatGrid;
+  difficulty?: Difficulty; // The difficulty the round was played on, which sets the judgement windows. Defaults to normal.
+}
+
+/**
+ * Judges a click while the player is still playing, for instant feedback. That is the most
+ * recent click unless several pointers are down, e.g. while a chord is held.
+ * Position is judged against the circle the click is currently matched to; the final
+ * judgement can differ once later clicks claim their circles. With the tempo-invariant
+ * rhythm model, the tempo is fitted to the clicks so far.
+ * @param sequence - The original sequence.
+ * @param playerClicks - The clicks so far, the last one being judged.
+ * @param options - How the round is scored, see ScoringOptions, and the index of the click to judge,
+ *   which defaults to the most recent click.
+ */
+export const judgeLatestClick = (
+  sequence: CircleDefinition[],
+  playerClicks: PlayerClick[],
+  {
+    matchingMode = 'optimal', tempo = 1, rhythmModel = 'absolute', index = playerClicks.length - 1, beatGrid, difficulty = DEFAULT_DIFFICULTY,
+  }: Omit<ScoringOptions, 'maxPitchError'> & { index?: number } = {}
+): Judgement => {
+  if (index < 0 || index >= sequence.length || index >= playerClicks.length) return 'miss';
+
+  const click = playerClicks[index];
+  const circle = sequence[matchClicksToCircles(sequence, playerClicks, matchingMode)[index]];
+  const distance = circle ? Math.hypot(click.x - circle.x, click.y - circle.y) : null;
+  const timingError = measureTiming(sequence, playerClicks, tempo, rhythmModel, beatGrid).timingErrors[index];
+
+  return judgeNote(distance, timingError, difficulty);
+};
+
+/**
+ * Counts the notes per judgement tier and finds the longest streak of non-miss notes.
+ * @param notes - The per-note results, in sequence order.
+ */
+export const summarizeJudgements = (notes: NoteResult[]): { judgements: JudgementCounts; maxCombo: number } => {
+  const judgements: JudgementCounts = { perfect: 0, great: 0, good: 0, miss: 0 };
+  let combo = 0;
+  let maxCombo = 0;
+
+  notes.forEach(note => {
+    judgements[note.judgement]++;
+    combo = note.judgement === 'miss' ? 0 : combo + 1;
+    maxCombo = Math.max(maxCombo, combo);
+  });
+
+  return { judgements, maxCombo };
+};
+
+/**
+ * Returns how far a frequency is from a target frequency in cents (1/100 of a semitone).
+ * Positive values are sharp, negative values flat.
+ */
+export const getCentsDifference = (frequency: number, targetFrequency: number): number =>
+  1200 * Math.log2(frequency / targetFrequency);
+
+/**
+ * Calculates the player's score based on position, rhythm and pitch accuracy, and for
+ * sequences with hold notes on how long each hold note was held.
+ * @param sequence - The original sequence.
+ * @param playerClicks - The recorded clicks from the player.
+ * @param maxPosError - The maximum distance for a position score > 0.
+ * @param maxRhythmError - The maximum time difference for a rhythm score > 0, and for a duration score > 0.
+ * @param options - Matching, pitch tolerance, tempo, rhythm model, beat grid and difficulty, see ScoringOptions.
+ * @returns A Score object with position, rhythm, pitch, duration and total scores, plus a breakdown per note.
+ */
+export const calculateScore = (
+  sequence: CircleDefinition[], 
+  playerClicks: PlayerClick[],
+  maxPosError: number,
+  maxRhythmError: number,
+  {
+    matchingMode = 'optimal', maxPitchError = MAX_PITCH_ERROR_CENTS, tempo = 1, rhythmModel = 'absolute', beatGrid, difficulty = DEFAULT_DIFFICULTY,
+  }: ScoringOptions = {}
+): Score => {
+  // Every note starts out as missed; without a beat grid the first note is the timing reference and has no rhythm score.
+  const notes: NoteResult[] = sequence.map((circle, index) => ({
+    circleId: circle.id,
+    clickIndex: null,
+    distance: null,
+    timingError: null,
+    pitchError: null,
+    positionScore: 0,
+    rhythmScore: index === 0 && !beatGrid ? null : 0,
+    pitchScore: 0,
+    holdError: null,
+    durationScore: circle.duration === undefined ? null : 0,
+    judgement: 'miss',
+  }));
+  const holdNoteCount = notes.filter(note => note.durationScore !== null).length;
+
+  // Judges every note once its position and timing are known.
+  const withJudgements = (score: Pick<Score, 'position' | 'rhythm' | 'pitch' | 'duration' | 'total' | 'tempoDrift'>): Score => {
+    notes.forEach(note => {
+      // A note after the first that no click was timed against can't be judged on rhythm.
+      const untimed = note.rhythmScore === 0 && note.timingError === null;
+      note.judgement = untimed ? 'miss' : judgeNote(note.distance, note.timingError, difficulty);
+    });
+    return { ...score, notes, ...summarizeJudgements(notes) };
+  };
+
+  if (playerClicks.length === 0 || sequence.length === 0) {
+    return withJudgements({ position: 0, rhythm: 0, pitch: 0, duration: holdNoteCount > 0 ? 0 : null, total: 0, tempoDrift: null });
+  }
+
+  // --- Position and Pitch Scores ---
+  // Pitch is judged on the note each click is matched to by position.
+  let totalPositionScore = 0;
+  let totalPitchScore = 0;
+  const matches = matchClicksToCircles(sequence, playerClicks, matchingMode);
+  
+  playerClicks.forEach((click, clickIndex) => {
+    const circle = sequence[matches[clickIndex]];
+    if (!circle) return;
+
+    const distance = Math.hypot(click.x - circle.x, click.y - circle.y);
+    // Score is 100% at 0 distance, 0% at maxPosError distance, linearly interpolated.
+    const positionScore = Math.max(0, 100 * (1 - distance / maxPosError));
+    totalPositionScore += positionScore;
+
+    const note = notes[matches[clickIndex]];
+    note.clickIndex = clickIndex;
+    note.distance = distance;
+    note.positionScore = positionScore;
+
+    // Clicks without a recorded pitch score 0.
+    if (click.frequency !== undefined && click.frequency > 0) {
+      const pitchError = getCentsDifference(click.frequency, circle.frequency);
+      const pitchScore = Math.max(0, 100 * (1 - Math.abs(pitchError) / maxPitchError));
+      totalPitchScore += pitchScore;
+      note.pitchError = pitchError;
+      note.pitchScore = pitchScore;
+    }
+  });
+  const avgPositionScore = totalPositionScore / sequence.length;
+  const avgPitchScore = totalPitchScore / sequence.length;
+
+  // --- Duration Score ---
+  // Hold notes are judged like pitch, on the click matched to each note.
+  let avgDurationScore: number | null = null;
+  if (holdNoteCount > 0) {
+    let totalDurationScore = 0;
+    sequence.forEach((circle, i) => {
+      const { clickIndex } = notes[i];
+      const click = clickIndex === null ? undefined : playerClicks[clickIndex];
+      if (circle.duration === undefined || !click || click.releaseTime === undefined) return;
+      const holdError = (click.releaseTime - click.time) * tempo - circle.duration;
+      const durationScore = Math.max(0, 100 * (1 - Math.abs(holdError) / maxRhythmError));
+      totalDurationScore += durationScore;
+      notes[i].holdError = holdError;
+      notes[i].durationScore = durationScore;
+    });
+    avgDurationScore = totalDurationScore / holdNoteCount;
+  }
+  // The total averages the scores that apply to the round
+  const averageWithDuration = (scores: number[]): number => {
+    const applicable = avgDurationScore === null ? scores : [...scores, avgDurationScore];
+    return applicable.reduce((sum, score) => sum + score, 0) / applicable.length;
+  };
+  const duration = avgDurationScore === null ? null : Math.round(avgDurationScore);
+
+  // --- Rhythm Score ---
+  // Based on offsets from the first click, or from its beat. Rests are part of the expected
+  // interval to the next note, so a rest is scored by the timing of the note that follows it.
+  let totalRhythmScore = 0;
+  const timedNoteCount = notes.filter(note => note.rhythmScore !== null).length;
+  if (timedNoteCount > 0 && playerClicks.length > (beatGrid ? 0 : 1)) {
+    const { timingErrors, tempoDrift } = measureTiming(sequence, playerClicks, tempo, rhythmModel, beatGrid);
+    timingErrors.forEach((timingError, i) => {
+      if (timingError === null) return;
+      const rhythmScore = Math.max(0, 100 * (1 - Math.abs(timingError) / maxRhythmError));
+      totalRhythmScore += rhythmScore;
+
+      // Rhythm is judged by order: the i-th click against the i-th note.
+      notes[i].timingError = timingError;
+      notes[i].rhythmScore = rhythmScore;
+    });
+     const avgRhythmScore = totalRhythmScore / timedNoteCount;
+     const total = averageWithDuration([avgPositionScore, avgRhythmScore, avgPitchScore]);
+
+    return withJudgements({
+      position: Math.round(avgPositionScore),
+      rhythm: Math.round(avgRhythmScore),
+      pitch: Math.round(avgPitchScore),
+      duration,
+      total: Math.round(total),
+      tempoDrift: tempoDrift === null ? null : Math.round(tempoDrift),
+    });
+  }
+
+  // If only one circle, rhythm is 100% by default.
+  const total = averageWithDuration([avgPositionScore, avgPitchScore]);
+  return withJudgements({
+    position: Math.round(avgPositionScore),
+    rhythm: 100,
+    pitch: Math.round(avgPitchScore),
+    duration,
+    total: Math.round(total),
+    tempoDrift: null,
+  });
+};
+
+/**
+ * Whether a note counts as missed in the round review, i.e. it was judged a miss.
+ */
+export const isMissedNote = (note: NoteResult): boolean => note.judgement === 'miss';
+
+/**
+ * Returns whether a round's scores all reach their pass thresholds.
+ * Scores that don't apply to the round, like the duration score without hold notes, are skipped.
+ * @param score - The round's score.
+ */
+export const isRoundPassed = (score: Pick<Score, keyof typeof PASS_THRESHOLDS>): boolean =>
+  (Object.keys(PASS_THRESHOLDS) as (keyof typeof PASS_THRESHOLDS)[]).every(category => {
+    const value = score[category];
+    return value === null || value >= PASS_THRESHOLDS[category];
+  });
+
+/**
+ * Returns whether a round was strong enough to earn back a lost life:
+ * a high total score without a single missed note.
+ * @param score - The round's score.
+ */
+export const earnsExtraLife = (score: Score): boolean =>
+  isRoundPassed(score) && score.total >= EXTRA_LIFE_MIN_TOTAL && score.judgements.miss === 0;
@@ -0,0 +1,182 @@
+// Melodies are built on scale degrees: indices into a scale's frequencies, from
+// the root (0) up to the root an octave higher (degreeCount - 1).
+
+export type MelodyContour = 'arch' | 'ascending' | 'callAndResponse';
+export const MELODY_CONTOURS: readonly MelodyContour[] = ['arch', 'ascending', 'callAndResponse'];
+
+export interface MelodyOptions {
+  contour?: MelodyContour; // Overall shape of the melody. Picked at random by default.
+  resolveToTonic?: boolean; // End the melody on the root. Defaults to true.
+}
+
+const MAX_LEAP_DEGREES = 4; // Largest interval between two notes, in scale degrees
+const MAX_REPEATED_NOTES = 2; // Longest run of the same note
+const CONTOUR_PULL = 1.2; // How strongly the melody is drawn to its contour
+
+// Relative weight of moving by 0, 1, 2, 3 and 4 scale degrees: steps are favoured over leaps.
+const INTERVAL_WEIGHTS = [1, 6, 3, 1, 0.5];
+
+// Target height of the melody, from 0 (lowest degree) to 1 (highest), at progress t in [0, 1].
+const CONTOUR_TARGETS: Record<Exclude<MelodyContour, 'callAndResponse'>, (t: number) => number> = {
+  arch: t => 0.2 + 0.6 * Math.sin(Math.PI * t),
+  ascending: t => 0.1 + 0.8 * t,
+};
+
+/**
+ * Picks an index with probability proportional to its weight.
+ */
+const pickWeighted = (weights: number[], random: () => number): number => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let pick = random() * totalWeight;
+  const index = weights.findIndex(weight => (pick -= weight) < 0);
+  return index === -1 ? weights.length - 1 : index;
+};
+
+/**
+ * Picks the degree following a melody, favouring steps over leaps, degrees close to
+ * the target, and a step back the other way after a leap.
+ * @param degrees - The melody so far, at least one note.
+ * @param highest - The highest scale degree.
+ * @param target - The degree the melody is drawn to.
+ * @param random - Source of random numbers in [0, 1).
+ * @param excluded - A degree that may not be picked, if any.
+ * @param resolution - The tonic the melody resolves to and how many notes follow this one, if it
+ *   resolves: the tonic has to stay within reach of them.
+ */
+const pickNextDegree = (
+  degrees: number[],
+  highest: number,
+  target: number,
+  random: () => number,
+  excluded: number | null = null,
+  resolution: { tonic: number; notesLeft: number } | null = null,
+): number => {
+  const previous = degrees[degrees.length - 1];
+  const previousInterval = degrees.length > 1 ? previous - degrees[degrees.length - 2] : 0;
+  const repeats = degrees.length >= MAX_REPEATED_NOTES && degrees.slice(-MAX_REPEATED_NOTES).every(earlier => earlier === previous);
+
+  const candidates: number[] = [];
+  const weights: number[] = [];
+  for (let interval = -MAX_LEAP_DEGREES; interval <= MAX_LEAP_DEGREES; interval++) {
+    const candidate = previous + interval;
+    if (candidate < 0 || candidate > highest) continue;
+    if ((interval === 0 && repeats) || candidate === excluded) continue;
+    if (resolution && Math.abs(candidate - resolution.tonic) > resolution.notesLeft * MAX_LEAP_DEGREES) continue;
+
+    let weight = INTERVAL_WEIGHTS[Math.abs(interval)] * Math.exp(-CONTOUR_PULL * Math.abs(candidate - target));
+    // After a leap, step back the other way.
+    if (Math.abs(previousInterval) >= 3 && Math.sign(interval) === -Math.sign(previousInterval) && Math.abs(interval) <= 2) {
+      weight *= 3;
+    }
+    candidates.push(candidate);
+    weights.push(weight);
+  }
+  return candidates[pickWeighted(weights, random)];
+};
+
+/**
+ * Creates a melody that moves mostly by step, follows a contour and limits its leaps.
+ * - 'arch': rises to a peak in the middle and falls back.
+ * - 'ascending': climbs steadily.
+ * - 'callAndResponse': a rising first phrase answered by the same motion a few degrees lower.
+ * Notes are only picked when asked for, so the melody shares the random source with
+ * the rest of sequence generation: a seeded source always yields the same melody.
+ * @param count - The number of notes in the melody.
+ * @param degreeCount - The number of scale degrees to pick from, the top one being the octave.
+ * @param random - Source of random numbers in [0, 1).
+ * @param options - Contour and resolution, see MelodyOptions.
+ * @returns A function giving the scale degree of each following note.
+ */
+export const createMelody = (
+  count: number,
+  degreeCount: number,
+  random: () => number,
+  { contour, resolveToTonic = true }: MelodyOptions = {},
+) => {
+  const highest = degreeCount - 1;
+  const callLength = Math.ceil(count / 2);
+  const degrees: number[] = [];
+  let melodyContour = contour;
+
+  // Height the melody aims for at a note, in scale degrees.
+  const targetDegree = (index: number, shape: MelodyContour): number => {
+    const t = count > 1 ? index / (count - 1) : 0;
+    if (shape !== 'callAndResponse') {
+      return CONTOUR_TARGETS[shape](t) * highest;
+    }
+    if (index < callLength) {
+      return (0.3 + 0.5 * (callLength > 1 ? index / (callLength - 1) : 0)) * highest;
+    }
+    // The response echoes the call two degrees lower.
+    return Math.max(0, degrees[index - callLength] - 2);
+  };
+
+  // The melody resolves on whichever root, the low one or the octave, its contour ends closer to.
+  const finalTonic = (shape: MelodyContour): number => {
+    const end = targetDegree(count - 1, shape);
+    return end <= highest - end ? 0 : highest;
+  };
+
+  return (): number => {
+    const shape = melodyContour ??= MELODY_CONTOURS[Math.floor(random() * MELODY_CONTOURS.length)];
+    const index = degrees.length;
+    const isLast = index === count - 1;
+    let degree: number;
+
+    if (index === 0) {
+      // Start near the contour, anywhere within a step of it.
+      const start = Math.round(targetDegree(0, shape));
+      const candidates = [start - 1, start, start + 1].filter(candidate => candidate >= 0 && candidate <= highest);
+      degree = candidates[Math.floor(random() * candidates.length)];
+    } else if (isLast && resolveToTonic) {
+      degree = finalTonic(shape);
+    } else {
+      // Land a step away from the tonic just before resolving onto it, never out of its reach.
+      const tonic = resolveToTonic ? finalTonic(shape) : null;
+      const isPenultimate = tonic !== null && index === count - 2;
+      const target = !isPenultimate ? targetDegree(index, shape) : tonic === 0 ? 1 : highest - 1;
+      const resolution = tonic === null ? null : { tonic, notesLeft: count - 1 - index };
+      degree = pickNextDegree(degrees, highest, target, random, isPenultimate ? tonic : null, resolution);
+    }
+
+    degrees.push(degree);
+    return degree;
+  };
+};
+
+/**
+ * Creates an open-ended melody for sequences that keep growing, such as Simon mode.
+ * Unlike createMelody it has no length, contour or resolution: each note only depends on
+ * the notes before it, so the first notes stay the same however long the melody gets.
+ * It moves mostly by step and drifts back towards the middle of the range.
+ * @param degreeCount - The number of scale degrees to pick from, the top one being the octave.
+ * @param random - Source of random numbers in [0, 1).
+ * @returns A function giving the scale degree of each following note.
+ */
+export const createMelodyWalk = (degreeCount: number, random: () => number) => {
+  const highest = degreeCount - 1;
+  const middle = highest / 2;
+  const degrees: number[] = [];
+
+  return (): number => {
+    const degree = degrees.length === 0
+      ? Math.round(middle) + Math.floor(random() * 3) - 1
+      : pickNextDegree(degrees, highest, middle, random);
+    degrees.push(degree);
+    return degree;
+  };
+};
+
+/**
+ * Picks the scale degree of a chord tone sounding together with a melody note. Chord tones
+ * sit two and four degrees below the melody, which stays on top, or above it near the bottom
+ * of the range.
+ * @param melodyDegree - The degree of the melody note.
+ * @param voice - Which chord tone, 1 for the first one under the melody.
+ * @param degreeCount - The number of scale degrees, the top one being the octave.
+ */
+export const harmonizeDegree = (melodyDegree: number, voice: number, degreeCount: number): number => {
+  const candidates = [melodyDegree - 2, melodyDegree - 4, melodyDegree + 2, melodyDegree + 4]
+    .filter(degree => degree >= 0 && degree < degreeCount);
+  return candidates[Math.min(voice - 1, candidates.length - 1)];
+};
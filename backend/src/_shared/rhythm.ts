@@ -0,0 +1,136 @@
+import { GAME_BPM } from './constants';
+
+// Rhythms are built on a grid of ticks. 12 ticks per beat divides evenly into
+// eighths (6), triplet eighths (4) and sixteenths (3).
+export const TICKS_PER_BEAT = 12;
+// Sequences are phrased in bars of the track's time signature, four beats unless it has another.
+export const BEATS_PER_BAR = 4;
+export const MAX_BEATS_PER_BAR = 12;
+
+export type RhythmComplexity = 0 | 1 | 2 | 3 | 4;
+export const MAX_RHYTHM_COMPLEXITY: RhythmComplexity = 4;
+
+interface RhythmEvent {
+  ticks: number; // Duration of the event
+  rest?: boolean; // A silent event: no note is played
+  accent?: boolean; // The note is played louder
+  hold?: boolean; // A hold note: the player has to sustain it
+  chord?: number; // A chord: this many notes sound together
+}
+
+interface RhythmCell {
+  beats: number; // Length of the cell, a cell never crosses a barline
+  complexity: RhythmComplexity; // Lowest complexity the cell appears at
+  weight: number; // Relative chance of the cell being picked
+  events: RhythmEvent[];
+}
+
+// Hold notes are held for this fraction of their length, leaving time to move on to the next note.
+const HOLD_LENGTH = 0.75;
+
+// Rhythm cells, from plain to rich. Complexity 0 keeps the original 2:1 odds
+// of a quarter note over a pair of eighths.
+const RHYTHM_CELLS: RhythmCell[] = [
+  // Complexity 0: quarter and eighth notes
+  { beats: 1, complexity: 0, weight: 2, events: [{ ticks: 12 }] },
+  { beats: 1, complexity: 0, weight: 1, events: [{ ticks: 6 }, { ticks: 6 }] },
+  // Complexity 1: rests and dotted notes
+  { beats: 1, complexity: 1, weight: 1, events: [{ ticks: 12, rest: true }] },
+  { beats: 1, complexity: 1, weight: 1, events: [{ ticks: 6, rest: true }, { ticks: 6 }] },
+  { beats: 2, complexity: 1, weight: 1, events: [{ ticks: 24 }] },
+  { beats: 2, complexity: 1, weight: 1, events: [{ ticks: 18 }, { ticks: 6 }] },
+  { beats: 1, complexity: 1, weight: 1, events: [{ ticks: 9 }, { ticks: 3 }] },
+  // Hold notes of a half and a dotted quarter
+  { beats: 2, complexity: 1, weight: 1, events: [{ ticks: 24, hold: true }] },
+  { beats: 2, complexity: 1, weight: 1, events: [{ ticks: 18, hold: true }, { ticks: 6 }] },
+  // Complexity 2: triplets
+  { beats: 1, complexity: 2, weight: 1, events: [{ ticks: 4 }, { ticks: 4 }, { ticks: 4 }] },
+  { beats: 1, complexity: 2, weight: 1, events: [{ ticks: 8 }, { ticks: 4 }] },
+  { beats: 1, complexity: 2, weight: 1, events: [{ ticks: 4 }, { ticks: 4, rest: true }, { ticks: 4 }] },
+  // Complexity 3: syncopation, accenting the notes that land between the beats
+  { beats: 2, complexity: 3, weight: 1, events: [{ ticks: 6 }, { ticks: 12, accent: true }, { ticks: 6 }] },
+  { beats: 2, complexity: 3, weight: 1, events: [{ ticks: 6, rest: true }, { ticks: 12, accent: true }, { ticks: 6 }] },
+  { beats: 1, complexity: 3, weight: 1, events: [{ ticks: 3 }, { ticks: 6, accent: true }, { ticks: 3 }] },
+  // Complexity 4: chords of two and three notes
+  { beats: 1, complexity: 4, weight: 1, events: [{ ticks: 12, chord: 2 }] },
+  { beats: 1, complexity: 4, weight: 1, events: [{ ticks: 6 }, { ticks: 6, chord: 2 }] },
+  { beats: 2, complexity: 4, weight: 1, events: [{ ticks: 12, chord: 3 }, { ticks: 12 }] },
+];
+
+/**
+ * Returns how rich the rhythms of a round are: plain quarters and eighths for the
+ * first rounds, then rests and dotted notes, triplets, syncopation and finally chords.
+ * @param round - The 1-based round number.
+ */
+export const getRhythmComplexity = (round: number): RhythmComplexity =>
+  Math.min(MAX_RHYTHM_COMPLEXITY, Math.max(0, Math.floor((round - 1) / 2))) as RhythmComplexity;
+
+/**
+ * Creates a rhythm pattern of bar-aligned cells for a sequence.
+ * Cells are only picked when a note needs them, so the pattern shares the random
+ * source with the rest of sequence generation without reordering its draws.
+ * @param complexity - The richest cells the pattern may use.
+ * @param random - Source of random numbers in [0, 1).
+ * @param bpm - The tempo the pattern is played at. Defaults to the game's tempo.
+ * @param beatsPerBar - The length of the bars the cells are aligned to. Defaults to BEATS_PER_BAR.
+ * @returns A function giving the onset of each following note, in ms from the first note, for
+ *   hold notes how long they are held in ms, and how many notes sound at the onset: above 1 for
+ *   a chord. The first note is never a hold note or a chord.
+ */
+export const createRhythmPattern = (complexity: RhythmComplexity, random: () => number, bpm = GAME_BPM, beatsPerBar = BEATS_PER_BAR) => {
+  const quarterNoteMs = 60000 / bpm;
+  const cells = RHYTHM_CELLS.filter(cell => cell.complexity <= complexity);
+  const pending: RhythmEvent[] = [];
+  let beatInBar = 0;
+  let lastCellWasRest = false;
+  let isFirstCell = true;
+  let noteCount = 0;
+  let previousNote: RhythmEvent | null = null; // The last note handed out, once its length is needed
+  let previousOnset = 0; // Onset of the last note in ticks
+
+  const pickCell = () => {
+    // A cell has to fit in what is left of the bar, and a bar of silence is not a rhythm.
+    // The first cell starts with a note, so the first note sits on the downbeat and the rest stay on the grid.
+    const candidates = cells.filter(cell =>
+      cell.beats <= beatsPerBar - beatInBar &&
+      !(lastCellWasRest && cell.events.every(event => event.rest)) &&
+      !(isFirstCell && cell.events[0].rest)
+    );
+    const totalWeight = candidates.reduce((sum, cell) => sum + cell.weight, 0);
+    let pick = random() * totalWeight;
+    const cell = candidates.find(candidate => (pick -= candidate.weight) < 0) ?? candidates[candidates.length - 1];
+
+    beatInBar = (beatInBar + cell.beats) % beatsPerBar;
+    lastCellWasRest = cell.events.every(event => event.rest);
+    isFirstCell = false;
+    pending.push(...cell.events);
+  };
+
+  // Takes the next sounding event, along with the length of the rests before it.
+  const nextNote = (): { event: RhythmEvent; restTicks: number } => {
+    let restTicks = 0;
+    for (;;) {
+      if (pending.length === 0) pickCell();
+      const event = pending.shift()!;
+      if (!event.rest) return { event, restTicks };
+      restTicks += event.ticks;
+    }
+  };
+
+  return (): { time: number; accent: boolean; duration: number | null; chordSize: number } => {
+    // The first note is the time reference on the downbeat. Its length is only looked
+    // up once the second note needs it; no cell it can come from starts with an accent.
+    if (noteCount++ === 0) return { time: 0, accent: false, duration: null, chordSize: 1 };
+    previousNote ??= nextNote().event;
+
+    const { event, restTicks } = nextNote();
+    previousOnset += previousNote.ticks + restTicks;
+    previousNote = event;
+    return {
+      time: Math.round((previousOnset * quarterNoteMs) / TICKS_PER_BEAT),
+      accent: event.accent ?? false,
+      duration: event.hold ? Math.round((event.ticks * HOLD_LENGTH * quarterNoteMs) / TICKS_PER_BEAT) : null,
+      chordSize: event.chord ?? 1,
+    };
+  };
+};
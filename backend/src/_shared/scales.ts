@@ -0,0 +1,59 @@
+import type { NoteName, ScaleId, ScaleSelection } from '../types.js';
+
+export const NOTE_NAMES: readonly NoteName[] = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Scale registry. Intervals are semitones above the root, within one octave.
+export const SCALES: Record<ScaleId, { name: string; intervals: readonly number[] }> = {
+  majorPentatonic: { name: 'Major Pentatonic', intervals: [0, 2, 4, 7, 9] },
+  major: { name: 'Major', intervals: [0, 2, 4, 5, 7, 9, 11] },
+  naturalMinor: { name: 'Natural Minor', intervals: [0, 2, 3, 5, 7, 8, 10] },
+  minorPentatonic: { name: 'Minor Pentatonic', intervals: [0, 3, 5, 7, 10] },
+  blues: { name: 'Blues', intervals: [0, 3, 5, 6, 7, 10] },
+  dorian: { name: 'Dorian', intervals: [0, 2, 3, 5, 7, 9, 10] },
+  chromatic: { name: 'Chromatic', intervals: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] },
+};
+
+// C Major Pentatonic, C4 to C5
+export const DEFAULT_SCALE: ScaleSelection = { scale: 'majorPentatonic', root: 'C' };
+
+const A4_FREQUENCY = 440;
+const A4_SEMITONES_ABOVE_C4 = 9;
+
+/**
+ * Returns the frequency of a note, rounded to 0.01 Hz.
+ * @param semitonesAboveC4 - The note's distance from middle C in semitones.
+ */
+const noteFrequency = (semitonesAboveC4: number): number => {
+  const frequency = A4_FREQUENCY * Math.pow(2, (semitonesAboveC4 - A4_SEMITONES_ABOVE_C4) / 12);
+  return Math.round(frequency * 100) / 100;
+};
+
+export const isValidScaleSelection = (selection: unknown): selection is ScaleSelection => {
+  if (!selection || typeof selection !== 'object') return false;
+  const { scale, root } = selection as ScaleSelection;
+  return Object.prototype.hasOwnProperty.call(SCALES, scale) && NOTE_NAMES.includes(root);
+};
+
+/**
+ * Returns the frequencies (Hz) of a scale over one octave, starting at its root
+ * in the 4th octave and ending on the root an octave higher.
+ * @param selection - The scale and its root.
+ */
+export const getScaleFrequencies = (selection: ScaleSelection): number[] => {
+  const rootOffset = NOTE_NAMES.indexOf(selection.root);
+  const { intervals } = SCALES[selection.scale];
+  return [...intervals, 12].map(interval => noteFrequency(rootOffset + interval));
+};
+
+/**
+ * Returns a root-third-fifth-octave arpeggio in a scale, e.g. for the level-complete jingle.
+ * Uses the major third where the scale has one, otherwise the minor third.
+ * @param selection - The scale and its root.
+ */
+export const getArpeggioFrequencies = (selection: ScaleSelection): number[] => {
+  const rootOffset = NOTE_NAMES.indexOf(selection.root);
+  const { intervals } = SCALES[selection.scale];
+  const third = intervals.includes(4) ? 4 : 3;
+  const fifth = intervals.includes(7) ? 7 : 6;
+  return [0, third, fifth, 12].map(interval => noteFrequency(rootOffset + interval));
+};
@@ -0,0 +1,50 @@
+/**
+ * Seeded random number generator for deterministic sequences
+ * Uses a simple Linear Congruential Generator (LCG) algorithm
+ */
+export class SeededRandom {
+  private seed: number;
+  
+  constructor(seed: number = 12345) {
+    this.seed = seed;
+  }
+  
+  /**
+   * Generate next random number between 0 and 1 (exclusive of 1)
+   */
+  next(): number {
+    // LCG formula: (a * seed + c) % m
+    // Using common LCG parameters
+    this.seed = (this.seed * 1664525 + 1013904223) % (Math.pow(2, 32));
+    return this.seed / Math.pow(2, 32);
+  }
+  
+  /**
+   * Reset the generator to its initial seed
+   */
+  reset(newSeed?: number): void {
+    this.seed = newSeed ?? 12345;
+  }
+}
+
+/**
+ * Returns the UTC calendar date of a moment as YYYY-MM-DD.
+ * Used as the key of a daily challenge.
+ */
+export function getUtcDateKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Derive the seed for one round of a daily challenge.
+ * Every player gets the same seed for the same date and round (32-bit FNV-1a hash).
+ */
+export function getDailySeed(dateKey: string, round: number): number {
+  const text = `${dateKey}:${round}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
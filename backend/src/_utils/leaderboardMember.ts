@@ -0,0 +1,33 @@
+import type { LeaderboardEntry, MatchingMode, RhythmModel } from '../types.js';
+
+/**
+ * Leaderboard sorted-set members encode an entry as
+ * "username:score:round:matching:fullPerfect:rhythmModel:latencyCalibrated:metronome:countIn".
+ * Older members may lack everything after the round; those parts fall back
+ * to the defaults of the time they were written.
+ */
+export type LeaderboardMember = Required<Omit<LeaderboardEntry, 'rank'>>;
+
+const flag = (value: boolean) => (value ? 1 : 0);
+
+export function encodeMember(member: LeaderboardMember): string {
+  const { user, score, round, matching, fullPerfect, rhythmModel, latencyCalibrated, metronome, countIn } = member;
+  return `${user}:${score}:${round}:${matching}:${flag(fullPerfect)}:${rhythmModel}:${flag(latencyCalibrated)}:${flag(metronome)}:${flag(countIn)}`;
+}
+
+export function parseMember(member: string, rank: number): LeaderboardEntry {
+  const [user, scoreStr, roundStr, matching, fullPerfect, rhythmModel, latencyCalibrated, metronome, countIn] = member.split(':');
+
+  return {
+    user,
+    score: Number(scoreStr),             // The category's score (the round number on the round leaderboard)
+    round: Number(roundStr),             // The round this score was achieved in
+    rank,
+    matching: (matching || 'optimal') as MatchingMode, // How clicks were matched to circles
+    fullPerfect: fullPerfect === '1',    // Every note of the round was judged perfect
+    rhythmModel: (rhythmModel || 'absolute') as RhythmModel, // How rhythm was scored
+    latencyCalibrated: latencyCalibrated === '1', // Clicks were corrected by the player's latency calibration
+    metronome: metronome === '1',       // A metronome clicked the beat during the player's turn
+    countIn: countIn === '1',           // A count-in clicked the beat before the player's turn
+  };
+}
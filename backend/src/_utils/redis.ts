@@ -1,4 +1,5 @@
 import { Redis } from '@upstash/redis';
+import { DEFAULT_DIFFICULTY, isValidDifficulty } from '../_shared/difficulty';
 
 export function createRedisClient({ readonly = false }: { readonly?: boolean } = {}) {
   return new Redis({
@@ -13,15 +14,46 @@ export const REDIS_KEYS = {
   LEADERBOARD: {
     POSITION: 'memorhythm:leaderboard:position',
     RHYTHM: 'memorhythm:leaderboard:rhythm', 
+    PITCH: 'memorhythm:leaderboard:pitch',
     TOTAL: 'memorhythm:leaderboard:total',
     ROUND: 'memorhythm:leaderboard:round',
+    SIMON: 'memorhythm:leaderboard:simon',
   },
+  DAILY_LEADERBOARD_PREFIX: 'memorhythm:leaderboard:daily',
 } as const;
 
-export function getLeaderboardKey(category: string): string {
+const ASSISTED_SUFFIX = 'assisted';
+
+// Daily challenge leaderboards expire this long after their last update
+export const DAILY_LEADERBOARD_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+export function getLeaderboardKey(category: string, difficulty: string = DEFAULT_DIFFICULTY, assisted = false): string {
   const key = REDIS_KEYS.LEADERBOARD[category.toUpperCase() as keyof typeof REDIS_KEYS.LEADERBOARD];
   if (!key) {
     throw new Error(`Invalid leaderboard category: ${category}`);
   }
-  return key;
-}
\ No newline at end of file
+  if (!isValidDifficulty(difficulty)) {
+    throw new Error(`Invalid difficulty: ${difficulty}`);
+  }
+  // Normal difficulty keeps the original keys, other difficulties get their own,
+  // e.g. "memorhythm:leaderboard:total:hard"
+  const difficultyKey = difficulty === DEFAULT_DIFFICULTY ? key : `${key}:${difficulty}`;
+  // Runs played with a count-in or beat clicks are ranked apart from unassisted ones,
+  // e.g. "memorhythm:leaderboard:total:hard:assisted"
+  return assisted ? `${difficultyKey}:${ASSISTED_SUFFIX}` : difficultyKey;
+}
+
+export function getDailyLeaderboardKey(date: string, category: string, assisted = false): string {
+  // Validate the category against the regular leaderboards, daily challenges have no Simon runs
+  getLeaderboardKey(category);
+  if (category.toLowerCase() === 'simon') {
+    throw new Error(`Invalid daily leaderboard category: ${category}`);
+  }
+  const key = `${REDIS_KEYS.DAILY_LEADERBOARD_PREFIX}:${date}:${category.toLowerCase()}`;
+  return assisted ? `${key}:${ASSISTED_SUFFIX}` : key;
+}
+
+// Query parameters are strings, "true" asks for the assisted leaderboards
+export function isAssistedQuery(value: unknown): boolean {
+  return value === 'true';
+}
@@ -0,0 +1,245 @@
+import {
+  calculateFrequencyFromY, calculateScore, generateSeededSequence, generateSimonSequence, getSequenceLength, getSimonSequenceLength,
+} from '../_shared/gameLogic';
+import { BEATS_PER_BAR, MAX_BEATS_PER_BAR, getRhythmComplexity } from '../_shared/rhythm';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, getDifficultyBpm, getJudgementWindows, isValidDifficulty } from '../_shared/difficulty';
+import { GAME_BPM, MAX_TRACK_BPM, MIN_TRACK_BPM } from '../_shared/constants';
+import { getDailySeed, getUtcDateKey } from '../_shared/seededRandom';
+import { DEFAULT_SCALE, isValidScaleSelection } from '../_shared/scales';
+import type { BeatGrid, CircleDefinition, PlayerClick, Score, ScoreSubmission } from '../types.js';
+
+// Claimed scores may differ from the recomputed ones by this many points.
+// Absorbs rounding differences between JS engines (e.g. Math.hypot precision).
+export const SCORE_TOLERANCE = 1;
+
+// Longest replay scored, well past what anyone plays. Scoring a replay matches its clicks to the notes
+// in O(n^3), so oversized ones are rejected before any of it is recomputed. Rounds are only limited
+// by it too: a round whose sequence is longer than this is rejected.
+const MAX_CLICKS = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isValidClick = (click: unknown): click is PlayerClick => {
+  if (!click || typeof click !== 'object') return false;
+  const { x, y, time, releaseTime } = click as PlayerClick;
+  return isFiniteNumber(x) && isFiniteNumber(y) && isFiniteNumber(time) && (releaseTime === undefined || isFiniteNumber(releaseTime));
+};
+
+/**
+ * Checks that a daily challenge submission belongs to a current challenge and uses its seed.
+ * Runs started shortly before midnight UTC may still be submitted for the previous day.
+ */
+const verifyDailyChallenge = ({
+  date, round, seed, scale = DEFAULT_SCALE, difficulty = DEFAULT_DIFFICULTY, trackBpm = GAME_BPM, beatsPerBar = BEATS_PER_BAR,
+}: ScoreSubmission): string | null => {
+  const now = new Date();
+  const currentDates = [getUtcDateKey(now), getUtcDateKey(new Date(now.getTime() - DAY_MS))];
+  if (typeof date !== 'string' || !currentDates.includes(date)) {
+    return 'Invalid daily challenge date';
+  }
+  if (seed !== getDailySeed(date, round)) {
+    return 'Seed does not match the daily challenge';
+  }
+  // Everyone plays the daily challenge in the default scale
+  if (scale.scale !== DEFAULT_SCALE.scale || scale.root !== DEFAULT_SCALE.root) {
+    return 'Scale does not match the daily challenge';
+  }
+  // and on normal difficulty
+  if (difficulty !== DEFAULT_DIFFICULTY) {
+    return 'Difficulty does not match the daily challenge';
+  }
+  // to the default track
+  if (trackBpm !== GAME_BPM) {
+    return 'Track tempo does not match the daily challenge';
+  }
+  if (beatsPerBar !== BEATS_PER_BAR) {
+    return 'Time signature does not match the daily challenge';
+  }
+  return null;
+};
+
+/**
+ * Regenerates the submitted round's sequence from its seed.
+ * @param submission - A submission whose replay fields have already been validated.
+ */
+const regenerateSequence = ({
+  round, seed, mode = 'classic', scale = DEFAULT_SCALE, difficulty = DEFAULT_DIFFICULTY, trackBpm = GAME_BPM, beatsPerBar = BEATS_PER_BAR,
+}: ScoreSubmission): CircleDefinition[] =>
+  mode === 'simon'
+    ? generateSimonSequence(round, seed, { scale, difficulty, trackBpm })
+    : generateSeededSequence(getSequenceLength(round, difficulty), seed, {
+        scale,
+        rhythmComplexity: getRhythmComplexity(round),
+        difficulty,
+        trackBpm,
+        beatsPerBar,
+      });
+
+/**
+ * Checks that the beat grid of a calibrated submission is where its clicks put it. The client
+ * picks the grid's start, so it could otherwise line the grid up with its own clicks: each
+ * click, taken back by its note's offset, estimates when the first note was played, and the
+ * grid may be off from their median by no more than a great hit's timing window.
+ * @param submission - A submission whose replay fields have already been validated.
+ * @param sequence - The submission's regenerated sequence.
+ * @returns An error message if the grid doesn't match the clicks, otherwise null.
+ */
+const verifyBeatGrid = (
+  { clicks, latencyCalibrated, beatGridStart, difficulty = DEFAULT_DIFFICULTY }: ScoreSubmission,
+  sequence: CircleDefinition[],
+): string | null => {
+  if (!latencyCalibrated || beatGridStart === undefined || clicks.length === 0) {
+    return null;
+  }
+  const starts = clicks
+    .slice(0, sequence.length)
+    .map((click, i) => click.time - (sequence[i].time - sequence[0].time))
+    .sort((a, b) => a - b);
+  const middle = Math.floor(starts.length / 2);
+  const impliedStart = starts.length % 2 === 1 ? starts[middle] : (starts[middle - 1] + starts[middle]) / 2;
+  const tolerance = getJudgementWindows(difficulty).find(window => window.judgement === 'great')!.timingMs;
+  return Math.abs(beatGridStart - impliedStart) > tolerance ? 'Beat grid does not match the submitted replay' : null;
+};
+
+/**
+ * Regenerates the submitted round's sequence from its seed and re-runs the scoring.
+ * @param submission - A submission whose replay fields have already been validated.
+ * @param sequence - The submission's sequence, if it was already regenerated.
+ * @returns The score the replay actually earns.
+ */
+export function recomputeScore(submission: ScoreSubmission, sequence = regenerateSequence(submission)): Score {
+  const {
+    clicks, matching = 'optimal', rhythmModel = 'absolute', scale = DEFAULT_SCALE, difficulty = DEFAULT_DIFFICULTY,
+    trackBpm = GAME_BPM, pitchSnap = false, latencyCalibrated = false, beatGridStart,
+  } = submission;
+  // The pitch a click ends on follows from where it was released, so it's derived rather than trusted
+  const replayedClicks = clicks.map(click => ({
+    ...click,
+    frequency: calculateFrequencyFromY(click.y, scale, pitchSnap),
+  }));
+  // Calibrated clicks are timed against the beats of the round, which was played at full tempo
+  const beatGrid: BeatGrid | undefined = latencyCalibrated && beatGridStart !== undefined
+    ? { start: beatGridStart, beatMs: 60000 / getDifficultyBpm(difficulty, trackBpm) }
+    : undefined;
+  const { maxPositionErrorPx, maxRhythmErrorMs } = DIFFICULTY_PRESETS[difficulty];
+  return calculateScore(sequence, replayedClicks, maxPositionErrorPx, maxRhythmErrorMs, { matchingMode: matching, rhythmModel, beatGrid, difficulty });
+}
+
+// The outcome of verifying a submission: the error it was rejected with, or the score its replay earns
+export type VerificationResult = { error: string } | { error: null; score: Score };
+
+/**
+ * Checks the fields of a submission, before its replay is scored.
+ * @returns An error message if a field is invalid, otherwise null.
+ */
+const validateSubmission = (submission: ScoreSubmission): string | null => {
+  const {
+    round, seed, clicks, mode = 'classic', matching = 'optimal', rhythmModel = 'absolute', scale = DEFAULT_SCALE, difficulty = DEFAULT_DIFFICULTY,
+    latencyCalibrated, beatGridStart, metronome, countIn, pitchSnap, trackBpm = GAME_BPM, beatsPerBar = BEATS_PER_BAR,
+  } = submission;
+
+  if (!Number.isInteger(round) || round < 1) {
+    return 'Invalid round';
+  }
+
+  if (!Number.isInteger(seed) || seed < 0 || seed >= Math.pow(2, 32)) {
+    return 'Invalid seed';
+  }
+
+  if (!Array.isArray(clicks) || clicks.length > MAX_CLICKS) {
+    return 'Invalid clicks';
+  }
+
+  if (!isValidDifficulty(difficulty)) {
+    return 'Invalid difficulty';
+  }
+
+  const sequenceLength = mode === 'simon' ? getSimonSequenceLength(round, difficulty) : getSequenceLength(round, difficulty);
+  if (sequenceLength > MAX_CLICKS) {
+    return 'Invalid round';
+  }
+
+  if (clicks.length > sequenceLength || !clicks.every(isValidClick)) {
+    return 'Invalid clicks';
+  }
+
+  if (mode !== 'classic' && mode !== 'daily' && mode !== 'simon') {
+    return 'Invalid game mode';
+  }
+
+  if (matching !== 'optimal' && matching !== 'inOrder') {
+    return 'Invalid matching mode';
+  }
+
+  if (rhythmModel !== 'absolute' && rhythmModel !== 'tempoInvariant') {
+    return 'Invalid rhythm model';
+  }
+
+  if (latencyCalibrated !== undefined && typeof latencyCalibrated !== 'boolean') {
+    return 'Invalid latency calibration flag';
+  }
+
+  if (beatGridStart !== undefined && !isFiniteNumber(beatGridStart)) {
+    return 'Invalid beat grid';
+  }
+
+  if (metronome !== undefined && typeof metronome !== 'boolean') {
+    return 'Invalid metronome flag';
+  }
+
+  if (countIn !== undefined && typeof countIn !== 'boolean') {
+    return 'Invalid count-in flag';
+  }
+
+  if (pitchSnap !== undefined && typeof pitchSnap !== 'boolean') {
+    return 'Invalid pitch snap flag';
+  }
+
+  if (!isValidScaleSelection(scale)) {
+    return 'Invalid scale';
+  }
+
+  if (!isFiniteNumber(trackBpm) || trackBpm < MIN_TRACK_BPM || trackBpm > MAX_TRACK_BPM) {
+    return 'Invalid track tempo';
+  }
+
+  if (!Number.isInteger(beatsPerBar) || beatsPerBar < 1 || beatsPerBar > MAX_BEATS_PER_BAR) {
+    return 'Invalid time signature';
+  }
+
+  if (mode === 'daily') {
+    const dailyError = verifyDailyChallenge(submission);
+    if (dailyError) {
+      return dailyError;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Verifies that the claimed scores of a submission match its replay.
+ * @param submission - The submission as received from the client.
+ * @returns The recomputed score, or the error the submission is rejected with.
+ */
+export function verifySubmission(submission: ScoreSubmission): VerificationResult {
+  const error = validateSubmission(submission);
+  if (error) {
+    return { error };
+  }
+
+  const sequence = regenerateSequence(submission);
+  const beatGridError = verifyBeatGrid(submission, sequence);
+  if (beatGridError) {
+    return { error: beatGridError };
+  }
+
+  const score = recomputeScore(submission, sequence);
+  const matches = (['position', 'rhythm', 'pitch', 'total'] as const).every(
+    category => Math.abs(score[category] - submission[category]) <= SCORE_TOLERANCE
+  );
+
+  return matches ? { error: null, score } : { error: 'Scores do not match the submitted replay' };
+}
@@ -0,0 +1,83 @@
+import { createRedisClient, getDailyLeaderboardKey, isAssistedQuery } from '../../_utils/redis';
+import { parseMember } from '../../_utils/leaderboardMember';
+import { getUtcDateKey } from '../../_shared/seededRandom';
+import type { LeaderboardResponse, LeaderboardEntry, ScoreCategory } from '../../types.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/memorhythm/leaderboard/daily?date=YYYY-MM-DD&category=total&assisted=false
+ * 
+ * Fetches a daily challenge leaderboard from Redis.
+ * Every player of a daily challenge plays the same sequences, so runs are directly comparable.
+ * The date defaults to today (UTC) and the category to total.
+ * Runs played with a count-in or beat clicks are ranked on a separate assisted leaderboard.
+ */
+export default async function handler(req: any, res: any) {
+  // Set CORS headers to allow requests from localhost during development
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  try {
+    const date = String(req.query.date || getUtcDateKey());
+    const category = String(req.query.category || 'total') as ScoreCategory;
+    const assisted = isAssistedQuery(req.query.assisted);
+
+    if (!DATE_PATTERN.test(date)) {
+      return res.status(400).json({ error: 'Invalid date' });
+    }
+
+    // Get the Redis key for this day's leaderboard category
+    // Keys look like "memorhythm:leaderboard:daily:2025-01-31:total" and expire after the retention window
+    let key: string;
+    try {
+      key = getDailyLeaderboardKey(date, category, assisted);
+    } catch {
+      return res.status(400).json({ error: 'Invalid category' });
+    }
+
+    // Create a read-only Redis client connection
+    const redis = createRedisClient({ readonly: true });
+    
+    // Parse the limit parameter from query string (default: 10, max: 100)
+    const limit = parseInt(req.query.limit || '10', 10);
+    const maxLimit = Math.min(limit, 100);
+    
+    // Query Redis using ZRANGE command on a sorted set
+    const result = (await redis.zrange(key, 0, maxLimit - 1, {
+      rev: true,        // Reverse order (highest scores first)
+      withScores: true, // Include the numeric scores, not just usernames
+    })) as (string | number)[];
+
+    // Redis returns alternating member/score pairs: [member1, compositeScore1, member2, compositeScore2, ...]
+    const entries: LeaderboardEntry[] = [];
+    for (let i = 0; i < result.length; i += 2) {
+      entries.push(parseMember(result[i] as string, Math.floor(i / 2) + 1));
+    }
+
+    // Format the response according to our API contract
+    const response: LeaderboardResponse = {
+      category,
+      entries,
+      date,
+      assisted,
+    };
+
+    // Return the leaderboard data as JSON
+    res.status(200).json(response);
+    
+  } catch (error) {
+    // Log any errors for debugging (visible in Vercel function logs)
+    console.error('Error in daily leaderboard fetch:', error);
+    
+    // Return a generic error response to the client
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,75 @@
+import { createRedisClient, getLeaderboardKey, isAssistedQuery } from '../../_utils/redis';
+import { parseMember } from '../../_utils/leaderboardMember';
+import { DEFAULT_DIFFICULTY, isValidDifficulty } from '../../_shared/difficulty';
+import type { LeaderboardResponse, LeaderboardEntry } from '../../types.js';
+
+/**
+ * GET /api/memorhythm/leaderboard/pitch?difficulty=normal&assisted=false
+ * 
+ * Fetches the pitch accuracy leaderboard from Redis.
+ * Pitch accuracy measures how close the pitch players ended each note on was to the sequence's notes.
+ * Each difficulty has its own leaderboard; the difficulty defaults to normal.
+ * Runs played with a count-in or beat clicks are ranked on separate assisted leaderboards.
+ */
+export default async function handler(req: any, res: any) {
+  // Set CORS headers to allow requests from localhost during development
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  try {
+    const category = 'pitch';
+    const difficulty = String(req.query.difficulty || DEFAULT_DIFFICULTY);
+
+    if (!isValidDifficulty(difficulty)) {
+      return res.status(400).json({ error: 'Invalid difficulty' });
+    }
+    const assisted = isAssistedQuery(req.query.assisted);
+    
+    // Create a read-only Redis client connection
+    const redis = createRedisClient({ readonly: true });
+    
+    // Get the Redis key for this leaderboard category
+    const key = getLeaderboardKey(category, difficulty, assisted);
+    
+    // Parse the limit parameter from query string (default: 10, max: 100)
+    const limit = parseInt(req.query.limit || '10', 10);
+    const maxLimit = Math.min(limit, 100);
+    
+    // Query Redis using ZRANGE command on a sorted set
+    const result = (await redis.zrange(key, 0, maxLimit - 1, {
+      rev: true,        // Reverse order (highest scores first)
+      withScores: true, // Include the numeric scores, not just usernames
+    })) as (string | number)[];
+
+    // Redis returns alternating member/score pairs: [member1, compositeScore1, member2, compositeScore2, ...]
+    const entries: LeaderboardEntry[] = [];
+    for (let i = 0; i < result.length; i += 2) {
+      entries.push(parseMember(result[i] as string, Math.floor(i / 2) + 1));
+    }
+
+    // Format the response according to our API contract
+    const response: LeaderboardResponse = {
+      category: category as any,
+      entries,
+      difficulty,
+      assisted,
+    };
+
+    // Return the leaderboard data as JSON
+    res.status(200).json(response);
+    
+  } catch (error) {
+    // Log any errors for debugging (visible in Vercel function logs)
+    console.error('Error in pitch leaderboard fetch:', error);
+    
+    // Return a generic error response to the client
+    res.status(500).json({ error: 'Internal Server Error' });
+  }
+}
\ No newline at end of file
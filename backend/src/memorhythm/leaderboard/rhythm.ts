@@ -1,11 +1,15 @@
-import { createRedisClient, getLeaderboardKey } from '../../_utils/redis';
+import { createRedisClient, getLeaderboardKey, isAssistedQuery } from '../../_utils/redis';
+import { parseMember } from '../../_utils/leaderboardMember';
+import { DEFAULT_DIFFICULTY, isValidDifficulty } from '../../_shared/difficulty';
 import type { LeaderboardResponse, LeaderboardEntry } from '../../types.js';
 
 /**
- * GET /api/memorhythm/leaderboard/rhythm
+ * GET /api/memorhythm/leaderboard/rhythm?difficulty=normal&assisted=false
  * 
  * Fetches the rhythm accuracy leaderboard from Redis.
  * Rhythm accuracy measures how precisely players matched the timing of the sequence.
+ * Each difficulty has its own leaderboard; the difficulty defaults to normal.
+ * Runs played with a count-in or beat clicks are ranked on separate assisted leaderboards.
  */
 export default async function handler(req: any, res: any) {
   // Set CORS headers to allow requests from localhost during development
@@ -21,12 +25,18 @@ export default async function handler(req: any, res: any) {
 
   try {
     const category = 'rhythm';
+    const difficulty = String(req.query.difficulty || DEFAULT_DIFFICULTY);
+
+    if (!isValidDifficulty(difficulty)) {
+      return res.status(400).json({ error: 'Invalid difficulty' });
+    }
+    const assisted = isAssistedQuery(req.query.assisted);
     
     // Create a read-only Redis client connection
     const redis = createRedisClient({ readonly: true });
     
     // Get the Redis key for this leaderboard category
-    const key = getLeaderboardKey(category);
+    const key = getLeaderboardKey(category, difficulty, assisted);
     
     // Parse the limit parameter from query string (default: 10, max: 100)
     const limit = parseInt(req.query.limit || '10', 10);
@@ -39,24 +49,17 @@ export default async function handler(req: any, res: any) {
     })) as (string | number)[];
 
     // Redis returns alternating member/score pairs: [member1, compositeScore1, member2, compositeScore2, ...]
-    // Members are in format "username:score:round", we need to parse this
     const entries: LeaderboardEntry[] = [];
     for (let i = 0; i < result.length; i += 2) {
-      const memberData = result[i] as string; // Format: "username:score:round"
-      const [user, scoreStr, roundStr] = memberData.split(':');
-      
-      entries.push({
-        user,
-        score: Number(scoreStr),             // The actual percentage score
-        round: Number(roundStr),             // The round this score was achieved in
-        rank: Math.floor(i / 2) + 1,         // Calculate rank based on position
-      });
+      entries.push(parseMember(result[i] as string, Math.floor(i / 2) + 1));
     }
 
     // Format the response according to our API contract
     const response: LeaderboardResponse = {
       category: category as any,
       entries,
+      difficulty,
+      assisted,
     };
 
     // Return the leaderboard data as JSON
@@ -1,11 +1,15 @@
-import { createRedisClient, getLeaderboardKey } from '../../_utils/redis';
+import { createRedisClient, getLeaderboardKey, isAssistedQuery } from '../../_utils/redis';
+import { parseMember } from '../../_utils/leaderboardMember';
+import { DEFAULT_DIFFICULTY, isValidDifficulty } from '../../_shared/difficulty';
 import type { LeaderboardResponse, LeaderboardEntry } from '../../types.js';
 
 /**
- * GET /api/memorhythm/leaderboard/round
+ * GET /api/memorhythm/leaderboard/round?difficulty=normal&assisted=false
  * 
  * Fetches the highest round reached leaderboard from Redis.
  * Round score represents how far players progressed in the game before failing.
+ * Each difficulty has its own leaderboard; the difficulty defaults to normal.
+ * Runs played with a count-in or beat clicks are ranked on separate assisted leaderboards.
  */
 export default async function handler(req: any, res: any) {
   // Set CORS headers to allow requests from localhost during development
@@ -21,6 +25,12 @@ export default async function handler(req: any, res: any) {
 
   try {
     const category = 'round';
+    const difficulty = String(req.query.difficulty || DEFAULT_DIFFICULTY);
+
+    if (!isValidDifficulty(difficulty)) {
+      return res.status(400).json({ error: 'Invalid difficulty' });
+    }
+    const assisted = isAssistedQuery(req.query.assisted);
     
     // Create a read-only Redis client connection
     // Using readonly=true provides a read-only token for security
@@ -29,7 +39,7 @@ export default async function handler(req: any, res: any) {
     
     // Get the Redis key for this leaderboard category
     // Keys are prefixed with "memorhythm:leaderboard:" for organization
-    const key = getLeaderboardKey(category);
+    const key = getLeaderboardKey(category, difficulty, assisted);
     
     // Parse the limit parameter from query string (default: 10, max: 100)
     // This controls how many leaderboard entries to return
@@ -47,24 +57,17 @@ export default async function handler(req: any, res: any) {
     })) as (string | number)[];
 
     // Redis returns alternating member/score pairs: [member1, roundScore1, member2, roundScore2, ...]
-    // Members are in format "username:round:round", we need to parse this
     const entries: LeaderboardEntry[] = [];
     for (let i = 0; i < result.length; i += 2) {
-      const memberData = result[i] as string; // Format: "username:round:round"
-      const [user, roundStr1, roundStr2] = memberData.split(':');
-      
-      entries.push({
-        user,
-        score: Number(roundStr1),            // The round number (used as score)
-        round: Number(roundStr2),            // Same as score for round category
-        rank: Math.floor(i / 2) + 1,         // Calculate rank based on position
-      });
+      entries.push(parseMember(result[i] as string, Math.floor(i / 2) + 1));
     }
 
     // Format the response according to our API contract
     const response: LeaderboardResponse = {
       category: category as any,
       entries,
+      difficulty,
+      assisted,
     };
 
     // Return the leaderboard data as JSON
@@ -1,4 +1,6 @@
-import { createRedisClient, REDIS_KEYS } from '../_utils/redis';
+import { createRedisClient, getLeaderboardKey, getDailyLeaderboardKey, DAILY_LEADERBOARD_RETENTION_SECONDS } from '../_utils/redis';
+import { verifySubmission } from '../_utils/verification';
+import { encodeMember } from '../_utils/leaderboardMember';
 import type { ScoreSubmission } from '../types.js';
 
 export default async function handler(req: any, res: any) {
@@ -17,52 +19,96 @@ export default async function handler(req: any, res: any) {
     const redis = createRedisClient({ readonly: false });
     
     const submission = req.body as ScoreSubmission;
-    const { user, position, rhythm, total, round } = submission;
+    const { user, position, rhythm, pitch, total, round, mode = 'classic', date, matching = 'optimal', rhythmModel = 'absolute', difficulty = 'normal', latencyCalibrated = false, metronome = false, countIn = false } = submission;
 
     if (!user || typeof user !== 'string' || user.trim().length === 0) {
       return res.status(400).json({ error: 'Invalid user name' });
     }
 
-    if (typeof position !== 'number' || typeof rhythm !== 'number' || 
+    if (typeof position !== 'number' || typeof rhythm !== 'number' || typeof pitch !== 'number' ||
         typeof total !== 'number' || typeof round !== 'number') {
       return res.status(400).json({ error: 'Invalid score values' });
     }
 
+    // Recompute the scores from the round replay so clients can't post arbitrary numbers
+    const verification = verifySubmission(submission);
+    if (verification.error !== null) {
+      return res.status(400).json({ error: verification.error });
+    }
+
+    // Judgements come from the replay rather than the client's claimed counts
+    const { judgements, notes } = verification.score;
+    const fullPerfect = notes.length > 0 && judgements.perfect === notes.length;
+
+    // Every leaderboard entry of this run shares the same details besides its score
+    const memberFor = (score: number) => encodeMember({
+      user, score, round, matching, fullPerfect, rhythmModel, latencyCalibrated, metronome, countIn,
+    });
+
+    // Daily challenge runs are ranked on their own per-day leaderboards,
+    // other runs on the leaderboards of their difficulty.
+    // Runs helped by a count-in or beat clicks only compete with other assisted runs.
+    const isDaily = mode === 'daily' && typeof date === 'string';
+    const assisted = metronome || countIn;
+    const leaderboardKey = (category: string) => isDaily
+      ? getDailyLeaderboardKey(date, category, assisted)
+      : getLeaderboardKey(category, difficulty, assisted);
+
     // Create composite scoring system where higher rounds are more valuable
     // Score formula: (round * 1000) + actual_score
     // This ensures a 50% score on round 10 beats a 99% score on round 5
-    const scoreUpdates = [
+    // Simon runs only compete with each other, on their own leaderboard
+    const scoreUpdates = mode === 'simon' ? [
+      {
+        key: getLeaderboardKey('simon', difficulty, assisted),
+        category: 'simon',
+        score: total,
+        compositeScore: (round * 1000) + total,
+        member: memberFor(total)
+      },
+    ] : [
       { 
-        key: REDIS_KEYS.LEADERBOARD.POSITION, 
+        key: leaderboardKey('position'),
+        category: 'position',
         score: position,
         compositeScore: (round * 1000) + position,
-        member: `${user}:${position}:${round}`
+        member: memberFor(position)
       },
       { 
-        key: REDIS_KEYS.LEADERBOARD.RHYTHM, 
+        key: leaderboardKey('rhythm'),
+        category: 'rhythm',
         score: rhythm,
         compositeScore: (round * 1000) + rhythm,
-        member: `${user}:${rhythm}:${round}`
+        member: memberFor(rhythm)
       },
       { 
-        key: REDIS_KEYS.LEADERBOARD.TOTAL, 
+        key: leaderboardKey('pitch'),
+        category: 'pitch',
+        score: pitch,
+        compositeScore: (round * 1000) + pitch,
+        member: memberFor(pitch)
+      },
+      { 
+        key: leaderboardKey('total'),
+        category: 'total',
         score: total,
         compositeScore: (round * 1000) + total,
-        member: `${user}:${total}:${round}`
+        member: memberFor(total)
       },
       { 
-        key: REDIS_KEYS.LEADERBOARD.ROUND, 
+        key: leaderboardKey('round'),
+        category: 'round',
         score: round,
         compositeScore: round, // Round category keeps simple scoring
-        member: `${user}:${round}:${round}`
+        member: memberFor(round)
       },
     ];
 
     const pipeline = redis.pipeline();
     let updatedCategories: string[] = [];
 
-    for (const { key, score, compositeScore, member } of scoreUpdates) {
-      // For score categories (position, rhythm, total), check if this is a better score
+    for (const { key, category, compositeScore, member } of scoreUpdates) {
+      // For score categories (position, rhythm, pitch, total), check if this is a better score
       // considering both the score percentage and the round achieved
       const currentMember = await redis.zrange(key, 0, -1, { 
         withScores: true, 
@@ -91,7 +137,10 @@ export default async function handler(req: any, res: any) {
       if (shouldUpdate) {
         pipeline.zadd(key, { score: compositeScore, member });
         pipeline.zremrangebyrank(key, 0, -101); // Keep top 100
-        updatedCategories.push(key.split(':')[2]);
+        if (isDaily) {
+          pipeline.expire(key, DAILY_LEADERBOARD_RETENTION_SECONDS);
+        }
+        updatedCategories.push(category);
       }
     }
 
@@ -8,23 +8,58 @@ export enum GameState {
 
 export interface CircleDefinition {
   id: number;
-  x: number;
+  x: number; // Position in play area units, see PLAY_AREA_WIDTH and PLAY_AREA_HEIGHT
   y: number;
   color: string;
   frequency: number;
   time: number; // Time offset from the start of the sequence in ms
+  accent?: boolean; // Played louder, marks a syncopated note
+  duration?: number; // Hold notes only: how long the note is held, in ms
 }
 
 export interface PlayerClick {
-  x: number;
+  x: number; // Position in play area units, like the circles
   y: number;
   time: number; // Timestamp of the click
+  frequency?: number; // Pitch (Hz) the player ended on when releasing
+  releaseTime?: number; // Timestamp of the release, which ends a hold
+}
+
+// The beats a round was played on. Clicks of calibrated runs are timed against them, see calculateScore.
+export interface BeatGrid {
+  start: number; // When the sequence's first note was played, on the clicks' clock, in ms
+  beatMs: number; // Length of a beat at the tempo the sequence was played at
+}
+
+export type Judgement = 'perfect' | 'great' | 'good' | 'miss';
+
+export type JudgementCounts = Record<Judgement, number>;
+
+// Scoring breakdown for a single note of the sequence
+export interface NoteResult {
+  circleId: number; // The note's circle in the sequence
+  clickIndex: number | null; // Click matched to this note by position, null if none
+  distance: number | null; // Distance in play area units between the matched click and the circle
+  timingError: number | null; // ms the click with the note's index was early (<0) or late (>0), null if none
+  pitchError: number | null; // Cents the matched click was flat (<0) or sharp (>0), null if none
+  positionScore: number; // 0-100
+  rhythmScore: number | null; // 0-100, null for the first note when it is the timing reference, i.e. without a beat grid
+  pitchScore: number; // 0-100
+  holdError: number | null; // Hold notes: ms the click with the note's index was released early (<0) or late (>0), null if none
+  durationScore: number | null; // 0-100, null if the note isn't a hold note
+  judgement: Judgement;
 }
 
 export interface Score {
   position: number; // 0-100
   rhythm: number; // 0-100
+  pitch: number; // 0-100
+  duration: number | null; // 0-100, how well hold notes were held, null if the sequence has none
   total: number; // 0-100
+  notes: NoteResult[]; // Per-note breakdown, in sequence order
+  judgements: JudgementCounts; // Number of notes per judgement tier
+  maxCombo: number; // Longest streak of consecutive non-miss notes
+  tempoDrift: number | null; // Percent the player's overall tempo was faster (>0) or slower (<0) than the sequence's, null if it can't be fitted
 }
 
 export interface Animation {
@@ -37,25 +72,76 @@ export interface Animation {
   isInitial: boolean; // Differentiates playback animation from player click animation
 }
 
+export type GameMode = 'classic' | 'daily' | 'simon' | 'practice'; // Practice runs are never submitted
+
+export type ScaleId = 'majorPentatonic' | 'major' | 'naturalMinor' | 'minorPentatonic' | 'blues' | 'dorian' | 'chromatic';
+
+export type NoteName = 'C' | 'C#' | 'D' | 'D#' | 'E' | 'F' | 'F#' | 'G' | 'G#' | 'A' | 'A#' | 'B';
+
+// A scale transposed to a root note; notes are generated in this scale
+export interface ScaleSelection {
+  scale: ScaleId;
+  root: NoteName;
+}
+
+// How clicks are matched to circles when scoring position:
+// 'optimal' = minimum total distance (any order), 'inOrder' = click i is judged against circle i
+export type MatchingMode = 'optimal' | 'inOrder';
+
+// How rhythm is scored: 'absolute' = against the sequence's own tempo,
+// 'tempoInvariant' = against the player's fitted overall tempo, so only the ratios between intervals count
+export type RhythmModel = 'absolute' | 'tempoInvariant';
+
+// Difficulty presets set the scoring tolerances, circle size, tempo and sequence growth.
+// Each difficulty has its own leaderboards.
+export type Difficulty = 'easy' | 'normal' | 'hard' | 'expert';
+
 // Leaderboard types
-export type ScoreCategory = 'position' | 'rhythm' | 'total' | 'round';
+export type ScoreCategory = 'position' | 'rhythm' | 'pitch' | 'total' | 'simon' | 'round';
 
 export interface LeaderboardEntry {
   user: string;
   score: number;
   round: number;
   rank?: number;
+  matching?: MatchingMode;
+  fullPerfect?: boolean; // Every note of the round was judged perfect
+  rhythmModel?: RhythmModel;
+  latencyCalibrated?: boolean; // The player's clicks were corrected by their latency calibration
+  metronome?: boolean; // A metronome clicked the beat during the player's turn
+  countIn?: boolean; // A count-in clicked the beat before the player's turn
 }
 
 export interface LeaderboardResponse {
   category: ScoreCategory;
   entries: LeaderboardEntry[];
+  date?: string; // Set for daily challenge leaderboards
+  difficulty?: Difficulty; // Set for the per-difficulty leaderboards
+  assisted?: boolean; // Set for the leaderboards of runs played with a count-in or beat clicks
 }
 
 export interface ScoreSubmission {
   user: string;
   position: number;
   rhythm: number;
+  pitch: number;
   total: number;
   round: number;
+  // Round replay, used by the backend to recompute and verify the claimed scores
+  seed: number; // Seed the round's sequence was generated from (the whole game's seed in Simon mode)
+  clicks: PlayerClick[];
+  mode?: GameMode; // Defaults to 'classic'
+  date?: string; // UTC date (YYYY-MM-DD) of a daily challenge run
+  matching?: MatchingMode; // Defaults to 'optimal'
+  rhythmModel?: RhythmModel; // Defaults to 'absolute'
+  latencyCalibrated?: boolean; // The clicks were moved back by the player's measured latency. Defaults to false.
+  beatGridStart?: number; // Calibrated runs: when the first note was played, on the clicks' clock. Clicks are timed against its beats.
+  metronome?: boolean; // A metronome clicked the beat during the player's turn. Defaults to false.
+  countIn?: boolean; // A count-in clicked the beat before the player's turn. Defaults to false.
+  pitchSnap?: boolean; // The pitch snapped to the scale's notes, see calculateFrequencyFromY. Defaults to false.
+  judgements?: JudgementCounts;
+  scale?: ScaleSelection; // Defaults to C major pentatonic
+  difficulty?: Difficulty; // Defaults to 'normal'
+  trackBpm?: number; // Tempo of the soundtrack the round was played over. Defaults to the default track's.
+  beatsPerBar?: number; // Beats in a bar of the soundtrack, which the rhythm was phrased in. Defaults to the default track's.
 }
@@ -1,41 +1,31 @@
-// C Major Pentatonic Scale frequencies (Hz)
-export const MUSICAL_SCALE = {
-  C4: 261.63,
-  D4: 293.66,
-  E4: 329.63,
-  G4: 392.00,
-  A4: 440.00,
-  C5: 523.25,
-};
+export * from './backend/src/_shared/constants';
 
-export const PALETTE = [
-  '#f87171', // Red
-  '#fb923c', // Orange
-  '#fbbf24', // Amber
-  '#a3e635', // Lime
-  '#4ade80', // Green
-  '#2dd4bf', // Teal
-  '#22d3ee', // Cyan
-  '#60a5fa', // Blue
-  '#a78bfa', // Violet
-  '#f472b6', // Pink
-];
+export const MAX_PITCH_SHIFT_HZ = 100; // Max pitch shift for inaccurate clicks
+export const ACCENT_GAIN = 1; // Peak gain of accented notes during playback
 
-export const GAME_BPM = 120;
-export const QUARTER_NOTE_MS = 60000 / GAME_BPM;
-export const EIGHTH_NOTE_MS = QUARTER_NOTE_MS / 2;
+// Playback is scheduled ahead on the AudioContext clock: a timer wakes up every
+// SCHEDULER_INTERVAL_MS and schedules the notes starting within SCHEDULE_AHEAD_SECONDS.
+export const SCHEDULE_AHEAD_SECONDS = 0.1;
+export const SCHEDULER_INTERVAL_MS = 25;
 
-// Possible intervals between notes in the sequence. Weighted towards quarter notes for playability.
-export const RHYTHM_INTERVALS = [QUARTER_NOTE_MS, QUARTER_NOTE_MS, EIGHTH_NOTE_MS];
+// Metronome: a count-in of this many bars may lead into the player's turn, and quieter clicks may
+// keep the beat during it
+export const COUNT_IN_BAR_OPTIONS = [0, 1, 2] as const;
+export const BEAT_CLICK_VOLUME = 0.4;
 
-// Scoring parameters
-export const MAX_POSITION_ERROR_PX = 150; // Max distance from center for 0 score
-export const MAX_RHYTHM_ERROR_MS = 300; // Max time diff from expected interval for 0 score
-export const PERFECT_RHYTHM_TOLERANCE_MS = 50; // Window for a "perfect" rhythm hit
-export const MAX_PITCH_SHIFT_HZ = 100; // Max pitch shift for inaccurate clicks
+// With pitch snapping on, the player's tone glides to the next scale note over this long
+export const PITCH_SNAP_GLIDE_SECONDS = 0.06;
+
+// Playback tempos offered in practice mode, as fractions of full tempo
+export const PRACTICE_TEMPOS = [0.5, 0.75, 1] as const;
 
 // Visual parameters
-export const CIRCLE_RADIUS = 30;
 export const ANIMATION_DURATION_MS = 400;
-export const X_PADDING = 100;
-export const Y_PADDING = 100;
+
+// Display labels and colors for the judgement tiers
+export const JUDGEMENT_STYLES = {
+  perfect: { label: 'Perfect', color: '#fde047' },
+  great: { label: 'Great', color: '#4ade80' },
+  good: { label: 'Good', color: '#38bdf8' },
+  miss: { label: 'Miss', color: '#f87171' },
+} as const;
@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+
+// Renders rounds offline in the page and analyses the samples, no audio output needed.
+// Notes start after a lead-in of 0.25s.
+test.describe('Offline Audio Rendering', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/?test=true');
+  });
+
+  test('should render sequence notes at their times and pitches', async ({ page }) => {
+    const analysis = await page.evaluate(async () => {
+      const modulePath = '/services/audioService.ts';
+      const { renderRound } = await import(/* @vite-ignore */ modulePath);
+      const sequence = [
+        { id: 1, x: 0, y: 0, color: '#f87171', frequency: 440, time: 0 },
+        { id: 2, x: 0, y: 0, color: '#fb923c', frequency: 660, time: 1000 },
+      ];
+      const buffer: AudioBuffer = await renderRound(sequence, [], { layers: 'sequence', instrument: 'sine' });
+      const samples = buffer.getChannelData(0);
+      const window = (from: number, to: number) => samples.slice(Math.round(from * buffer.sampleRate), Math.round(to * buffer.sampleRate));
+      const rms = (from: number, to: number) => {
+        const part = window(from, to);
+        return Math.sqrt(part.reduce((sum, sample) => sum + sample * sample, 0) / part.length);
+      };
+      // A sine crosses zero twice per period
+      const frequency = (from: number, to: number) => {
+        const part = window(from, to);
+        let crossings = 0;
+        for (let i = 1; i < part.length; i++) if ((part[i - 1] < 0) !== (part[i] < 0)) crossings++;
+        return crossings / 2 / (to - from);
+      };
+      return {
+        leadIn: rms(0, 0.2),
+        firstNote: rms(0.35, 0.55),
+        gap: rms(1.15, 1.2),
+        secondNote: rms(1.35, 1.55),
+        firstFrequency: frequency(0.35, 0.55),
+        secondFrequency: frequency(1.35, 1.55),
+      };
+    });
+
+    expect(analysis.leadIn).toBeLessThan(0.001);
+    expect(analysis.firstNote).toBeGreaterThan(0.1);
+    expect(analysis.gap).toBeLessThan(0.02);
+    expect(analysis.secondNote).toBeGreaterThan(0.1);
+    expect(Math.abs(analysis.firstFrequency - 440)).toBeLessThan(15);
+    expect(Math.abs(analysis.secondFrequency - 660)).toBeLessThan(15);
+  });
+
+  test('should line the attempt up with the start of the sequence', async ({ page }) => {
+    const analysis = await page.evaluate(async () => {
+      const modulePath = '/services/audioService.ts';
+      const { renderRound } = await import(/* @vite-ignore */ modulePath);
+      const sequence = [{ id: 1, x: 0, y: 0, color: '#f87171', frequency: 440, time: 0 }];
+      // Clicks are recorded on the audio clock, far from zero
+      const clicks = [{ x: 0, y: 0, time: 8000, releaseTime: 8300, frequency: 440 }];
+      const buffer: AudioBuffer = await renderRound(sequence, clicks, { layers: 'attempt', instrument: 'sine' });
+      const samples = buffer.getChannelData(0);
+      const firstSound = samples.findIndex(sample => Math.abs(sample) > 0.01);
+      return { firstSoundSeconds: firstSound / buffer.sampleRate, durationSeconds: buffer.duration };
+    });
+
+    expect(analysis.firstSoundSeconds).toBeGreaterThan(0.24);
+    expect(analysis.firstSoundSeconds).toBeLessThan(0.3);
+    expect(analysis.durationSeconds).toBeLessThan(5);
+  });
+});
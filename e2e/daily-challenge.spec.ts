@@ -0,0 +1,44 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Daily Challenge', () => {
+  test('should show the Daily Challenge button next to Start Game', async ({ page }) => {
+    await page.goto('/');
+    
+    await expect(page.locator('button:has-text("Start Game")')).toBeVisible();
+    await expect(page.locator('button:has-text("Daily Challenge")')).toBeVisible();
+  });
+
+  test('should show the daily date in the HUD', async ({ page }) => {
+    await page.goto('/?test=true&seed=12345');
+    await page.click('button:has-text("Daily Challenge")');
+    
+    const today = new Date().toISOString().slice(0, 10);
+    await expect(page.locator('.absolute.top-5.right-5').locator('text=Daily')).toBeVisible();
+    await expect(page.locator('.absolute.top-5.right-5').locator(`text=${today}`)).toBeVisible();
+  });
+
+  test('should generate the same sequence regardless of the random seed', async ({ page }) => {
+    const sequences: string[][] = [];
+    
+    // Different seeds change Math.random, but the daily sequence only depends on the date
+    for (const seed of [12345, 54321]) {
+      await page.goto(`/?test=true&seed=${seed}`);
+      
+      const circleMessages: string[] = [];
+      page.on('console', msg => {
+        if (msg.type() === 'debug' && msg.text().includes('Circle')) {
+          circleMessages.push(msg.text());
+        }
+      });
+      
+      await page.click('button:has-text("Daily Challenge")');
+      await page.waitForTimeout(2000);
+      
+      sequences.push([...circleMessages]);
+      page.removeAllListeners('console');
+    }
+    
+    expect(sequences[0].length).toBe(3);
+    expect(sequences[1]).toEqual(sequences[0]);
+  });
+});
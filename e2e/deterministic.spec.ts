@@ -184,7 +184,7 @@ test.describe('Deterministic Game Testing', () => {
     
     // Wait for scoring and next round
     await expect(page.locator('text=Position Accuracy')).toBeVisible({ timeout: 5000 });
-    await page.click('button:has-text("Next Round"), button:has-text("Restart from Round 1")');
+    await page.click('button:has-text("Next Round"), button:has-text("Retry Round"), button:has-text("Restart from Round 1")');
     
     // Wait for new sequence
     await page.waitForTimeout(3000);
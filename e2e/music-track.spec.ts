@@ -0,0 +1,26 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Music Track', () => {
+  test('should offer the shipped tracks on the start screen', async ({ page }) => {
+    await page.goto('/');
+
+    const trackSelect = page.locator('select[aria-label="Music track"]');
+    await expect(trackSelect).toBeVisible();
+    await expect(trackSelect).toHaveValue('memorhythm');
+    await expect(trackSelect.locator('option')).toHaveText([
+      'Memorhythm (120 BPM, 4/4, C Major Pentatonic)',
+      'Waltz (90 BPM, 3/4, A Natural Minor)',
+    ]);
+  });
+
+  test('should set the scale to the key of a picked track', async ({ page }) => {
+    await page.goto('/');
+
+    const trackSelect = page.locator('select[aria-label="Music track"]');
+    await trackSelect.selectOption('waltz');
+
+    await expect(trackSelect).toHaveValue('waltz');
+    await expect(page.locator('select[aria-label="Scale root"]')).toHaveValue('A');
+    await expect(page.locator('select[aria-label="Scale"]')).toHaveValue('naturalMinor');
+  });
+});
@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Practice Mode', () => {
+  test('should show the Practice button on the start screen', async ({ page }) => {
+    await page.goto('/');
+    
+    await expect(page.locator('button:has-text("Practice")')).toBeVisible();
+  });
+
+  test('should replay the sequence when asked', async ({ page }) => {
+    await page.goto('/?test=true&seed=12345');
+    await page.click('button:has-text("Practice")');
+    
+    await expect(page.locator('.absolute.top-5.right-5').locator('text=Practice')).toBeVisible();
+    await expect(page.locator('h2:has-text("Your Turn!")')).toBeVisible({ timeout: 10000 });
+    
+    await page.click('button:has-text("Replay")');
+    await expect(page.locator('h2:has-text("Watch Carefully")')).toBeVisible();
+    await expect(page.locator('h2:has-text("Your Turn!")')).toBeVisible({ timeout: 10000 });
+  });
+
+  test('should slow the playback down and show the tempo in the HUD', async ({ page }) => {
+    await page.goto('/?test=true&seed=12345');
+    await page.click('button:has-text("Practice")');
+    await expect(page.locator('h2:has-text("Your Turn!")')).toBeVisible({ timeout: 10000 });
+    
+    // Changing the tempo during the player's turn plays the sequence again at the new tempo
+    await page.click('button:has-text("50%")');
+    await expect(page.locator('text=50% tempo')).toBeVisible();
+    await expect(page.locator('h2:has-text("Watch Carefully")')).toBeVisible();
+  });
+});
@@ -0,0 +1,25 @@
+import { test, expect } from '@playwright/test';
+
+test.describe('Simon Mode', () => {
+  test('should show the Simon Mode button on the start screen', async ({ page }) => {
+    await page.goto('/');
+    
+    await expect(page.locator('button:has-text("Simon Mode")')).toBeVisible();
+  });
+
+  test('should show Simon in the HUD and start with three circles', async ({ page }) => {
+    const circleMessages: string[] = [];
+    page.on('console', msg => {
+      if (msg.type() === 'debug' && msg.text().includes('Circle')) {
+        circleMessages.push(msg.text());
+      }
+    });
+
+    await page.goto('/?test=true&seed=12345');
+    await page.click('button:has-text("Simon Mode")');
+    
+    await expect(page.locator('.absolute.top-5.right-5').locator('text=Simon')).toBeVisible();
+    await expect(page.locator('h2:has-text("Your Turn!")')).toBeVisible({ timeout: 10000 });
+    expect(circleMessages.length).toBe(3);
+  });
+});
@@ -1,20 +1,78 @@
+import type { CircleDefinition, PlayerClick, ScaleSelection } from '../types';
+import { DEFAULT_SCALE, getArpeggioFrequencies } from './scales';
+import { calculateFrequencyFromY } from './gameLogic';
+import { DEFAULT_INSTRUMENT, createVoice, getCircleInstrument, type InstrumentChoice, type InstrumentId, type Voice } from './instruments';
+import { ACCENT_GAIN, ANIMATION_DURATION_MS, SCHEDULE_AHEAD_SECONDS } from '../constants';
 
 let audioContext: AudioContext | null = null;
-let activePlayerOscillator: { oscillator: OscillatorNode, gainNode: GainNode, baseFrequency: number } | null = null;
+
+// The mixer: every sound plays through one of the buses, and the buses through a limiter that
+// keeps overlapping chords and effects from clipping.
+export type MixerBus = 'music' | 'effects' | 'metronome' | 'sequence' | 'player';
+export const MIXER_BUSES: readonly MixerBus[] = ['music', 'effects', 'metronome', 'sequence', 'player'];
+// Volume and mute of each bus, as set on the mixer
+export type MixerSettings = Record<MixerBus, { volume: number; muted: boolean }>;
+const busGains = new Map<MixerBus, GainNode>();
+const busVolumes: Record<MixerBus, number> = { music: 1, effects: 1, metronome: 1, sequence: 1, player: 1 }; // Kept until the buses exist
+let masterGain: GainNode | null = null;
+let isMasterMuted = false;
+
+// Player voices, keyed by voice id: one per pointer held down
+const MAX_PLAYER_VOICES = 4;
+const PLAYER_VOICE_GAIN = 0.7; // Peak gain of a voice playing on its own
+const playerVoices = new Map<number, { voice: Voice, baseFrequency: number }>();
 
 // State for background music
 let backgroundMusicBuffer: AudioBuffer | null = null;
 let backgroundMusicSource: AudioBufferSourceNode | null = null;
-let backgroundMusicGainNode: GainNode | null = null;
 let backgroundMusicStartTime: number = 0; // In AudioContext time
+let backgroundMusicBars: number = 1; // Bars in one loop of the track
 
-// State for loop synchronization
-let nextLoopPromise: Promise<void> | null = null;
-let resolveNextLoop: (() => void) | null = null;
+// State for bar synchronization, the next loop is the next bar of the track
+let nextLoopPromise: Promise<number> | null = null;
+let resolveNextLoop: ((loopTime: number) => void) | null = null;
 let nextLoopAudioContextTime: number = 0;
 let loopTimeoutId: number | null = null;
 
 
+// A hard, fast compressor just under full scale acts as the limiter
+const createLimiter = (context: BaseAudioContext) => {
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = -3;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.25;
+  limiter.connect(context.destination);
+  return limiter;
+};
+
+const createMixer = (context: AudioContext) => {
+  const limiter = createLimiter(context);
+
+  masterGain = context.createGain();
+  masterGain.gain.value = isMasterMuted ? 0 : 1;
+  masterGain.connect(limiter);
+
+  MIXER_BUSES.forEach(bus => {
+    const gainNode = context.createGain();
+    gainNode.gain.value = busVolumes[bus];
+    gainNode.connect(masterGain!);
+    busGains.set(bus, gainNode);
+  });
+};
+
+// Where the sounds of a bus are played to
+const getBus = (bus: MixerBus): AudioNode => busGains.get(bus) ?? audioContext!.destination;
+
+// Use a ramp to avoid clicking sounds when muting/unmuting
+const rampGain = (gainNode: GainNode, value: number) => {
+  const now = audioContext!.currentTime;
+  gainNode.gain.cancelScheduledValues(now);
+  gainNode.gain.setValueAtTime(gainNode.gain.value, now);
+  gainNode.gain.linearRampToValueAtTime(value, now + 0.1);
+};
+
 /**
  * Initializes the AudioContext.
  * Must be called after a user interaction.
@@ -26,6 +84,7 @@ export const initAudio = (): boolean => {
   }
   try {
     audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    createMixer(audioContext);
     return true;
   } catch (e) {
     console.error("Web Audio API is not supported in this browser", e);
@@ -34,12 +93,40 @@ export const initAudio = (): boolean => {
 };
 
 /**
- * Returns a promise that resolves on the next loop of the background music.
+ * Returns the current time on the AudioContext clock in seconds, the clock tones are
+ * scheduled on. Falls back to the page's clock when audio isn't available.
+ */
+export const getAudioTime = (): number =>
+  audioContext ? audioContext.currentTime : performance.now() / 1000;
+
+/**
+ * Converts a timestamp on the page's clock, like `performance.now()` or an event's
+ * `timeStamp`, into the AudioContext clock. The two clocks drift apart, and the audio clock
+ * runs ahead of what is heard by the output latency, which the conversion takes into account.
+ * @param performanceTime - The timestamp in ms.
+ * @returns The time on the AudioContext clock in seconds.
+ */
+export const toAudioTime = (performanceTime: number): number => {
+  if (!audioContext) return performanceTime / 1000;
+  const outputTimestamp = audioContext.getOutputTimestamp?.();
+  if (!outputTimestamp?.contextTime || !outputTimestamp.performanceTime) {
+    // No output timestamp yet: go by how long ago the timestamp was taken, and by the output latency
+    // ourselves, which the output timestamp already accounts for.
+    const outputLatency = audioContext.outputLatency ?? audioContext.baseLatency ?? 0;
+    return audioContext.currentTime - outputLatency - (performance.now() - performanceTime) / 1000;
+  }
+  return outputTimestamp.contextTime + (performanceTime - outputTimestamp.performanceTime) / 1000;
+};
+
+/**
+ * Returns a promise that resolves shortly before the next bar of the background music
+ * starts, with the AudioContext time of the bar's start. Scheduling tones from that time
+ * lands them exactly on the track's bar line.
  */
-export const onNextLoop = (): Promise<void> => {
+export const onNextLoop = (): Promise<number> => {
   if (!audioContext || !backgroundMusicSource || !backgroundMusicSource.loop) {
     // If audio isn't ready or music isn't looping, resolve after a short delay.
-    return new Promise(resolve => setTimeout(resolve, 1000));
+    return new Promise(resolve => setTimeout(() => resolve(getAudioTime() + SCHEDULE_AHEAD_SECONDS), 1000));
   }
   if (!nextLoopPromise) {
     nextLoopPromise = new Promise(resolve => {
@@ -57,57 +144,59 @@ const scheduleLoopCallback = () => {
     return;
   }
   
-  const loopDuration = backgroundMusicBuffer.duration;
-  if (loopDuration <= 0) return;
+  // Bars are measured off the decoded loop rather than the track's tempo, so they stay in step with it
+  const barDuration = backgroundMusicBuffer.duration / backgroundMusicBars;
+  if (barDuration <= 0) return;
 
   const currentTime = audioContext.currentTime;
   
-  // If this is the first time, or if we've drifted, calculate the next loop time.
+  // If this is the first time, or if we've drifted, calculate the next bar time.
   if (nextLoopAudioContextTime <= currentTime) {
     const timeSinceStart = Math.max(0, currentTime - backgroundMusicStartTime);
-    const loopsPassed = Math.floor(timeSinceStart / loopDuration);
-    nextLoopAudioContextTime = backgroundMusicStartTime + (loopsPassed + 1) * loopDuration;
+    const barsPassed = Math.floor(timeSinceStart / barDuration);
+    nextLoopAudioContextTime = backgroundMusicStartTime + (barsPassed + 1) * barDuration;
   }
   
-  const delayInSeconds = nextLoopAudioContextTime - currentTime;
+  // Wake up a little early, so tones can be scheduled on the bar's start before it passes
+  const delayInSeconds = nextLoopAudioContextTime - currentTime - SCHEDULE_AHEAD_SECONDS;
   
   loopTimeoutId = window.setTimeout(() => {
-    // Resolve the promise for the loop that just occurred.
+    // Resolve the promise for the bar that is about to start.
     if (resolveNextLoop) {
-      resolveNextLoop();
+      resolveNextLoop(nextLoopAudioContextTime);
     }
     
-    // Create a new promise for the *next* loop.
+    // Create a new promise for the bar after it.
     nextLoopPromise = new Promise(resolve => {
       resolveNextLoop = resolve;
     });
     
-    // Set the time for the subsequent loop and schedule it.
-    nextLoopAudioContextTime += loopDuration;
+    // Set the time for the subsequent bar and schedule it.
+    nextLoopAudioContextTime += barDuration;
     scheduleLoopCallback();
-  }, delayInSeconds * 1000);
+  }, Math.max(0, delayInSeconds * 1000));
 };
 
 
 /**
- * Decodes a base64 audio string into an AudioBuffer.
- * @param base64String The base64-encoded audio data.
+ * Fetches a background music track and decodes it into an AudioBuffer.
+ * @param url The URL of the track's audio file.
+ * @param bars The number of bars in one loop of the track, the bar lines sequences start on.
  * @returns `true` if successful, `false` otherwise.
  */
-export const loadBackgroundMusic = async (base64String: string): Promise<boolean> => {
-    if (!audioContext || !base64String) {
+export const loadBackgroundMusic = async (url: string, bars: number = 1): Promise<boolean> => {
+    if (!audioContext || !url) {
         return false;
     }
     try {
-        const byteCharacters = atob(base64String);
-        const byteNumbers = new Array(byteCharacters.length);
-        for (let i = 0; i < byteCharacters.length; i++) {
-            byteNumbers[i] = byteCharacters.charCodeAt(i);
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch ${url}: ${response.statusText}`);
         }
-        const byteArray = new Uint8Array(byteNumbers);
-        const arrayBuffer = byteArray.buffer;
+        const arrayBuffer = await response.arrayBuffer();
 
         backgroundMusicBuffer = await audioContext.decodeAudioData(arrayBuffer);
+        backgroundMusicBars = bars;
         return true;
     } catch (e) {
         console.error("Failed to decode or load background music", e);
@@ -137,29 +226,41 @@ export const startBackgroundMusic = () => {
 
     const gainNode = audioContext.createGain();
     gainNode.gain.value = 0.3; // Lower volume for background track
-    backgroundMusicGainNode = gainNode;
     
     source.connect(gainNode);
-    gainNode.connect(audioContext.destination);
+    gainNode.connect(getBus('music'));
 
     source.start(0);
     backgroundMusicStartTime = audioContext.currentTime;
     backgroundMusicSource = source;
     
-    // Initialize for loop scheduling
+    // Initialize for bar scheduling
     nextLoopAudioContextTime = backgroundMusicStartTime;
     onNextLoop(); // Create the initial promise
     scheduleLoopCallback();
 };
 
 /**
- * Sets the volume of the background music.
+ * Sets the volume of a mixer bus. Can be called before audio is initialized.
+ * @param bus The bus: background music, sound effects, metronome clicks, sequence notes or the player's notes.
  * @param volume A number between 0 (muted) and 1 (full volume).
  */
-export const setBackgroundMusicVolume = (volume: number) => {
-  if (audioContext && backgroundMusicGainNode) {
-    // Use a ramp to avoid clicking sounds when muting/unmuting
-    backgroundMusicGainNode.gain.linearRampToValueAtTime(volume, audioContext.currentTime + 0.1);
+export const setBusVolume = (bus: MixerBus, volume: number) => {
+  busVolumes[bus] = volume;
+  const gainNode = busGains.get(bus);
+  if (audioContext && gainNode) {
+    rampGain(gainNode, volume);
+  }
+};
+
+/**
+ * Mutes or unmutes all sound, whatever the volumes of the buses.
+ * @param muted Whether to mute.
+ */
+export const setMasterMuted = (muted: boolean) => {
+  isMasterMuted = muted;
+  if (audioContext && masterGain) {
+    rampGain(masterGain, muted ? 0 : 1);
   }
 };
 
@@ -167,8 +268,9 @@ export const setBackgroundMusicVolume = (volume: number) => {
 /**
  * Plays a generated sound effect.
  * @param name - The name of the sound to play.
+ * @param scale - The scale the level-complete arpeggio is played in.
  */
-export const playSoundEffect = (name: 'level-complete' | 'level-failed') => {
+export const playSoundEffect = (name: 'level-complete' | 'level-failed', scale: ScaleSelection = DEFAULT_SCALE) => {
     if (!audioContext) {
         console.warn("AudioContext not initialized. Cannot play sound effect.");
         return;
@@ -177,13 +279,13 @@ export const playSoundEffect = (name: 'level-complete' | 'level-failed') => {
     const now = audioContext.currentTime;
 
     if (name === 'level-complete') {
-        // Ascending C-major arpeggio
-        const freqs = [261.63, 329.63, 392.00, 523.25];
+        // Ascending arpeggio in the current scale
+        const freqs = getArpeggioFrequencies(scale);
         freqs.forEach((freq, index) => {
             const osc = audioContext!.createOscillator();
             const gain = audioContext!.createGain();
             osc.connect(gain);
-            gain.connect(audioContext!.destination);
+            gain.connect(getBus('effects'));
 
             const startTime = now + index * 0.08;
             const duration = 0.15;
@@ -204,7 +306,7 @@ export const playSoundEffect = (name: 'level-complete' | 'level-failed') => {
             const osc = audioContext!.createOscillator();
             const gain = audioContext!.createGain();
             osc.connect(gain);
-            gain.connect(audioContext!.destination);
+            gain.connect(getBus('effects'));
             
             const duration = 0.4;
 
@@ -221,111 +323,214 @@ export const playSoundEffect = (name: 'level-complete' | 'level-failed') => {
 };
 
 /**
- * Plays a tone with a given frequency and duration, with optional modifications for feedback.
- * Used for sequence playback animations.
+ * Plays a metronome click: a short, bright blip that cuts through the music.
+ * @param startTime - When the click sounds on the AudioContext clock, see getAudioTime.
+ * @param accent - Whether the click marks the start of a bar, which is higher and louder.
+ * @param volume - Scales the click's loudness, for a quieter metronome under the player's notes.
+ */
+export const playMetronomeClick = (startTime: number, accent: boolean = false, volume: number = 1) => {
+  if (!audioContext) {
+    console.warn("AudioContext not initialized. Cannot play metronome click.");
+    return;
+  }
+
+  const start = Math.max(startTime, audioContext.currentTime);
+  const duration = 0.05;
+  const oscillator = audioContext.createOscillator();
+  const gainNode = audioContext.createGain();
+
+  oscillator.connect(gainNode);
+  gainNode.connect(getBus('metronome'));
+
+  oscillator.type = 'square';
+  oscillator.frequency.setValueAtTime(accent ? 1760 : 1320, start);
+  gainNode.gain.setValueAtTime((accent ? 0.35 : 0.25) * volume, start);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, start + duration);
+
+  oscillator.start(start);
+  oscillator.stop(start + duration);
+};
+
+// Plays a note that is let go after its duration, on a live or an offline context
+const scheduleNote = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  instrument: InstrumentId,
+  frequency: number,
+  startTime: number,
+  durationSeconds: number,
+  peakGain: number,
+) => {
+  createVoice(context, destination, instrument, frequency, startTime, peakGain).release(startTime + durationSeconds);
+};
+
+/**
+ * Plays a note of a given frequency and duration on an instrument, with optional modifications for feedback.
+ * Used for sequence playback animations. The note is held for its duration, then fades out over
+ * the instrument's release.
  * @param frequency - The base frequency of the tone in Hz.
  * @param durationSeconds - The duration of the tone in seconds.
  * @param pitchShiftHz - The amount to shift the pitch by in Hz, indicating error.
- * @param waveType - The oscillator waveform to use.
+ * @param instrument - The instrument to play the note on.
+ * @param peakGain - The loudest point of the tone's envelope; accented notes use a higher value.
+ * @param startTime - When the tone starts on the AudioContext clock, see getAudioTime. Defaults to now.
  */
 export const playTone = (
   frequency: number,
   durationSeconds: number,
   pitchShiftHz: number = 0,
-  waveType: OscillatorType = 'sine'
+  instrument: InstrumentId = DEFAULT_INSTRUMENT,
+  peakGain: number = 0.7,
+  startTime?: number
 ) => {
   if (!audioContext) {
     console.warn("AudioContext not initialized. Cannot play tone.");
     return;
   }
+  const start = Math.max(startTime ?? 0, audioContext.currentTime);
 
-  const oscillator = audioContext.createOscillator();
-  const gainNode = audioContext.createGain();
-
-  oscillator.connect(gainNode);
-  gainNode.connect(audioContext.destination);
-
-  oscillator.type = waveType;
-  const finalFrequency = frequency + pitchShiftHz;
-  oscillator.frequency.setValueAtTime(finalFrequency, audioContext.currentTime);
-
-  // Fade in and out to prevent clicking sounds
-  gainNode.gain.setValueAtTime(0, audioContext.currentTime);
-  gainNode.gain.linearRampToValueAtTime(0.7, audioContext.currentTime + 0.02);
-  gainNode.gain.linearRampToValueAtTime(0, audioContext.currentTime + durationSeconds);
+  scheduleNote(audioContext, getBus('sequence'), instrument, frequency + pitchShiftHz, start, durationSeconds, peakGain);
+};
 
-  oscillator.start(audioContext.currentTime);
-  oscillator.stop(audioContext.currentTime + durationSeconds);
+// Keeps the player's voices together about as loud as a single voice
+const balancePlayerVoices = () => {
+  if (!audioContext) return;
+  const now = audioContext.currentTime;
+  const peakGain = PLAYER_VOICE_GAIN / Math.sqrt(Math.max(1, playerVoices.size));
+  playerVoices.forEach(({ voice: { output } }) => {
+    output.gain.cancelScheduledValues(now);
+    output.gain.setValueAtTime(output.gain.value, now);
+    output.gain.linearRampToValueAtTime(peakGain, now + 0.02);
+  });
 };
 
 /**
- * Starts a continuous tone for player interaction. Replaces any existing tone.
+ * Starts a continuous tone for player interaction. Each pointer held down gets a voice of
+ * its own, so chords can be played with several fingers; a new tone replaces the voice's
+ * previous one, and past MAX_PLAYER_VOICES the oldest voice is cut off.
  * @param frequency The absolute frequency of the tone in Hz.
+ * @param voiceId The voice to play on, e.g. the id of the pointer. Defaults to 0.
+ * @param instrument The instrument to play on, the one the note was played back with so it can be matched by ear.
  */
-export const startPlayerTone = (frequency: number) => {
+export const startPlayerTone = (frequency: number, voiceId: number = 0, instrument: InstrumentId = DEFAULT_INSTRUMENT) => {
   if (!audioContext) {
     console.warn("AudioContext not initialized. Cannot play tone.");
     return;
   }
 
-  if (activePlayerOscillator) {
-    stopPlayerTone(false); // Stop immediately without reverb
+  if (playerVoices.has(voiceId)) {
+    stopPlayerTone(false, voiceId); // Stop immediately without reverb
+  }
+  if (playerVoices.size >= MAX_PLAYER_VOICES) {
+    stopPlayerTone(false, playerVoices.keys().next().value!);
   }
 
-  const oscillator = audioContext.createOscillator();
-  const gainNode = audioContext.createGain();
-
-  oscillator.connect(gainNode);
-  gainNode.connect(audioContext.destination);
-
-  oscillator.type = 'sine';
-  oscillator.frequency.setValueAtTime(frequency, audioContext.currentTime);
-
-  // Attack: quick fade-in to avoid clicking
-  gainNode.gain.setValueAtTime(0, audioContext.currentTime);
-  gainNode.gain.linearRampToValueAtTime(0.7, audioContext.currentTime + 0.02);
-
-  oscillator.start(audioContext.currentTime);
+  // The instrument's envelope shapes the note, the voice's level only balances it against the others
+  const voice = createVoice(audioContext, getBus('player'), instrument, frequency, audioContext.currentTime, 1);
+  voice.output.gain.value = PLAYER_VOICE_GAIN / Math.sqrt(playerVoices.size + 1);
 
-  activePlayerOscillator = { oscillator, gainNode, baseFrequency: frequency };
+  playerVoices.set(voiceId, { voice, baseFrequency: frequency });
+  balancePlayerVoices();
 };
 
 /**
- * Updates the pitch of the currently playing player tone to a new absolute frequency.
+ * Updates the pitch of a playing player tone to a new absolute frequency.
  * @param frequency The new absolute frequency to ramp to.
+ * @param voiceId The voice whose tone to update. Defaults to 0.
+ * @param glideSeconds How long the ramp to the new frequency takes. Defaults to a short ramp
+ * that only avoids audio 'clicks' from a sudden frequency change; longer ones glide between notes.
  */
-export const updatePlayerTonePitch = (frequency: number) => {
-  if (!audioContext || !activePlayerOscillator) {
+export const updatePlayerTonePitch = (frequency: number, voiceId: number = 0, glideSeconds: number = 0.01) => {
+  const playerVoice = playerVoices.get(voiceId);
+  // A snapped pitch stays on its note while dragging, a glide already underway shouldn't be restarted
+  if (!audioContext || !playerVoice || frequency === playerVoice.baseFrequency) {
     return;
   }
 
-  const { oscillator } = activePlayerOscillator;
-
-  // Use a short ramp to avoid audio 'clicks' from a sudden frequency change
-  oscillator.frequency.linearRampToValueAtTime(frequency, audioContext.currentTime + 0.01);
-  activePlayerOscillator.baseFrequency = frequency;
+  playerVoice.voice.setFrequency(frequency, audioContext.currentTime + glideSeconds);
+  playerVoice.baseFrequency = frequency;
 };
 
 
 /**
- * Stops the continuous tone started by startPlayerTone.
+ * Stops a continuous tone started by startPlayerTone.
  * @param withReverbTail - If true, adds a fade-out effect. Defaults to true.
+ * @param voiceId - The voice to stop. Defaults to 0.
  */
-export const stopPlayerTone = (withReverbTail: boolean = true) => {
-  if (!audioContext || !activePlayerOscillator) {
+export const stopPlayerTone = (withReverbTail: boolean = true, voiceId: number = 0) => {
+  const playerVoice = playerVoices.get(voiceId);
+  if (!audioContext || !playerVoice) {
     return;
   }
 
-  const { oscillator, gainNode } = activePlayerOscillator;
-  const now = audioContext.currentTime;
-  const releaseTime = withReverbTail ? 0.4 : 0.05; // 400ms for reverb, 50ms for quick stop
+  // The instrument's own release for reverb, 50ms for quick stop
+  playerVoice.voice.release(audioContext.currentTime, withReverbTail ? undefined : 0.05);
 
-  // Release/Decay phase
-  gainNode.gain.cancelScheduledValues(now);
-  gainNode.gain.setValueAtTime(gainNode.gain.value, now); // Start fade from current gain
-  gainNode.gain.linearRampToValueAtTime(0, now + releaseTime);
+  playerVoices.delete(voiceId);
+  balancePlayerVoices();
+};
+
+// Offline rendering of a round, for export and for checking what playback sounds like
+export type RenderLayers = 'sequence' | 'attempt' | 'both';
+
+export interface RenderOptions {
+  layers: RenderLayers; // The generated sequence, the player's attempt, or both together
+  instrument?: InstrumentChoice; // Defaults to DEFAULT_INSTRUMENT
+  tempo?: number; // Playback tempo of the sequence as a fraction of full tempo. Defaults to 1.
+  scale?: ScaleSelection; // The round's scale, for clicks without a recorded pitch. Defaults to C major pentatonic.
+  pitchSnap?: boolean; // Whether those clicks' pitch snapped to the scale's notes. Defaults to false.
+  sampleRate?: number; // Defaults to 44100
+}
+
+const RENDER_LEAD_IN_SECONDS = 0.25; // Silence before the first note
+const RENDER_TAIL_SECONDS = 2; // Room for the last note to ring out
+
+/**
+ * Renders what a round sounded like into an audio buffer, without playing anything, the notes
+ * synthesized the way playback and the player's tone play them. The attempt starts with the
+ * sequence, so layered they show how the timing of the two compares; the clicks are rendered as
+ * played, with their pitch where they were released.
+ * @param sequence - The round's sequence.
+ * @param clicks - The player's clicks, as recorded.
+ * @param options - What to render, see RenderOptions.
+ * @returns The rendered audio.
+ */
+export const renderRound = async (
+  sequence: CircleDefinition[],
+  clicks: PlayerClick[],
+  { layers, instrument = DEFAULT_INSTRUMENT, tempo = 1, scale = DEFAULT_SCALE, pitchSnap = false, sampleRate = 44100 }: RenderOptions,
+): Promise<AudioBuffer> => {
+  const notes: { frequency: number; start: number; duration: number; peakGain: number; instrument: InstrumentId }[] = [];
+
+  if (layers !== 'attempt') {
+    sequence.forEach(circle => notes.push({
+      frequency: circle.frequency,
+      start: circle.time / tempo / 1000,
+      // Hold notes sound for as long as they have to be held
+      duration: (circle.duration ? circle.duration / tempo : ANIMATION_DURATION_MS) / 1000,
+      peakGain: circle.accent ? ACCENT_GAIN : 0.7,
+      instrument: getCircleInstrument(circle, instrument),
+    }));
+  }
+  if (layers !== 'sequence' && clicks.length > 0) {
+    const firstClickTime = Math.min(...clicks.map(click => click.time));
+    clicks.forEach((click, index) => notes.push({
+      frequency: click.frequency ?? calculateFrequencyFromY(click.y, scale, pitchSnap),
+      start: (click.time - firstClickTime) / 1000,
+      duration: ((click.releaseTime ?? click.time + ANIMATION_DURATION_MS) - click.time) / 1000,
+      peakGain: PLAYER_VOICE_GAIN,
+      // The instrument the player heard, see startPlayerTone
+      instrument: sequence[index] ? getCircleInstrument(sequence[index], instrument) : DEFAULT_INSTRUMENT,
+    }));
+  }
 
-  oscillator.stop(now + releaseTime);
+  const endSeconds = notes.reduce((end, note) => Math.max(end, note.start + note.duration), 0);
+  const length = Math.ceil((RENDER_LEAD_IN_SECONDS + endSeconds + RENDER_TAIL_SECONDS) * sampleRate);
+  const context = new OfflineAudioContext(1, length, sampleRate);
+  const limiter = createLimiter(context);
+  notes.forEach(note => scheduleNote(
+    context, limiter, note.instrument, note.frequency, RENDER_LEAD_IN_SECONDS + note.start, note.duration, note.peakGain
+  ));
 
-  activePlayerOscillator = null;
+  return context.startRendering();
 };
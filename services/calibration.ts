@@ -0,0 +1,44 @@
+import type { PlayerClick } from '../types';
+
+// The calibration metronome: the first beats are only listened to, the taps on the rest are measured.
+export const CALIBRATION_BPM = 100;
+export const CALIBRATION_LEAD_IN_BEATS = 4;
+export const CALIBRATION_TAP_BEATS = 12;
+
+const MIN_CALIBRATION_TAPS = 6; // Taps on the beat needed for a measurement
+export const MAX_LATENCY_OFFSET_MS = 400; // Anything later is a missed beat rather than latency
+
+/**
+ * Measures how late the player's taps land after the beats they heard: the latency of their
+ * headphones, screen and input together. Each tap is paired with the closest beat, taps that
+ * are too far from any beat are dropped, and the median offset of the rest is the latency.
+ * @param beatTimes - When each beat was played, in ms on the AudioContext clock.
+ * @param tapTimes - When each tap landed, in ms on the same clock.
+ * @returns The latency in ms, late (>0) or early (<0), or null without enough taps on the beat.
+ */
+export const measureLatencyOffset = (beatTimes: number[], tapTimes: number[]): number | null => {
+  if (beatTimes.length === 0) return null;
+
+  const offsets = tapTimes
+    .map(tapTime => beatTimes.reduce((closest, beatTime) =>
+      Math.abs(tapTime - beatTime) < Math.abs(closest) ? tapTime - beatTime : closest, Infinity))
+    .filter(offset => Math.abs(offset) <= MAX_LATENCY_OFFSET_MS)
+    .sort((a, b) => a - b);
+  if (offsets.length < MIN_CALIBRATION_TAPS) return null;
+
+  const middle = Math.floor(offsets.length / 2);
+  const median = offsets.length % 2 === 1 ? offsets[middle] : (offsets[middle - 1] + offsets[middle]) / 2;
+  return Math.round(median);
+};
+
+/**
+ * Moves clicks back by the player's measured latency, to when they meant to play them.
+ * @param clicks - The recorded clicks.
+ * @param latencyOffsetMs - The latency from calibration, in ms.
+ */
+export const applyLatencyOffset = (clicks: PlayerClick[], latencyOffsetMs: number): PlayerClick[] =>
+  latencyOffsetMs === 0 ? clicks : clicks.map(click => {
+    const calibrated: PlayerClick = { ...click, time: click.time - latencyOffsetMs };
+    if (click.releaseTime !== undefined) calibrated.releaseTime = click.releaseTime - latencyOffsetMs;
+    return calibrated;
+  });
@@ -0,0 +1,225 @@
+import type { CircleDefinition } from '../types';
+import { PALETTE } from '../constants';
+import { SeededRandom } from './seededRandom';
+
+export type InstrumentId = 'sine' | 'synth' | 'bell' | 'pluck' | 'marimba';
+// The instrument choice of a game: one instrument for every note, or one per circle colour
+export type InstrumentChoice = InstrumentId | 'byColor';
+
+interface Envelope {
+  attack: number; // Seconds to reach the peak
+  decay: number; // Seconds to settle towards the sustain level
+  sustain: number; // Level held while the note is held, as a fraction of the peak
+  release: number; // Seconds to fade out once the note is let go
+}
+
+interface OscillatorLayer {
+  type: OscillatorType;
+  ratio?: number; // Frequency as a multiple of the note's. Defaults to 1.
+  detune?: number; // In cents, detuned layers thicken the sound
+  gain?: number; // Defaults to 1
+  decay?: number; // Seconds for the layer to die away, for partials that fade faster than the note
+}
+
+interface InstrumentDefinition {
+  name: string;
+  envelope: Envelope;
+  layers?: OscillatorLayer[]; // Oscillators sounding together
+  filter?: { type: BiquadFilterType; ratio: number; q: number }; // Cutoff as a multiple of the note's frequency
+  fm?: { ratio: number; index: number; decay: number }; // A modulator on the layers' frequency, its depth dying away
+  pluck?: { damping: number }; // A Karplus-Strong string instead of oscillators, damping the loop each period
+}
+
+export const DEFAULT_INSTRUMENT: InstrumentId = 'sine';
+
+// Instrument registry, from the plain original tone to the modelled ones.
+export const INSTRUMENTS: Record<InstrumentId, InstrumentDefinition> = {
+  sine: {
+    name: 'Sine',
+    envelope: { attack: 0.02, decay: 0.1, sustain: 0.8, release: 0.4 },
+    layers: [{ type: 'sine' }],
+  },
+  synth: {
+    name: 'Synth',
+    envelope: { attack: 0.03, decay: 0.2, sustain: 0.6, release: 0.3 },
+    layers: [{ type: 'sawtooth', detune: -8, gain: 0.4 }, { type: 'sawtooth', detune: 8, gain: 0.4 }, { type: 'square', ratio: 0.5, gain: 0.2 }],
+    filter: { type: 'lowpass', ratio: 4, q: 3 },
+  },
+  bell: {
+    name: 'Bell',
+    envelope: { attack: 0.005, decay: 1.6, sustain: 0, release: 0.8 },
+    layers: [{ type: 'sine' }],
+    fm: { ratio: 3.5, index: 3, decay: 0.6 },
+  },
+  pluck: {
+    name: 'Plucked String',
+    envelope: { attack: 0.002, decay: 1.5, sustain: 0.4, release: 0.3 },
+    pluck: { damping: 0.996 },
+  },
+  marimba: {
+    name: 'Marimba',
+    envelope: { attack: 0.003, decay: 0.6, sustain: 0, release: 0.2 },
+    // A marimba bar's overtones sit about two octaves and a third above the fundamental, and ring briefly
+    layers: [{ type: 'sine' }, { type: 'sine', ratio: 4, gain: 0.3, decay: 0.12 }, { type: 'sine', ratio: 10, gain: 0.1, decay: 0.04 }],
+  },
+};
+
+export const INSTRUMENT_IDS = Object.keys(INSTRUMENTS) as InstrumentId[];
+
+// Instruments of the circle colours when each colour has its own voice, in palette order
+const COLOR_INSTRUMENTS: InstrumentId[] = ['marimba', 'pluck', 'bell', 'synth', 'sine'];
+
+export const isValidInstrumentChoice = (choice: unknown): choice is InstrumentChoice =>
+  choice === 'byColor' || (typeof choice === 'string' && (INSTRUMENT_IDS as string[]).includes(choice));
+
+/**
+ * Returns the instrument a circle is played on.
+ * @param circle - The circle.
+ * @param choice - The game's instrument choice.
+ */
+export const getCircleInstrument = (circle: CircleDefinition, choice: InstrumentChoice): InstrumentId =>
+  choice === 'byColor' ? COLOR_INSTRUMENTS[Math.max(0, PALETTE.indexOf(circle.color)) % COLOR_INSTRUMENTS.length] : choice;
+
+const PLUCK_SUSTAIN_SECONDS = 0.5; // How long a plucked string rings before its last period loops while the note is held
+
+/**
+ * Renders a plucked string with the Karplus-Strong algorithm: a burst of noise circulating in a
+ * delay line one period long, averaged and damped on every pass so it mellows and dies away.
+ * The noise is seeded by the frequency, so a note sounds the same every time it is played or rendered.
+ * @returns The buffer, the start of its last period in seconds, which is looped to hold the note,
+ * and the frequency it sounds at, which is off the requested one by the rounding of the period.
+ */
+const renderPluck = (context: BaseAudioContext, frequency: number, damping: number) => {
+  const { sampleRate } = context;
+  const period = Math.max(2, Math.round(sampleRate / frequency));
+  const periods = Math.max(2, Math.ceil(sampleRate * PLUCK_SUSTAIN_SECONDS / period));
+  const buffer = context.createBuffer(1, periods * period, sampleRate);
+  const samples = buffer.getChannelData(0);
+  const random = new SeededRandom(Math.round(frequency * 100));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = i < period
+      ? random.next() * 2 - 1
+      : damping * 0.5 * (samples[i - period] + samples[i - period + 1]);
+  }
+  // The averaging delays the loop by half a sample
+  return { buffer, loopStart: (periods - 1) * period / sampleRate, bufferFrequency: sampleRate / (period + 0.5) };
+};
+
+// Glides a parameter from wherever it is now, rather than from its last scheduled value
+const glideParam = (context: BaseAudioContext, param: AudioParam, value: number, time: number) => {
+  const now = Math.min(context.currentTime, time);
+  param.cancelScheduledValues(now);
+  param.setValueAtTime(param.value, now);
+  param.linearRampToValueAtTime(value, time);
+};
+
+// A sounding note, until it has been released and faded out
+export interface Voice {
+  output: GainNode; // The voice's level, separate from its envelope
+  setFrequency: (frequency: number, time: number) => void; // Glides to the frequency, reaching it at the time
+  release: (time: number, releaseSeconds?: number) => void; // Defaults to the instrument's release
+}
+
+/**
+ * Starts a note on an instrument. Works on any audio context, offline ones included.
+ * @param context - The audio context to build the note in.
+ * @param destination - Where the note is played to.
+ * @param instrumentId - The instrument.
+ * @param frequency - The note's frequency in Hz.
+ * @param startTime - When the note starts, on the context's clock.
+ * @param peakGain - The loudest point of the note's envelope.
+ */
+export const createVoice = (
+  context: BaseAudioContext,
+  destination: AudioNode,
+  instrumentId: InstrumentId,
+  frequency: number,
+  startTime: number,
+  peakGain: number,
+): Voice => {
+  const { envelope, layers = [], filter, fm, pluck } = INSTRUMENTS[instrumentId];
+  const sources: AudioScheduledSourceNode[] = [];
+  const frequencyUpdates: ((frequency: number, time: number) => void)[] = [];
+
+  const output = context.createGain();
+  output.connect(destination);
+
+  // ADSR: rise to the peak, then settle towards the sustain level until released
+  const envelopeGain = context.createGain();
+  envelopeGain.gain.setValueAtTime(0, startTime);
+  envelopeGain.gain.linearRampToValueAtTime(peakGain, startTime + envelope.attack);
+  envelopeGain.gain.setTargetAtTime(peakGain * envelope.sustain, startTime + envelope.attack, envelope.decay / 3);
+  envelopeGain.connect(output);
+
+  let input: AudioNode = envelopeGain;
+  if (filter) {
+    const filterNode = context.createBiquadFilter();
+    filterNode.type = filter.type;
+    filterNode.Q.value = filter.q;
+    filterNode.frequency.setValueAtTime(frequency * filter.ratio, startTime);
+    filterNode.connect(envelopeGain);
+    frequencyUpdates.push((newFrequency, time) => glideParam(context, filterNode.frequency, newFrequency * filter.ratio, time));
+    input = filterNode;
+  }
+
+  if (pluck) {
+    const { buffer, loopStart, bufferFrequency } = renderPluck(context, frequency, pluck.damping);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    // The string keeps ringing at its last period until the note is released
+    source.loop = true;
+    source.loopStart = loopStart;
+    source.loopEnd = buffer.duration;
+    source.playbackRate.setValueAtTime(frequency / bufferFrequency, startTime);
+    source.connect(input);
+    sources.push(source);
+    // Bending a plucked string retunes the recording
+    frequencyUpdates.push((newFrequency, time) => glideParam(context, source.playbackRate, newFrequency / bufferFrequency, time));
+  }
+
+  let modulatorGain: GainNode | null = null;
+  if (fm) {
+    const modulator = context.createOscillator();
+    modulatorGain = context.createGain();
+    modulator.frequency.setValueAtTime(frequency * fm.ratio, startTime);
+    // The modulation depth in Hz is the index times the modulator's frequency, and dies away like a struck bell
+    modulatorGain.gain.setValueAtTime(fm.index * frequency * fm.ratio, startTime);
+    modulatorGain.gain.setTargetAtTime(0, startTime, fm.decay / 3);
+    modulator.connect(modulatorGain);
+    sources.push(modulator);
+    frequencyUpdates.push((newFrequency, time) => glideParam(context, modulator.frequency, newFrequency * fm.ratio, time));
+  }
+
+  layers.forEach(({ type, ratio = 1, detune = 0, gain = 1, decay }) => {
+    const oscillator = context.createOscillator();
+    const layerGain = context.createGain();
+    oscillator.type = type;
+    oscillator.frequency.setValueAtTime(frequency * ratio, startTime);
+    oscillator.detune.setValueAtTime(detune, startTime);
+    layerGain.gain.setValueAtTime(gain, startTime);
+    if (decay !== undefined) {
+      layerGain.gain.setTargetAtTime(0, startTime, decay / 3);
+    }
+    modulatorGain?.connect(oscillator.frequency);
+    oscillator.connect(layerGain);
+    layerGain.connect(input);
+    sources.push(oscillator);
+    frequencyUpdates.push((newFrequency, time) => glideParam(context, oscillator.frequency, newFrequency * ratio, time));
+  });
+
+  sources.forEach(source => source.start(startTime));
+
+  return {
+    output,
+    setFrequency: (newFrequency, time) => frequencyUpdates.forEach(update => update(newFrequency, time)),
+    release: (time, releaseSeconds = envelope.release) => {
+      // Letting go now: hold the envelope where it is, wherever it was heading
+      if (time <= context.currentTime) {
+        envelopeGain.gain.cancelScheduledValues(time);
+        envelopeGain.gain.setValueAtTime(envelopeGain.gain.value, time);
+      }
+      envelopeGain.gain.setTargetAtTime(0, time, releaseSeconds / 4);
+      sources.forEach(source => source.stop(time + releaseSeconds));
+    },
+  };
+};
@@ -0,0 +1 @@
+export * from '../backend/src/_shared/melody';
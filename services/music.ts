@@ -0,0 +1,40 @@
+import type { MusicTrack } from '../types';
+import { isValidScaleSelection } from './scales';
+import { MAX_BEATS_PER_BAR } from './rhythm';
+import { MAX_TRACK_BPM, MIN_TRACK_BPM } from '../constants';
+
+// The track manifest and the tracks are static files, served from public/music
+export const TRACK_MANIFEST_URL = '/music/tracks.json';
+export const DEFAULT_TRACK_ID = 'memorhythm'; // At GAME_BPM, in the default scale. The daily challenge is played to it.
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isValidTrack = (track: unknown): track is MusicTrack => {
+  if (!track || typeof track !== 'object') return false;
+  const { id, name, url, bpm, timeSignature, bars, key } = track as MusicTrack;
+  return typeof id === 'string' && typeof name === 'string' && typeof url === 'string'
+    && typeof bpm === 'number' && bpm >= MIN_TRACK_BPM && bpm <= MAX_TRACK_BPM
+    && Array.isArray(timeSignature) && timeSignature.length === 2 && timeSignature.every(isPositiveInteger) && timeSignature[0] <= MAX_BEATS_PER_BAR
+    && isPositiveInteger(bars) && isValidScaleSelection(key);
+};
+
+/**
+ * Loads the tracks listed in the track manifest. Tracks with missing or invalid fields are left out.
+ * @returns The tracks, or none if the manifest can't be loaded.
+ */
+export const loadTrackManifest = async (): Promise<MusicTrack[]> => {
+  try {
+    const response = await fetch(TRACK_MANIFEST_URL);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch track manifest: ${response.statusText}`);
+    }
+    const manifest = await response.json();
+    const tracks: unknown[] = Array.isArray(manifest?.tracks) ? manifest.tracks : [];
+    tracks.filter(track => !isValidTrack(track)).forEach(track => console.warn('Skipping invalid track in manifest:', track));
+    return tracks.filter(isValidTrack);
+  } catch (error) {
+    console.error('Failed to load track manifest', error);
+    return [];
+  }
+};
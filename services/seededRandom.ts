@@ -1,31 +1,7 @@
-/**
- * Seeded random number generator for deterministic testing
- * Uses a simple Linear Congruential Generator (LCG) algorithm
- */
-export class SeededRandom {
-  private seed: number;
-  
-  constructor(seed: number = 12345) {
-    this.seed = seed;
-  }
-  
-  /**
-   * Generate next random number between 0 and 1 (exclusive of 1)
-   */
-  next(): number {
-    // LCG formula: (a * seed + c) % m
-    // Using common LCG parameters
-    this.seed = (this.seed * 1664525 + 1013904223) % (Math.pow(2, 32));
-    return this.seed / Math.pow(2, 32);
-  }
-  
-  /**
-   * Reset the generator to its initial seed
-   */
-  reset(newSeed?: number): void {
-    this.seed = newSeed ?? 12345;
-  }
-}
+import { SeededRandom } from '../backend/src/_shared/seededRandom';
+
+export { SeededRandom };
+export { getUtcDateKey, getDailySeed } from '../backend/src/_shared/seededRandom';
 
 // Global seeded random instance for test mode
 let globalSeededRandom: SeededRandom | null = null;
@@ -65,4 +41,12 @@ export function enableDeterministicMode(seed: number = 12345): void {
   (window as any).__originalMathRandom = originalRandom;
   
   console.log(`🧪 Deterministic mode enabled with seed: ${seed}`);
+}
+
+/**
+ * Create a fresh seed for a round's sequence.
+ * Draws from Math.random so deterministic test mode also yields deterministic seeds.
+ */
+export function createRoundSeed(): number {
+  return Math.floor(Math.random() * Math.pow(2, 32));
 }
\ No newline at end of file
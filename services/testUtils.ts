@@ -8,8 +8,6 @@ import { enableDeterministicMode, isTestMode } from './seededRandom';
  */
 export function generateDeterministicSequence(
   count: number,
-  canvasWidth: number,
-  canvasHeight: number,
   seed: number = 12345
 ): CircleDefinition[] {
   // Temporarily enable deterministic mode if not already enabled
@@ -19,7 +17,7 @@ export function generateDeterministicSequence(
   }
   
   // Generate sequence using existing logic (now deterministic)
-  const sequence = generateSequence(count, canvasWidth, canvasHeight);
+  const sequence = generateSequence(count);
   
   // Log sequence for debugging
   console.log(`🧪 Generated deterministic sequence (seed: ${seed}):`);
@@ -57,12 +55,10 @@ export const TEST_SEQUENCES = {
  * Get a known test sequence by name
  */
 export function getTestSequence(
-  sequenceName: keyof typeof TEST_SEQUENCES,
-  canvasWidth: number = 1920,
-  canvasHeight: number = 1080
+  sequenceName: keyof typeof TEST_SEQUENCES
 ): CircleDefinition[] {
   const testData = TEST_SEQUENCES[sequenceName];
-  return generateDeterministicSequence(testData.count, canvasWidth, canvasHeight, testData.seed);
+  return generateDeterministicSequence(testData.count, testData.seed);
 }
 
 /**
@@ -0,0 +1,43 @@
+const BYTES_PER_SAMPLE = 2; // 16-bit PCM
+
+/**
+ * Encodes audio as a 16-bit PCM WAV file.
+ * @param buffer - The audio, e.g. rendered by renderRound.
+ * @returns The WAV file.
+ */
+export const encodeWav = (buffer: AudioBuffer): Blob => {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const dataSize = length * numberOfChannels * BYTES_PER_SAMPLE;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  // RIFF header and format chunk
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Size of the format chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numberOfChannels * BYTES_PER_SAMPLE, true); // Byte rate
+  view.setUint16(32, numberOfChannels * BYTES_PER_SAMPLE, true); // Block align
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Samples, interleaved by channel and clamped to full scale
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (const samples of channels) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += BYTES_PER_SAMPLE;
+    }
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+};
@@ -1,2 +0,0 @@
-// TODO: Fill this with a base64 encoded audio file (e.g., MP3 or WAV)
-export const backgroundMusicBase64Encoded: string = "//uQZAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAWGluZwAAAA8AAACbAAFXrQAFCAoNDhETFxkcHyAlJykrLi8zNzg7PUBCRkhLTE9SVVhaXV5hY2Zpa21vc3V4eXx+gYWHiYuOj5SWmJudoKKlp6mrrrC0t7m8vcLDxsjLzdDU1dna3d/k5ejr7PHz9vj7/P8AAABQTEFNRTMuMTAwBLkAAAAAAAAAADUgJAYwTQAB4AABV60smYBQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA//vQZAAAAAAAf4UAAAgAAA/woAABInIRJ/m6AAMWwiS3MzABWReDWhVweRV2vt4dDoFBY/h1E0b83CEnMxBc2nmmFBnK2KC4QKa4frbiT2ShyJc6Bt3YGvDjPBmyJic1Aax8B91YGzZh+YmgdZNN4csAckGSFKBALBsQMwDeZ2TTgSBkTCyAmEgvcHsASoF97om5PqcB4MDMiQMIMFGBCEi9DLQguWh12UyGAwIIG4ZHFEPKIKtQsxGU1qNCc3xmw/AMHgJBjCNAbIFtHIK5SE7DZLZuI7csf/DlwufD4A8QXAE4XQ1eMYJgS40xLxRygKPWPkUCJAVPqY00NlNMRKYyAngXCAwAC4AY8GxZHEiQQP/qGYLI+h9jiHKBswIGDCY6hIhyWQ////w+cdZJ////xkBOwgxtXnLZgKBkr4AGAAAAAIrIjRZTqCmAIYfhlhbMLlmn4A+7Ns88xasCKGMAeGPJ8OgEqEGkTDBZcBuYHTHgkMAt58vkTMGEoB+g0DMM4C14N4OFSgaLAtgiAWFkPHYC0BPYI5kADaP3Jg01l0jy760kDRObjnnyLkNImoeAyww6xDRij7/5B3/hZORP///QIghyLi43y+TYwGqHJFoR/9//1lwi4udIXGX/9YvB6DEhDAuYEde3///zYlRpmhi////scAyaG9OqNDRVRKNFJXQ48oVAYDAIBBQEEBo0OiweYshG4QhIDGAiAKRDQxM8xWHBAw4NLIGFjAoHnQSRvhMFhV/A6MtwaaJpnt2VrYiZw4RYZIB1jntAAkG7qD327q8RSwchXq3MYlLSAYSVob4YOo8le49YyhkADEJHf/bew5nQ8jkaVPAmOCViy3njEYgf/jdj7rH5ZXgl5LF2fnYDgemelp/brjvpzCIfqKQHMujdl7c7fW8ZGyeExOLqZrXqX6tu9IP+YhuG9zDgN2l7b2826LrhN+G2twuH+0l+ISyL9//t5dkTuO/En4emJzEx9FbeF5Im6ycKw7wMckLNm4MI+H9w/IaengSGIo5cX45cLgdelD////////////////7TWyudn////////////////dl+AoiPCJBKZKxIm0DQCEQIAA6GrMSEBf/74GSigAl7g9X+bykA6dCKj8zNECXNm2f5vJICYCutPzLSAIAhPN0E040ijPeP1E4ni6hwGkX5oioAg4JYQvggKDewIYBaAFwAB2g1zAapgBbImApwR+T4kAWPjBMgxwL5k+cFuC0gc8kwRgCE4ErCWB4QtIFpEACaL4rUNVkgsnigst6jMhhOU55RogTY55HCCbkqIKGxHmYzDHRch4zL5GmRMkDJgqjlkL/EJiJMn8TNI0N+ptEiRB9RNiitqJA5x9jjdtM91m3/j8SYncvidxZvtd5YK45hcGYKXj4FkNnCKKOmQ8Vh7yN////TSDkCp////kWPCAoFQ0sTKaIMdRiIMhgYDGOC57IOYqMnIURgSsYcNn1EZogKBqQuebU9mOIBpJQZqZgI2C48ZKPBisetBgXEQSNoccTKAIsHvluhrAHBiRCXLBUcwOQ/bA07y6Q8FFHCRHj64kQjF/Ai5vgqXsPVCSCpFAZduTFXdd93l1KrhxKy4QlUrLAjEVnO22N5V+rXdFnl6MQY2t9IZS17msLDy5PRv5bDzLHYYjqIOTIK9FkpJkjc6NiD5wyuVDKWw/IWZxF1G0gaHYdt2oNjPJe4MCNEqsAgW87rlNvI3MculfSUvOtZzJ+WtKusstuvAi84HiUW5LYhUibptpFnHZ3DT8PIwWQNVnZq65r/U1qYnWxNCiC/HtcGTdsW78ohytLY85Ltvo58NTdUl////l6QAAQ62kZhSGOLUbS0EQsA4ABQNBLtUiEltZy5KKMXgE0S3ppLpVmcUOUJCShDDnHR7Fg/lpoaArReEuC8A6xRIrVxKB5hYjvLyZqtE391p6CSJcII81Lj3BWx2Z0fw+iJJ5gPo4y6UyXMHMziA7iggbG9bpIDjQd+Xy4Uzcvezuv8of+j/6n610/yon+onDDBdiz8GXe++doASapAKaCjRykoCOraDtyRQNGmFBA0IgNCgRHlY44AWfK2ssMs3H8Om7x6OFZePg7hvbtJp00M0zRFZcuLCbck06w4Y1mrSaOw0R0EyERZGhJ6ENQzHc2KpQ86Gu6Zcti533NW6Lg82ObZ/su+HGtQe6c6fv/i6c3n/+Ib/H8Xu/97eHeyvpH9St11/9LwUPMxoAeBHPTcRS3Wyxy/GKaurLgHIYcd7MjmCK1vxbECw/FQNiLdK/al3qvPFND0/ofLuTW8n0B4QLOf1ez6cl+t//dR8WAIvhbAIBCrYIjmEGgJ8ARZgzgqAFhTDpUQgS9K31AVVH8YEYNDoFh3EEwJwJqzB4miYwfRnEV3li9dlYVrVYYmqLWWKdjS303xuWZlOGCEFj0EhlDg9FH+eqtfq9oKaMdizTjGlamxVVXi6LQaMJsxRwdO8MPo3JND015vjevvZv/7sGSqgASZZNhfaWAAQWLL3+egARNFo1utMQ3Bb6AtfPMKVL++7YrniKGccfNVVVHCNUqbWO+Le+STfGdgGC1WTTnc625JidctkfxXwZavLcS0KQn5BB8ni2SgoTEcoGVYtFRV/95zhAKBIWRGM1CnICvBqxVepeDmfysV4lSotXOSyoWC0ZiBEHdxf/OMf6C//kvt/7pb4loEJ5t2ZCcbjUvETnVGlBbpGWWgYzPBUTMUGC4q4Y7FbsDPAPKoHzEst64qZow4Y4W4kc7aA69bJct9VjX1dc6zkF6K3L7h9y6vvwIDZ65dr/NUxOwJ6W63prYpH9muZevtFZ1qzFH6/+ezN2v5P9dD2MgS6jdkyBATBcIdRiMeRs/YBKlBYXJ0UBjv1OoyWyuyj3d46v5FrkmxrKmsVf+5nKYKXeuh51Gqos6OYmToXRwUXAsysabsj7O//5uJEHeO4Qqg1HIxYEJmIyC3Zn/yzv5nRCn2m///////+Cf6mqN/zNHJTaGdjAAEQmnQfeA4zFGMcg7gahEKsUFItdlYkBShxCYoBBcA4suoApdhua++cpVrrOKliCK1NcO6oD4NBehwpZAgU491FjBZbVbil7xzTJxsYrEREXc0bS1QcEjh/zDqg+HSL4ppu7lnv4b+pjVaijhtdyv+35ywlUMyaSxm1yVRrtbWXTio743v1Z5r4JvGEJw7IzGG8zmwqqCnUKwM8m43WbrO6y6BTRvOqwKS2pMwE8E6fbgwTqoQE4kIz+roREpzg/vuMiBEDeBDmg46jCxKVVf6WpFHKBj/f+kTgWE8ejQ0P9SaD////xL+GgJWqIVE//ugZOwABEVjWfsMG/pbrRtfYKJ5Eh2jWeyxDOF3o2s49I0kIkktN4TQyEyHGRHILKUHQgg5ACoElL+IAMoHlSJ919w260vbPBUTd6LOjAsM15ugu0l6plUmpPa/L7qZGYLcUYuOTAkytS3S8e4KWXJZ0o/T5PQ1HLKNRQuo26081HGA5jYq/Lx3+d3QerPxXqq8GiurgtCRlL+ZfQ4bOHYbYMkYdSlAWhwsmHcrhQZAQE6gFYh6hDGMtKPiVAcKqluIajgwlSbAHFYUdyShDms/wYJ3MP1lPkJ4bFDz6bXzJEHBR5BIMLEo3N+/ZW/Y/FCTYBMGtcvMEZhRqTFi99eo9/OB+QBEiXhDIUkg09zLwA0wCgBqAeG0MYFNIEGCIrkRDesXWBQpcp/V2vJBjdYfYGCQVHJLZAlg8yqhWaNrlFVM3pLkzk0beGCx7UFhVGJNH/tSSbPHSiujiST7dnp/GXNbREpNX/cX66JdVwStf/en/HtZkNBUj+aUf5A+++DWavplnhTpaiP24s0kVzbZivJIgabdazNL/02+Hpf0sHALml7Pl2COMkgzF74/yTtVYSGIFf691bWVruowTcw5tA1P9UvxUcuFVnGNbebCQgFqUCC+38d2pg9WbwQpmn1kNQdtxR0VDEZuSg36u4nb7AYGt4QSIAEou8cil9wATIDBMvyWkJAT//ugZPWABKRn1fsGFkhTB2rfCeMpEdWZVeylESl3oyw89I20RBjFjWwpGBYIg8idCodUoLwzIzL5q4BseViCtNnWIxMXwjk1BXSRuZWgCpskuzQC6yZI1M8hKeFqlE5NAyo8VJ2RNbb750nJr/H7RPuUa75u/W8ulPad5WfJ3v7j8rf3SV7xt7NpSZDXZ1dq7JlMVMUFH3SO8eZ8Ya9XF3rgcVuZQiZijkvFezYgqzYT1tDMyzMSkQJCy1S59mIMvstIiptmg3OSynE5GuQOmPlMwVgZkZWhXhjgKMccBGBBMK4CdWUMDUpTFH5uyH1HVAbKYpW9HbO38New8cliEVbyFgkEgmXmShCXMYCGFOmpBWgQAMCDCwhNUuG/7lsOKBEAuqu4DgRNjic8EQT1FCnihaamOm06S1n9Q68GTiGfbCTVCF0IRNPouPGVcb3SeUaW52u2T/ux33c/aqdoxH7WvrNjkDVdjk97MXTLRecj//Rpaujbf3GSgts3P/93WUVaRqnk7d3/1n8bzdKP3/lJxYCT5jkknIoo9xjOY3b+dlrpeY0DTBZGwVyIar/cxTAiAhA2UeZens1QJaMxyLmsm9nqdnzFkItNmcQdQdQrKcUislro7zGayeX0NgzAz+b/4gbfqI1uiIQVAQhHRCMyikk9w1xqSAlhQImj1vGUzAUdBUIkJQNN//uQZP6ABKNb03tMM7peKgq/YCJ9EnWXSa0kz2lhJKp9hAmkBWNh1iFNOa3XppJQNEnj0zUChRry9cUOzz2JS78C1DZ09ah5vnF1V1kx9t0VF9IYe9VO01l/OHERsp0R6kIzFITZhGVUOVUyUc9FZN0ZDV83haiWcWMwrHK46jFbqikQchycjmGjuuMDuLZQOgQTFrCTO0s1nFPFbxanAKiwAqz2LJU6P9o+SiIaEQOCsU4qveNKoNhQMx16r/6N9W4JWLAmZSgQ6sMUIMdkazDDjolFw1FCmi33dEjzWYPNUaBwmrlUQnG03/xBVJoBuM5RJsoOoQkBUQXIGaiMip3YMIJJAjVU4UwxiocTEdIV0KtU4ZrYpZOdhGllSha0yt2qg5ecUHJci5KCiCMUGxl6k0yrR1Tje3IVLi56aJ05mOJX4uPi68lRYfoNSBOMN8qvRPk5BhN8jUnGMx8iD7Pf/VUPdl34Ij280SAAOppTVnmS5ONyzD8t37SB5Ua2QLpjYyd/IAubcGZWJxkUCY2MJBAW8NxhMTQ4PA3pSioW//ugZM2ABFdf0nsMLNhRplqvGYI9EUFZS+wxD2GapOj9hJWsgvL5G1Z292PkuZilBTho4PmGIKsuy1Hu7iowehh5BEOmVxURyEI3nf/8bw8O+GsGQ1UqAyl3RxMSUglNUQRmQvcF1AEm4QkWKCIS0RFXA4xNpnqvE6XecICz5opFZiJQHX1upCiX1qp2JKvXNIUw61jZ4aJXG3GbsQ8deSljZqVYcznk6fGbP/L2kgfMu5mSjFTrUqXbsS/5fZr/+LaV9onS3j/Cu6eWQ/ZCNdVCbWVL4mV4rx1f7CeWKqc0Q4ZW6VAyvaZkNm3HZsNSuU1rG1vqgFBhZcCtuPgiK2idDS7/spcTShZ4eyL2qqTKz0IWXSXiJWmayPVFQh2UosHCDQGFzE+/onMk5nZXapmUzRXK+hP+Mcq6D76wInuGVDItpRz6aDzAsCq42aHlNC8xMdS9tQaNGNuigzdG/YHDDtsshgG1Eh94MFSZ400NWUUI0YfKAecXQRNBBeJOQxOTRy3J41JX39V8ox8rnv2VH5KdFj3Re3BKdcY4gc7MiIkzro55kN3K6HbR+reLCjBh3YWREaIvRClXExN9s6o+vp0adfx+RVSm3RAIUgJFMEZCIrbKP2c3LZcBSiAzzNrS0MBRyKV7yMhicqgBSOQEjIZDWN16N9PqMJUDFncCCAYgWMEGmc8V//ugZNmABHRV0PssM+hYCPpvYSVZEWmXR+wkseF8p+i9gRX8Exrg8Qc6NaUibOyzMpX6OvzCWhcd/4k1XFDinK4lBIeZiDIiG23PkeRG0xDY6nsArBDy0xUIAqrrTIcRGliYklORpq0cUjSqt0IkjsNZba0/epLdbX9XG3JXPWDh0kO1cf2GmGPY6y67MLCv4Vc0r2vzDdUCgJCSGtL2OoXfhooPh5d7GX1+J2XYnqFb5ILwjMwvDlmeHJKFhF9aIoxKZwLqzK3CjgkpmpmBFJaS/CVR6AQ6l7DkqZPDLCVa39YG0p3pLAT9UEPxUpnDUgbMD2RZaSbXKKG/BjnZGGGEBivGUd1dHdXqpkqCJMwK7g+6MOGivxF/lewEd8h2Ujbkdm3GQBlA55UUN8bmNSsAVpiyq1iDgpoIOy9OthoPDIEIFDgZVESFGJT6IUBPCzMUz0I1EE0E1xoVilG6rkR32mV1WFmkkDASg9BgoJEq3IHnsb2mJJOqmCzO/ee/9DIYKIFoD+kg+lMu/uW6F/+p6LVDcAb+He2WtZ3iez7hv+nYNH90HCHXdfgBdp4rA7UHGAZQYQRGEWLgBxBUuheXdy6an42iPo2hnkryO+J1cqO26MFz7tXfcso4TM9qqY7EVFQU9ldfSn5B63ZKOyUh2YUFd4plQTRUUdtEJsOK8ANBsAhUYmWa//ugZOQABEBS0fsMG/hSB2pfYCKJEPVNSewkb6k/nGn9gRosGYRaCEHQjosPJorGdCJsOAqVVqldZSLT4qqRDhUk9w+tjGeuvSBewYq2rtO8fatUH5ownKjx2/dqYrQqQL84BBFAiFuhf7iQRQZXMiNtWOkTHnhWDcVRbAQVjINya/DQXxGU4EBsKUgUKdr2ENqH5wqCHbVDmrZJJuUXH4XKlrB11EApBVjxfOOOmzBmMpdh2dOz06hOA0JRUIRZM0DgNqohTPzpbprLKv/nxmfWo5XpsVEmTSOEqOK/JJMBFccwaGbYFGS7sT5RK/w/h8DWJm1UiSckktARAFcOOMgEntVbsHeT4EYDMNpTuCSEXm6MoZA1qWPs1gUn2BUXJG3EwkVD6WG0IoQQW1eTQLm5pXCLusmUgJCGlFnwcJ1m1FP2k3ubXtHT1sgtPKT93G+ozoTARxk9H6ELGBLJoWgh2Vnx3d2qIdf4mJhkMz4ofYT+p7LVPBYy4mFQ09LbuOxLqET8upcg50UOJSRTFGYZagjIdEhw7K6uumaXnO+dw8AQgKJOZh/9CojjY05iDwUhnINdijhQwkELJoM7BmQzIV4QWY8ZCkbsyhI4cxG7lEQJ9dGQmEfwjqd4gQVqqndTZyRabcv8TRCrjA8EmREDng6iwYsJFlNyXbWDVWrvcbCwP44Gl4eC//uQZP4ABDlJUPssG+hcJwofYSN3ENE/Q+wkUeGYJyj88oo08pNSUksukqTIT0yaSieamhQqdKs2qHrKMQWRO50louSNoqp7vn553GjEe7TUexiCLbd7ajn7heP2ftdVyoyme4+6TeJOXxN8y79t6P7lKXeFWSwjWFRCouxAlE0OAUER+ynQml/mu432FyBt7d+LgkhaWLFkIiw5nNm3bFoOn9iRGrxy+vLDxj80UNESwnhRafl3f9ViG6bi3a2vt1HXjG1+xdZnae454hb2jivhV5WFdv5lh3/N71D/d//fn//j4jUAkAZXQDdUc0qkbsda0jkMHB8y0qzTSSMkLIwugjqRzM9i8yuWTVxeNGhEzMEwwDCgBAwfMbBU1KSRUMEg9WijWJgMvVVLYAkgSYERBfY94zCKQEjgqSIQSiEwJdwKPKwAEnF0ATYWY21rx5rcLXq0NGwDAKUAFNQWGHfjLZG2dfrjuvAokUBu0F0qA4ZYF4a0veJ6HedefhiH83piyyjLALqpRF+lqIJH0eltoNhmSRtv5uTxfN35fVf8//vQZNSABFJP0f1hYAhjSmpfrCABJR2ZT/nMkgLupmt/NYSAhELqoxEyyIk80p3WwUFLFaCq+Uxfhmhdtv4xDsD1KKT53RGAiKq+mQ5reTiZS8zBmcvXLKdwYpTV4S/kzj3u+77/f5vP9ae9pTit/JJC/bzwJG4FtQ28kPxCN9weuG5dD8QpJuJ03aT//d//deQGgSg5C64GoRR6Lhqq5wYqkzswKs4ZdcpVGMoZWhsLBzxCzSAKSAXqZIFSZmoaExmhqMieMjLLw2i2uymfZ3crPMoFdt+ovK8IxDt9pU9D0pzl0Yk9v45IKaJV62ocvRenzlG6s/GIXDn3KOlx+MOK90Uge3MU8Vn5ZMXY3q925rfKlmUbuUEo3dgl2pAtSG+15RjzutVMv/+fhnu9ll/+zV834lUAQmEzU7Ie5bwqZgkQD/8qZcfCbPQXAiRmmruDa1ZWslbzcQhDACoscSWggjCs8iIckvj1SyIJBQ4DOgXDHwkobwKkotGJopkYWHPhjiBm4okubRuSpi/ql7OjAAwAcNoLZgiSXJdyVLTXXDCR7rM4MGDL6TLpPHK115MMWEXjBjbNIi0NtSU1btD96lsrkkjjMylL9tTstdXlG3hicHuI0h+05IbiecKh5cq7oDgW83dwXYZC7b6SJ46NzHIfSM07/0cQfaNw7KYfrPJbuWn6iE1MWa2n0aQyyYgWNzleNuQ7kapm5wpsLkOi71pwXj271qIxa9I47CpVFYpexp2uQxFHHi/FcQ5RLvZ3HakQeSXvi/7+YSyhVxJnbb+TQc7j8Q8/+dd3JjOCZiDnml+EY53///////////////yeCG5Bb///////////////3DiMVicxwAACSOiKeLCSR2RKAkAgACNlsbKF+lCHYtO1A7BbxgArOT6JwCza6rAAaIWYIqGJRnBcw7hChZAyjBDkG2i2WGqxZAfIVUC05gRcli8UFVGCA4x4JMujaGXHQXyIj+YFwuGiaBdLrnTcoGRcHNFqGZL7uXCmVNlrPcySWe6a06fsklWYKZStbU3R+gbu6eptNUwNtSakVqUj1rdSGt2QutHdaB6tSjNNVJIwUaqPMtNJkTU6mUM//f/7wGT7AAn0hVb+b0AAvAzav81MABQde2/9h4AJIBNs/55QAEWB7/6LY6zM63f33aJELoMNkqgvAne6QDK+oTtIYaEBhI1SJmLSmdPiRJ6HU+gwp299KzLOlJEq/iU3nOLZZ+7h0jsLAm4TZaXXywzPtSQaxJNzbz8vr235IE0+maG1qaSPSJDpi1J/Az8amzm1fmbVYNvem8b/zjO8/01/6brn2xnf+tW1v/4tX5+qX/vvvf8+2ra991166zFzWN+dBMlVTO0O6pAk05mu55xZsg2U3hP4rg+TSdOlBpDY0DHKY7horQa8XpxVhMWFW0yOl6o7u+tWVNqMPBhhQkHgGOJM6nfp9uvzDvs/0fbRrUrYSJy7l2uxkhJKpkOxIQGBimdIQELHk0zBgnHU7IQBfNqU0vZ25MAke09DGkK1Y4mMrSPEe35iWabEiF90ULjrxOX4t/5Ve2U2g6DEjl6kmOx44Qngep44QR1D3qkHjIaHP0KO8YeU9XBy03Hzd/Wv3dsx3URmzbxfraWqQ3e1plfisW/cItbzDiFcnQa18LZzN3RVfC8TRlqDLm3XN3aiAAexQT2p1nywDZQFEaFGSjIdnMaLgVEM3P1ull0yXP3SO8SOYSTK3AQYoBLBlXZZ1r37aPb2fZfbqefo7/DOBDWcuhZf//8O3/0oL/+KQRM95TqetbSIKmhizsgWUhiguZ4R5D3qCsFXNBKAZtm4tOa5vGqcNpjCBpqongbnpYimZuNoERNIkCxsomkq1N9N6wwiXx5VkBsMvcUTOAkUW7QjjacPZeMzPj+VBRNzDG3/RV2NqmRNCOuCLMiL60csuH/5ma/GjdthbGhiWcGiliBzh5dGiiP0EaGB53ftY/sdYIhx3uYuFt+zSk5J4LcSIt4kYcx1uarfHUzdox+eQwc5FOsgY5Rsnhf//8g5kxwvLkJKFVygzRQwoHXYoSYzTGLfMZKd/9v+//ugZOSABMFs2XtMQ9BWCys/PSI/EWWlXewkcUlsJmw88Yo4n/4LIodkMPf9FXrqhhaeynRK5HWiQ4QgZD4YUrhSjynqMAX6EkLRZwnnXaE6i5nN3GZ+CUUR+OELtAUrhLkY77xdUraq1c6wTJ+niE0JU2Iojzq8IZUH1rTHthuoPQ+0J3V9jaa9TexXVtwRmBg7P4wuFalz9NxfQ8If+tIlhtvy95ktyT/0zZXUYwncmVx5svRpMflZDTvOtAkEXO4MGcPatUcoQUqEU8Ot87yXJkUSt317MVUv8zs6ba06gVf/+vPbsidK3S/Bqz3X5BoUWnrVSaiIMs+eWjE1mK6StuxXhjCeDRzaIq5SOye5ZVT0fX91b7lrsfB0N1b6mMaA0Aj4SgKTHGuodo2kbSSNl0eo+S0EuwCbIAkyhVSABQaHSfVkjrUHJBEOClVgNEpKGhO2ASjJYuICYqzGdakFCCJ64kOUnG9UkQuSR2TWhJfLfZZalYTn7nTAr5GSfFPt9u/SvrPyh82uf8OZnDP0hFwxUUtWX3GO91v/QEmP6vyDsnNbvnZ/ZmvdxeYrW2nZHcgRIKSKZ0wVgIeUMgmSgWajm3kYBMvw/Cye405r1fPNELmM712jRNBz6moT0f/dvRBZEyrRkUV0jO6FZDtsyPo+jq3md/7mYraqX3fjR/2ZGGdL0GEM//ugZO0ABCs71nsJFHJyrJrPPMKcEMl1Vewkb8m7sqo9kxWYQeCmKrj4rKHnGKUczVEWYUkW9FVCVauZZWkaRJBFGCEkEjvAYtEcebAIhgnoTOW4kgwdF0aAFm5YHkHygVQsPC6SnSUeo23yCUzU9jj51g5Tnll2tIRapFjEFBQYVOCrDMSMzo6rhka0hCuLGkuO5x7eLFf2Ig1ZrwryhakjF8rib6Z6j775y2K2T9XNxFG/5TPNLbLd+XRLUIZu3Uu8+skTgcSLke8FQLwDK4L2C0+Oh0deV+e1X2qQ/fR3QrGUz8BOgv0Mb+UzjLJFsh2cGrsdlOtze92puJI/lfb0lf+0hW0fR5Llq7VerOgXuVaFDHDeFJu5tEmYFVBRHfGKQnMzCGnd6KTbMC3PENBcdYrBdLopClv49BDM0qp9pSnWcEgXLhcw25gNInRKyEJj5rcJMucTPLYiOlX1n6yLknYjT0cmWTx+Pte8aYZBkAQoCnHG8wSpC+yPnqBb3mdWMt/bm+w+DodE8o22BdEC8cA6zuOvld2QGauhM7Ce62yJ2yJdhXffBuV9zYYiVwmwqNGWwShiMx3bZq9QqPJyIHQ8PGK6fzPU/QGQ3ZkFYjIUW1symvKyjUD5BcXBlKKv/laERpYkIimQhnoI/4V/4tnPCayEL4S91BbvmNea9ULd6u8H6xxY//ugZOkABCkn03sMG2JlTJq/RYI4EAzFScwkT8m0Hik5hhUZfD1/+vV1YQTIZDI1HHEnDALGhwoYHKGaKn0byw8AcKZfVNwwgGSIT0c2QM0ht+Jt/3qXZOQ2/48Ry3YIGQu8jN29gSJoyPWvrRxhHNdH+gXdOCTycjwwQOQMeGyzE0hODHAjEiiLzTvwwR2lHPubORKx404a5lm31ot9MoBAsrf5G/a0hwRmp+pkWO18HQYqODyZvqihARxNL8YyA/u3aqttlUc3Dh71l/xGDhJWJuYwwA1ESH5Ik12dEX04Pn7LuTk8+RTfKDkdmC6hYckNCNsg4XFI01xL6D/8h9529B/cxvKUq7DiphRSiMflcaMFjGf6D4i1ZZ8j8sPMCjLh3ZtWiiTRkHEIAMJj4yS9TH5QMwmw3S0TVhzOtdAzSMDGpUNkp8KJJsweaClGXlxnBOEVppQyYcNGGnIO6jyeUu6ZIGmNExiIYPAWo3BCRi6xgnBwKBlZas3B7LmnMxTpeBh05uU1nqi7otNgp3SCjjyRimyqCwKhGeg5LFUa7NNukvKKxWDdoeqnrVHlR86833yypT/ELf//NxfW1xfNS7tXdcdxHDXc18BzSpkQMruT6GNjjf8RjTaas6kALq6drryWVvCSy76lPOnO4leiuykQAqKIZOcgJfV9InKqkpvgwR/5au5u//ugZPAABKho1XspHNhgSlq/PCWpF/GbT+5tC+FpJeq9kJaccgi3PkVPhlG4p0jLl6//8CgV3aqq6/9uMcxr5V9J8Qed/8Tag+hg4Z9BI8txDBqAWKdlI0d2ucnCgIFYWuYzJZAzYww8HQG/KbJYCJChretMUg8rJmbxaJM+SuIEC88JYCnzKLGrhMUCYMLoyqy7MHd0Zs7Bl3eyhK0NqZ0TVRQ5NRiqSqNRVVIEDyBpCULjhqetbsc/46VMepqvxOsXYaomNkESFi5k2HEM5okMOUrau3TOOQ6d7MJRwkdlHKUqC40Kd+OUSPqJsgAaRJlOb/KRsIArS25qk7BeJ8AHp7f/PO30QoBpGR+nRNXc7kCQ6cW507/SBofBk941cKhU24SByYcAiruadqd9LAUxc2YqddGpeZEIFRt0KXAjSzkcNFkAoUMSCAAowAQvyokPNVMEv0j5bIC6yGwKDxWK5Jk6IntULiZFDza2SESjK+4lzTwzpBj1GI4PvYav7I3b8fcY7mZRmREVZlun8/pWVUPOkR/moMfVFCXhdDY6KUAoxsJHjGWXXVBfdzPaqWOEYKYGMYukA4Q9mBh0Hw43xn6OVgC5byIv9da1AOPGXWScGZiqFaaCPPN9GcVW36zOndH7F9Hpr6JVbEUvoYz9DmUgcM2KFMJkrMFtyNHZuoqZSxwu3lIy//ugZNuABNVm1XspLVhBw1q/IYdJEsGbT+0kc2FQKCn9h5Q11fMzfo2X7RhyKMER5uJRypIkm4oQNbWRu81gzIMCwILbAeqPgDJaSASSg4LhA5JniaSKawjVy/dq6+KAZzHm/0C2yw4bCwVnLFU6aVEoFsoWVBXw0bW6GN5ZjtMlZPoycIm99a5HGsRB9yspiSp8zLoR5HuiHaQxpVM108vmO9WYSBnGtxcYokR3iDlOKDP0MMKLjld0Hjb1PiA+IjqPEXGqWADmE4AI74YBg64j/hAt67ewM4okHGHAcQBoRhBLQWen+r//VbUlcqshn+Yz/qcpz7RQYUaJCxEnxA7GZ7eYRo7s3Uzo/v/qzER/YjdzN/+M/qeEX+H8o4Cr69ACP7SObmQSZfjIzI3DG3dJobJIjxmxZaG4JQiXyzprfcYJXS1Wj1dGG49cixcQiy7SVsrFigrQTWkxEcVFLSyye8lgjRb2snJis3aaa+6Q1mO811kM3ddnJM2lR5kYxu7nP6YqZ1LoxhGvEXC2DhQ66I5nLqfGZmGjmajvNUUGTXfE3m1FAAAagAAMcAAAAhxBz4BMAi08RVQQ2HzBf4LW5qblg3NlERPj7HYvX6KDd29TqXzc1Y2Pf1P/azGSJ0AoSHEiVRCsSWeMkaZp537OeZaTsoVZaMhefLinPZg5GKs+Hts7D+0e//ugZOsABJFl03spLNpXixofYQVXETWbS+yks2H0MSY9JJec+xaTQ8pL/2LgYAsaMKwW3//CThqmm/8r/EmqcAWLiyIpdLHLwrgIAI0aFQmU2ADPw4hMX4lWxdxlgVuuW0FI7uo/AsoalZukso1lNDaqHZNpSfUWhKSioCWURtJFkV52m1FJqukQCZRD1kVQmqmtJFszXCTY7P5+fxk58Novf/tZrM1v1Li6nlNjbzZaEkcbdpZV367tGpKI9t/U01+V+Wh+RjWPUWGzVFmfyn2W2fkTUfyjABiiEAV8AAAGBX6fV2U+YlvwwiDMOKaqXNJJejzj87pnp/zgmH1vl37Ne7qtnV/QcNcReUYJONGj3IUcMGsfo5Q8wa4O3Gh4QCg2WQrBuNI4Xjh2oSHysosUvkEn6l//wz2UeUv/5n+X/OLuCNeXRo92ssu4nMzxjhp0FmAU4Pk4ZgEajGEiKKsQiKrCiimMfM8qMTpzTJ5TpdlvPOhQW1nucuRuvNcDHwacQ2MTfOU5E258bbd/N6+S1FEUyCF15+7f/dzY/zPTPDP9y/peprs967PnrtsnZ+kw8vWyv+Vaab46V7dqPLy+tol+b3X7O952Invdx++zv695CLsm3Cd9ZW0yDgKZznMM/NJDCUrq1jp+A5/o30pgnAmH8/8+f7OV9btdG0a5HqqrdHFRMHD0//ugZOWABMRoUfspNNhr7NmfYMVbEf2bSew8zOEnF6k9hgkc1HNkVkI0ckqFbZ3/pUd7P///71AGm9gxf76ZycFVBJGliHZNx9AU6RBHmvoksoFoIalr4/cbsfg4AEAkNrCoqPBeRgRFgwaKrELJyGqLByH4qJCBFNMp55IKeaPLd7i6h6t42FxAJQeH46TBlDYMZK5a2jc6v4hb6bmOILlF4REUuL4GtzcfRctUac2f869aqmLjUJQZWWw0uhtVN0UjopnkjUxpl941ABX3cUFmvscgb1nDY7qxeV+FcGGF0EKBAhfgaRC6qPZsqbvv+IvIQ7IZBz48gmQcIoKjFVUCYOIsikYdXxFFlVTs7OoxxjK3UpcYcKBvPf/DoChE0RiE9TLJVlt8mSYDAZjqKcgIiU+YaUmXBA6UkywVghkAQgaNF65DNBogYRoqM2HQcGA6dBowZImp/GBmyfZkQWca1lBkFAcwsIMXGwuCGGBBgYWMgYsDpXLkbVSthDcFUQCEAIvSvCAJqTyzbOGQPEgXA614C6/UbbOwC+zlN9RZlaW6hrMqeCVVm6I4OBWxXWvNxWNPdF5E/jpP20h43BhbiP85cdtxJlkfsSu9yeikigO1ZsVr9JnOSeHLcvn+OXlZwnMuWb9zuOOHMfx5S65j3DWGohDnIcxv3+W8KfPOrqt3ueeN3u9b//vAZOmABKZo0n1hAAhRpwovp5QBIY2bP/m9kgKeJmZ/MPIAy7jy3/LueH9xx5fyuy/W8O0ksvU+90l4RnP/rJE//lAAAAnWiQ0eSdZKtw8EwAABVBtY6sCw1H2B1+3Xeeo9SMyHgZAOyLuj5LcrxMVCpDpQlwNMes8wGgmkBtmXZ1treLbEiJwmExlGqTUZ4ukNvnXFBNznDTKxRqBiP8xXm7OK6Zb8zzaQhMEIJZd7m264z/nX9U6dcE7x/oXnWtf0k1TX39Yv91sha4ZGxkif//////////wHlImkRP//y8TpLgNLP///+ipJGcTridedSaTe6i0NhoMh5wPfMUlMy2TXM4jPEkCAB3iQEOg5SgKNDjBgwZDAIWYoOFFbNy6RxJLOGjzNDZFKwaWDt6YgxbZCwRgkSbAmGLQMEJOMODXWTDrvDBHneVG9zx45+3TLyLPcCBVbgqWZQaAUzWXRdKDl/tDZi/jlz7+MrkbNi6EvWEirRGprcgFItjtWVR9usYfaAXo2vOWUzHmJO03CWy6etsntrkd1x7dJOPxTUMvgR314v20lDFqjIpRaYWrY5sppZ2URalqP4xB+6Skl7/xeMWp1wKVE1hrVWysgd5W9pzeKBtYjE1LbUCw+68vrQIzSkp4ccOXtpJX7jMxSZTb/xh+LEpuMHXgDR3CLjpKJPuQ3FmjSjPVizFlYLdvXLH///////////////SSuH873//////////////+7wQIqog8tfIhEkHY23bti4Xm+OkUBQMCmm8qSXU07WfdzZ66YxQZQWtpWgknAKqTCqJsrcsQhsHEY5d1VxaY0dyv9Y4LTQuaTg1pTRIthKuKS4qtD0gkT0S2CYHsxuN1tNfLKFnC86zXIgV8sFjv/g37+RiIxqq5SpJ6fa1k+LvwPV1R8m38h/P8LEOUsSnP1SPBGJRA0RjUom5VOTNTmcs79SfiD+84/Vj//+9Bk94AKYoVWfmskELOIak/NZAAeNbVh/b0AAgqhaz+w8AQsd48+r0Qw7Okv0vKkTxgBrVVZ2ppqv7GSAAojnK0pvZyYqImFgqVICLyYDWFEIWWXdcvEZYPGCCSOCDiPCI6xgcAdYzgwwxAqB15ko1dJf04MEwJsoD1yYQXfCE6Ci90Eag7I1/LhZoXLLQXW4SmggtKtd7vrE1DNPE6eHJ6LpvxZdjRX2vyKQ0NJKHUfvOV00YppZSWbFPdj+dH21QXs7N3lmpSWaSrZn6Wkq2P1Vu3KWjs/z//7tb/+vjdqYf/P/n0VJfta/6k/qW/9213VugrznOff+U3rf/U7+puf+7VuX5dXxms9WKCl5q/hSZ0tLTzEpmLs7d5KsoDt03JRZpOkanMKkQ+hIAHE0ziBGkS2X3bC1iqVlbKqRuDSY+xN1woKFI5CnqVC+ynw5G0+CwG6UzKdiTDAOBqYFQi3K8j/dFZEw98j7/FKU//9J2dGuTLGQlDI0dscIOj/W6RP/8xP4d//4cf/5vAeT0///8qvj6/v/77y/n/E/d//4gwQ6gz+GAbrXYRhhk+ngAboT8Ex4cQBHAFcn0OEkxhcdkxb5tF3L3gNMVa1dugK2BwJAMRjIybHA/SpPMeURDSLUTI6doDR81ArFp5Q6uH0LLVLGjYtgaqsQzYTZSRs3bukX+w7m3fq5KVhw8aUprRAxS6C7epcaVhVxChcSYpS0FqNiVcylFXc5Ix1TTRx1flmSgrqGVM4qtB5Da2O0YJAJd0NDQAAAAOJinxtEzE9V1MtiSi4hvni+4eAIUKDyyCyoE1Y//dfkUbdgbC2I6El0kzzP6YUEeO5hzHgwYkEfac9UfyD9RRxAQX1PqGfiuFBqYfB+oD9v/////Q/of+gn+aAVZpJCAFBGY6PwVYYBuJd4wVAMEZKyvEnWIGCF6PL8NlgVczQIbh10AKKpDCiyFAFSQFCg0qaJZokTnlURAshOxKpH3NxrjLmkEtVMqnpgiTJ5I+rCN4yrtZ1BlUyqRncHOAoqVUzo6GfR1wWzd5yMhnsw6r733TW1TPvUrfVv+5qDipWBbG1AROSIxCDZue8sZTWJN6a3BmTQyQR//uwZM0ABNJsWFspLHJjDHsfYYJLEZ2fW8ykUYGAoe29hIl0dFKRgZKU0KCD/CYhCqGmpI88U/795uLLYg1dC0mZiLzMKmCvd0sy69/MQwNB2IxSVazzGfaENEAgYGJI3qTUxivVvGYMsfty445/s+IsReeqB7uqh2U1Gim3xVyCBrx1ONpAES+JhUGFVXRMLnrKssIK4RAsAUzEAllaDhwECKsEGnpaa6a0uc8i2iMOimolwMEgkVWJsMGtUNsYfjKFWDbF0zIwTR7B2CIZlX4peXD4fW6zWlhVky82P09f8/n8q38qTkQYOoJAp/0RgjIOJ8GQk+Cx2cN7BTAlmrBAQAAA7W+lw+TZIlc5rlKRKLucyB8h0qV6oNcI1nHaaZQdXWykW//7pPPO/+/qdCDc7zFhC7NI87OUay/3Jdw2BlgHIhUyXjf8vHeZ/x//0RhZDKdBYc9Aq5/nusFqpeDYjbSJbmEbQgJ1QBvCASCEWswAHJSRX8gjLqpDqYy2hehlK9cmyUUzi/oB3otxYXwmZQjZKzJCrGfeLqGG1WHWoRQWdsDMrjWW657AwzS03yZj9yNRyFZU5+2YupVvxiq2kp0rWxKuiKa6zy6Najl0u3u8bdxF/xnKMGKUUVO6rixlAsQUjvlI6jo0PB4wPMU0qtMq3WXNAuXA62d7pLG0sUbNKWBDg01Jt6dx5wQBVZwe2cz2yMZ3G0ZaS/EL3X6pHeVpJEK2KOgzaaFhaxFYnQ4tkrf/T/Lez/y1AoephVMyURJbzNQRiMoF6g5ZmSsMNMRLLgBgmON1RRR4a9LmkNtILUP2IJoJ9+I3NSGIEKD/+5Bk/oAERGfZ+wwbWF/IGs08ZmcSLZ9f7CSz4TgUbDzxppx8FGyBSxxYGJmU0aleIzlEM7y9fcKrOZVEnj93IpnEyJMOmYGWBctWFlU6UrUwIbXZVLoj2k3o5eAusuKe2K9+aRO2gJy/U+D0JE9D+w+0COGCF4ELOjDUY44MOkb+skLJkAyADd6VSIAAAEeJ8anmbi8pNhJeGkAPiMSIHiYrsaqZS2XXN86sjZxZCOWkSKZ68uftqAr4UloZ3OHJ9xx6FHPIbNX/LAizDq5ITRRUl5xMBgj04LJlwQKHA2RpKRwkhlUDLlZKxJsDWXrgGA3RXOEJPWFYsA0qikeRURGkYqpKdtP2kOKLUuZV2zJhG0m7KuSrRWGVPVcTb6EdBJF7IpUBBAg4gGOzeY5mr4OMyzzP/WrZDn38TS/3adKtzZWPa3H5yYiBlp5tJ4VLhgJxJXxVKgFUXksbtJ1LaAZolSsKaGT5JFOiGRHR5cy/pTilMe13NxV/C00WwuFChpYcJAqP564/5+VqYeihOopdE2S5rq/1yNpobQ+xB8v/+6Bk2QAEwmhW+wYdeEOkyp89I1cRqZlX7CRxqToZq/wXoG1fXft/8Foaf+lEAlBp3nhpfAeMBwIdG7LRByQoFc6p1SNokOl1BU88cXa3M0vRYH1dZggfIXEW+kYiEsIkLpF1ZkKzWIIUyTokCiNeLKs1tue3OWQ2OfYdY90pza5RWoQfFOKYqGcjFZzIzy2fDOitNpTtrYj+ZxspXB0S4aqsK6MEPO0SJepQj8cyjCRww71V3cELzMuhmSANpqDKfR5l+EXCvFuPcvgvCYIhdVjxLNsCGvRjiPAcXCNO9BX6MKJdI1E5M2CUFu3/7f+I3AlySpRLWCuZRJNKSV8q2jPjfz7MbW1naqr9+79TG6UWZcR1eNqDf//f8Qf7QaIZUUiAgAFOcxugEBR0WFSZtAIYs8mEq1jAND9JKSLFag2BQdW9aMRi8We6afWVNJkLOB5cmaKKJ2dxXHy7TQxpqjNwOFlg4WOaxjSAqIrIfjvmLtSbqYP2/VFS5PotWgluzXqUuvj1b3WRw31M+oWv/Xj4Sqj+b4rlxtxEfsLWPxjST/kh8w7KO6J1Zkxm0oMHhF5UtBGaSSlw9Ws11dI3JhrJU11pLQjMCWIMvuUzek+M0+tA2T2lb/RV93fon1Wa5SsbUzVjCmBBD2BvlM0SoggYKghob0xtgIVZkUadiOwFNZwK7/+s93T/+6Bk8AAEaWhT6wkUeGco2n88pocSXaNJ7SUS4W+jan2BidxD/hkAeGU0URQATb3MbFMcAAAJdAkXEAkDGA4aw8cDjIFd7S5hPtkUafx2IDb2HX9d2nq3cr+dmLN0o5p/6SmKTHQwckBsSn4M6RcaBkX9OacQEcd8wesckVBeGlsb3Rae6aD0vR0UgkKocpnD5gw33atlO2cHR7/UMKaQUrAQ6EYjyhDKSU7GYfyAkBCjFg5gyYnN5htClCsBU0OqsyoySSjt8GmAMxf3qlNA7UAqWer1IURR5R9qe7Fg/YFgFRja0/9n/zceaxbsgWRW+nIZ/Fo0HSxqcimbpNwLugOOiAQVINpWwqsoIGhhzsA/7usMO5ShK9R1447//ndJCIvTyIG11ZaJBCd2OEQwYkGIAU0DiRVY0f2KrBpyy2NqzO9TsAf+Sv7YoLkAt0lzs7twcASM6xhpckbUhViVcpSSBP894Rh7WjIezZtLsAh11r97fnEtSt5+xrfn9zlssto3maxf/4Ecj2JG9ZbGmvH7/I/+Eb5R6CDicS7oHkKq9TrUYeBq30iUpXqAr/rqpdN5JZ+Me58aBEgaYDcLLA4anUQaA0N/Ii1h/nfet4ZhI2dmPusqSoKY4eAkSCVVmP1KmRnzLzh1/OhQtMiihzgtg5gxN0OcLOJv8P4Zwp81A32HVTMUkQr/+6Bk8YAEsWhR+0YVyGgH2m88wpsRBWdFrBhV4VKWan2DDhxbyQAO+eAquFmJjAZJxiIDrYLrAQMVLzK0sldl/h8LQQF0zFjyyq7GSISjhphblDxd+wtt2LBUd5bMT3OdaGW6vOU+ytOdplt3kaVVXRF0gwSSq6kKJZkUbnCuKo/zm+0X+g9p388b/y4kvxRC20Q53VNxiHj994jAM+6SlEnWnJpnEM4QRQgARUDagz4SqIQRyVwlLtgDfvfTxjV306XzEQ1eWUKqEsGI3/cfx8XHMPiw0eXYqOkYw0wZmtZdyeU7//+d2pUExRH9SnxCSVUieB+M/ahog5j/+GPQhH9m8DaoZnIgaSam+Q3GLiJqXAKu2IKVUyIiJusjKxkoP8CmXUhQ708gkMeKNVuLPdjtVtFwSaTZ2lXvaMksKCzrYfgkRbs4ensMg67thYUHvR0hyDUFzigoSjfqa2O4i9Ki751GkKPul6oeWVLYyhhrDR8O9Y03f/0k250aREw7GSZ4mUsgqTYUOVl1cynElIoC9t1MQptWLXgaoIvHgKNExrojDFh5SSGT8xdlkZaBnuA4Ftz1HUmLOISW9+9hUJF9iFCC84//Z8urGaz+YeatRFAFMQ/jHvchCd/m83O2Y2N5SbrfvR5X/n9R3LISO2dkQAJSLc1OgA6wWYXMDlTYz4GUgwFGBTT/+5Bk9wAEAkbR+wwT6mdIek8PCB0R1StF7D0LoXIiKb2BmmyIiVLqpJtAhlxmsP+8FKaoREVqFvjRZDMnq3QQiVEvbK1NNihGuo8yrvKpKRS2SkVW0bNMJRmr/bjsI9O82/6uH8UG8NUGwRHSneqpZVEc3kPhVr5NmKXyEAbgwQpCxGJ6f/0RSCaYbdtLe+cUAt0OrIppuO24ZWKTVPKDlENE7crsy+hu2BICwkY6wA9ZjHfFGWdlOHmZLkX5TR58JFb/znLpIEfHcu6oiYSdDN9vc/d04/40S56DRWRrF06Pk9vo1AsTES6mUTTm24KEAAA1adIGYtAkeBqL3IBNGQBNcCyBAFqDWocYzStMbryrQwzelNJfmpc06zT259qJHkSIs1LngYdH9RLX7j9dtyZbR0+jjktme5Rw6YmxKcWlBrKAD4w9Hx3a8+sFi1gR3zdpJgv//Q+d56I3Dsn9f/TuI4eIw1Z4cAWmpqWQlVJr9fHh60izpMwfg1UcZY+hCATZ3D7OFti7Vrc5Vo/IFIOPIq/+9QmyvqeFaGOYVqT/+6BkzAAEP1XQ+wkceFUG6l9gZm8QfWdJ7Bh24YElKXzwihQOJsHcoDyuV48hztQEpn9sI4sw44sxRJ+xhXOhB6EKo+Z8QyJd3u7P6QWoiYpSWSWWbcRTZIjQTKNgQPoGCRlCw3tT2IlrGFlvK2i5oOGotspU1zw1WXPoCgfkxBhK3mKtx5ixwPZXLKtY9VtTWscVjliMzcJR6tUwM3dOl+pup8w6tQ8CquKKOhF/zM/1yNpz8qXQ1M9DBlmvgJ4oGxDWKOQ0mgURXNERIbM1V0EQt5m7hSVyOe//emCgq8phMHuJH3Xagx5jTQGGPzYpJp6o4Q4g2dn1zK6qdC5tJftmfU3yoRqolQdg8UTBqDpApxjJ4za89vDT/2f+/i2UZapgvs3dSUIJREIiDpkOOU0WFKwgGy3bQh3ilqwJ3hVVTJJqR2YUsXHGYqyh2hoAII2MciisjU1BuLEVYH9XLAScLeUSyh6RTk8eTLm4OUJIfcjFDg5vCjXQ9tUD5hiRaxsbtrOo8azC9+Ei3Meok1FLh9CzvNcXq8jWx6xtU1T6xW3jb1b1xvWdXxr4vqDabOc6iQffGteLbVKSf5vnWvbeN5/+sf49a59sY/3bdL+N//n6r4WsjH4i34NgUT25EM80lt/GOV/sSrUVohQ1gSKIRwy6GdFD/HAaUHuN1gV1O3j4scMJ6mf/+6Bk3oAELELS+wwb+GtIym9gRn8T9X1D9YeAKWqf6b6wgARO+aiY2/+558vdD/UlmvfSoZ+eZSr54WGriuv/9fmjrJkjiQ7uIwI9UycxZ1wiBGvmpKcjdkrSsjbJQANYgDEQUz9LNSLDY8w4YbMlGDBToOj0vTN5AO0wIEjQwAR0EiYQoGaCKcQsBmRbRVwOSY0qwykfqMlWWiWULQhhtZt8FAb5ug6JZ5bkQuACGjBQrBV+uQ45Zpliw0rhtQ1rScCg60GfQ7EpS6zWIU7ETkbrx+cZ3Tyhh7bxpqMIaVGWvxCgttYiMflsNQ6yufaxL2wNAy1yrR27m69+ltclGF+3hnGJDSSyzLI5e/Lndf/f/8c/7jn+eWt0ljC9XysV7YLj/78srA6zL3uEm7/9oABC6xoAYolHGvw+OggAAFu2BjZfJGkOF4WWGIrmCFIYKrRY51gxJgw0Ay0umrQ5D1mjsV5ELbbOltWn7yVwWCBkryWI1OaWMsAzceXt2ZVbhEdZgVnXI7LyoPKhepncqi8qh1h6p36ztz8O0EmpblOznWFSfs61DFexT5RXGzlbpql21etUtLNV8LO/ys9qsQeA4NoOH/jrNAAQDGYbGwNEy1UrnjbJiI9GbB8SXYzW+QSCTwpUMiA4yeETz7DM7hQ02JQMHhAKg4eGGxUUJ0xqBTB4qMwAKoL/+9Bk3AAG807M7m8AAJnG+c/NYBAm1g9Ruc0SCwUwafc1MkA8wc3phHEMImKBAYY4AGQmaFrmRkGni6jFBC14CFrDorpBqwQO9beuQ2xICWuXTTiEYBRpOFkCmCEtgCtK1mXS1bzLmvKPMMWCQcZawJpLc12IBWIvvIV+NJZusNAElb9iTPYu0pnMGP5F5W6663nikYd9+FSPe/sQf+OxqLwcsV2o7NxStD1La5jK3Thd+kiHFRODBzXXZgCAYS/kRhNmVSmntVK2Uop5PUjcvsW8XcmZ+7F6mO+Vccs8O47/Hlmrq7V1hU5hS93zmGsM70vwo6TlFL/ylH////////////////////P////////////////sbhtYAADjYPC4ZhUcmuKRgot2NB0GTNFLYyLVsYIcuGZMGWjYgFAJhwKlDATalzTggQ7BV4ClBtg6JPEaFz4s4WcLebC4gy+LYT46Q2wVxMWgmywYB7wnAUQg5mWES2ZFkg5MkUIufono0D63cxLpa4dOIJEBC5sfRK0EEGTc4VjIxMVFxjIuBqwxMDY9U60zqy4RIqE8Xi4VC4QItJJsXyDp5ob6DakFuqmkam9BSCzQ0SdA0PE2T5Npf/+1v6HNCLn/FQAiY7nIVYNlRdJnKHUIAwBUiehYCAApZfM/cg6INN4J7hjYPdDS4w2sWXBUEFIoIpIfmsIcsKqSbhhBlnlhwo2ZJrvrHZO7pZ5G2BErU+GatwT+R9cBQdENvVvKzCgKBNry5XHZOqaKIIFYo+y+KL4hxO1lhbctHFXeVwuByH5L6KXpVR/rAmZlnAMeikmOFBUfmqv1OvSwmvL4CgDTetwak5N5FCOtIEiU82vxdh9evDuU87lLDshoLNiklMkqbhyzD7mLHRvX0lw4ibbUlcratPrSQxLJq/I6SHolGJ/Ogh+fjcfoo/DFW1BPGwqUTcNZxkUBEg2hqVO6/sJ06ztRmHXhe6pg2KozCvA1FUgeAKW7i+G4EhmOVJdhJXAvY///////////////7vwDTUeX//////////////+8kqjcmogAQJ7yYhER2h58t2ZACCAMnoycylUZprTruMj+0IIaB4Rz6BCc//vQZLOACg6E1v5rIAChazr/zLwAE2GPb/2FgAkyFyx/nqAEMJbASiNOBX4jwXDD9QR9He1xj9uuChMQ8Eae4g5wGfndImTVSDU2k9fJpFJs599rtjR4HWe0E9CSoaiDBbCfBU72vS539Uo5Rv2iMwKebX/sequ/7////+H////aXP/vLNue80/ze9NW9MxvmkCB+9vd7//////4W/4vydONTdVUvv7tGki8CBq2goJQlpJ7MjcBRopIuppTcEoQy52Wxh6H4WiQnpE8aDYrNjZGiwjmjFKQSYYInDY1cmZEo0NmlC2osxCzqdmggiSbHpSOHIKVnKJbDJ7kETUknz7EY/o59ur/czW4PFU66zXV8ur+YZ5+WsRrhvc8uuvt0VUXFf+2F/ftUvbxc9Mcydb2OmlsgUESfx+tWAAj3LohaA4AAOwA7iwYl59ssxoF+YzPDsPJzG6IUZlSRjqkZzymqZmzas9jzZy+81qHOxz9V/qxKa1hAgWCJJXfX6U//iIx6E/Nf2XVOZqrqG1tsJBEPRhUwKuDQtjKULClC3pYMk45rG28hpnrMaN0Z2jEzZOuvBVhFEhRipunN+Kc0NIkLPy1Vlsdtc4JkVRIUIl1BwOiiRJMiiR5GMvO9hWSGI5+dlZ/ktNxm7/aPfYJJ4s68Szr7ZvgtRd6orHg4rzPL7lonYXn//dLarle/1sz0vlxSD8ijmPy6SJ5199OIl6kcAM9TVQnzSbIRIJZ343t01uBvfFdHrzJj0gtLUC7fffr0zL2mP7eB/moWt9JdCP799UQesVGc3iEKP6eT8Nfdt1V6oi/w9Bos3kw67VtpEgaACJOCtA88PjZZaJVLvIYoQuSMrLPj0+AKwRkRTOjo+l17Dv7hFkqlrZa212pQz6Ckl67nUiPHubmwMBEgpkJ2xZNNUnCB6g2Iws81jHDM6XDLa1TSjerAj80Vv+Eq7akpf5cpE0/+iSPnA3+4GfWCP0aCxUxvsD4Tts4Hm5DuirQgbQ0Cj4e3Ws0qgagZgwIXlRyMYCEqEFnEDnOm1OhqlNmb5FO+xW6xAOmSRbmz7VCgTGf/Yr7ebxF8t/WZBWLmYlLM9akgSxCfA4q4rnNBv/7oGTdgATRaNr7CTRYRkRbH2GCXRCJXWHsMG2JDRCrvJwI1CYgBkrOT6IjtkZGno5LXozHI1BMhb6JyzhxmHbkITq5pBKN9KKLJE8dK9DUkq2H/2opssisMrimBpChWaoqnid6ks2weNtomcvJP8tVcxz04L6/ZK2yvHQ02O0vt6VhImVWKx/CyrGsNfuDubXuFUsiO2VSVDkhgInPFKCe+PMseGiAHjKp2a+a+ITEUIy4FjZzDqhyjFiJbhTECh23+dEWavncjCpeswPMpDWMOpMep+a/p06e/I62fW/1DKKqf6vSrFT09M6y1OxJDh4GDdowWQ8JpQlWHLBgzOVRJwurG0DWYQwtGKUUdkcGwPLIxcYgMYiCkaKKkjO1YYVsQhY2Lw0MqdFNqFS8nVLvlZlJNFbgiyIFjmKYYPe70uVGbWIvY7KuTJHKTG+zJcctW23Dff819yiqNr4ZL8SC19nbSBYKKO7Cf0nd8t/t8VRUj3pVhn2bkjBdqV2eE0U/DGkwsgqGENlvHkGTj5JCZ2TeupwQqKNqBTP1ZSc6XTUrfQWMDKZQQ4coI4UcGZCKAbMUD5X5FfIQh8jL1P4r8T+zMffSMdGakrS3T91gVJyYhU1tcTaMiowRMCwCDSmFER8vMYhEsiEetu6bDQxKAME6wLSoC5Js83TIEbQilEcTiUmORW+Fa//7kGT8gASmZ1b7CRzwQCIKzgXmKRGFO1XsmRKJc58qPYSJWCJN4LPFr5af1e7it1auXsS0KOsLUls3m4YUEDKlDAy94DNs+6esz6poxVkq/WcqS3Xz8nGybGDRQWPvDpqDSY0bQLNctwOMe/LFV6Ul4angjT1NIsL4ZY4SQVW8Fl4Kfl2oq1+DY9Bsklz/F82NGZQit/+RW63//R62x60fORxm6gkvTTsYqpYyyuR1dH7NJ0J6gvO8vRe//9lLUU//VUNBVO7g+UCCfCjKIK+TLskkTiBIPUnlZIBjyJSLmvl3VOxqJQlc7gI4MvYvXhMu5QQLXym52m5Ywl8ZitqU0g2iSBpiBw3N5PmIug9Q1ZNrTdi7GjiKHFeX39FIkTVYSaRR6T24lZfjbgrZY/9F0jXLuHZ+qLqz2az86S72XNOz6KCMDW73G6k1Jar2QWLrhR99oYFP1NOft0hRQIxQIe+LQWIDJbww21qXZVvjkuliD4t75FP/q7+z//neJC8oiBbCzRqnMICJouNK76Ub+927H6t6tM0ei4+VwyIt7f/7oGTcAAQ2SFR7LBtwXa0aX2RidBD5T0/sGFdpWiIqvCwU5EPtW2z+ItJkXkByaAur3JeLvZG1DNdDsYFDWEYKpzE1NtkwlytmEYUA6HVvY0oItMSSNNx9NjIQYHzmr1rNPOvdbsWHY8GTBN9iqhM7+nTD9s2UdLFAxowxG10175v/9N2YXctUnUgP8wbmh9ZhEPRLwicxah+QrynnSvekR5UrmXBBQ853h1CySQiqrELNC8vNhOQCQQwzIlnLtAAAC1jSJ6oXV+7KqUnCJilqtrsPMgESgVaFYKiig5n9w6oJISrIJUKjpKvzP/+V9qEdC2BPWpKMVC+j6FK9LK4Wzo4Nlb4lCtob0N5nT/zPyYUg3//8O7ETIjMCSciFVfqhIR+JAwKVRAprwkVbKVRIdylhncQVZe3autKixlT7Rt5KO5q/avwfaagpNbFcs8mQlA5pzJD52PP5hBRVzLpIsi75ZtW3LmEGKNIuh1dpjUUEu5QUz8ZQTEMCwzdDCwoVTDCmC1czjCvj3WC9RMx5BWq3zEBHoUSIb0FDyor+U4KHUYggdNQEQzsWyLY0QiQapF4tUftZatkYYZzuVE4o391HIoxJ+2vKLqLlx5ZEp15rOWS4mQTNkDirPK/1A0+DX+e//V5FP/r/TVVAF4uIVEaijMTFVaGEUGRQtriweUZoZwqns2EwQP/7kGTtgARSZdV7DBv6YUuqL2EiaRGtpUnMGFVhEgoo/LwY3N3S/KaSXjotYf+RRuA4iSYaIEZtdghtUlXRLN6jkdlUAVHtKrMxqMpanSN1KNEzg6inB/7UNQqkLS1SN1JpRvyyqnOn5jOVm5Ss9tBZuJhMOjiiDKWHR5rDBrE+VEf1yq7exy0FmKTcSRWEXd6qQxh0dCzyoAVptQec6paPGoUkwjRu9Vhud5DGL7uaoMMFZIAyhUDf5tJehxKkoUJCsMN6A4FTxVVFRUt1b7fosEDwKf9P9yOXf3/9H/9v//UrATVMKhtxKJuCEk2FViEiYLOuExEPESRhAgShFpK4SCGipmCFBYbeKlbsHwMGxUoprZYUoz4vMweQtFk2iWYJiQUyQ9AmjdO/Sb33TVOaMRv3X61JSioCuG0FdQEwYxINRB6rg85azEXxk5xVM+w8Kosy2Pyn5qoJCctVw0UvrPAZBAsYh+hDLCJuEB8ZbjQSCcHwlmA3NWgJVVTKsWaaRJqi8cRURaxcJET88FhOJhXIfzSK6NkFnIR850Lv0P/7oGTNAASgY1D7SSxwRyRKT2DCdxL5pT/spHGBWiJo/YeUNMcWHODxMMV3636qkzodHq5E8Y3EyRL/s56DUJWgud3Vb0osWR0JxL/rcgr+j//yCmBHmHh2NRMoEw4OBuF8DozIYYAJJR9EaGIMZbZrVKlzVWK3VfkHy12rLQZykImmV2TTCBgZqCFRRYiIpGWYiSRRA5+2J0WFFrJlXquW4OimJZIu4MAbIhLKb7lOF/k1pcwZU/1zmdOHUwRFIWuhtcH++K8s/5sX2dIEABn/rgwhBWZ1DfAKAv2Q+BjoBNsaER22lCQjR7FCKtUTrN3NOD/AgQk8mEwntkIN1mdQGIPKj3ovSpavlZ2zfy/cZkcSYegsQPmh8gTD6h0WFZXET9E7MlTJZkqMd1GJX/5b9PDeS6VMHiYiEVJRIl0zXzCjriI8oUggeeaSEIiRqDQgJaaquzBv4isKySMw9KalHTUkVj8vkUUQEu6kZLtaRCEhqacrTKJygzgZlfQAgSJ4KiWuwDp7y8c5TukziL2V5q5GbV9JTGedc1DrNqyM+7el8TYo992EXoRCtVWJiZiO+VAKrBA7/YrBUStiKSBGu7o0rZjJVDApoUc1L9wmflUfEKmINVUFQbUWdtpkpf2laHVbW9LelYKre9nPd/vp/0fxETAEBhYw1hQcVzgXlEjjES7iVCodLv/7oGTbAARaZ1B7CRzIVoeaH2XlDREZiUHsmLUhsrQoPYQWFI6NdWa6Mxf+j7DH6yP//UUiv/5DsTxJB6EjR39XHPzviNVmBpqJiFstTSdMpM3ZGShYEeNsCSzoKTDGi7SG19LVkLDHffySwXfdNuUglzQGD0aE4cIkbBNIizIM8MyTHVCskJKRIbEc0d4s3iJ0dlt7bEHYx7ySOY4SUscR6pL6Lspdcp2Yip0Mb1V09fRmssyudlK71RibmdtREc7t0yXiR0GiEH+744ILLCo7HNBHJNhVmKrCTSJDIoHQFyapqytdRQs8ZuXWv1WMiso1T2urMcI3VwX/31f5gRBxSoyOVEjOpTpoKUr9DOsS6Hz3KxikRGodS60L0JW7KZqOqKyP+ZD8zoL9BdBNS/1FGfhHBDSIeGU00kCTCAxfJKKQyGUXDgke/bZwUSCg0UWkszbIytoKdbXJe5UCDxodDyOZlxRhEBqZWBYixEQLYsOEpkytVpzjIsmuUF4zY74+PMQIlpbcPTXyEnIXnc+H9Y2tdTZJb+v//+jkX/U/NfLiZFVl/2s7axYKDigWasf1xlEYpTHLzRnwRzTVQZFbjuqbUSVBYQnJFNWbvzAOZKryNpLlyNG1YVDxYRuyYf8A1nPNlIezaFN23OtOTp/4qQXP1GDxg5HP5la5XqdmYYn4i2t/yq6Hf//7oGTiAAQxV9D7KSzaZ+zZ3z2CLBEtmTvspHGpayroPaMVzGepa1dronUrcpf+pUOCKgMniIlzRllEtwwzTkL9BeweNiY0ZcQUuXTByqJYNCFfSjaXDakQ3Js7GJijPkuqznnj5nxmE0w4OdPpGa2T+mgyvKLvWYtaeHqkbWfW2IceldXxR5XF9arTX1jGq/737f+29fVPWvz9ah6zCi7g7970j/2pE18PZK1k97ZeT/+utetdbhazjO4PgWi38vu++vNS+8T5jQYd5vimNf6tu2vJOuBBLU8yp8JNlEZyu7QY+nu+MC0o8dd0UdK04MDNda4PgE9SZIVTnKOaTR6Lzl/8t6hu3ZPDpn593+ec2NThFjeGubeeOn0mZw+TT0e9rZrieaU5vd/wf0L7/4/UUtUqHDMEln14pndGkr481iIAgABdyOtSjuEAWbTXRgdBTLSwxMIMpYkRDKx0z8dMFRgMwmXLRjKQIh8EjAGuDAYsIBhSIEgwGRBAMIg64GUJgb0iIDBisA4kF/iyAwIBECAWHBdQIkBgwgaIAUBCxwVkQRD4xJQ48LJwJKA2IGoAVuKcGMxyRPpFgHBR1CyhlxH5aIwdQ0xyRcJBxgEkOeXBahpjNjZHwRFyTHQRqjEyIaP5NjQG8OgmzEqFJZuUFnDFNZgmkZqKxoikgYk2keNyaSW5keOLPP/7wGTrgAUTZs59YeAKX6ipz6wsASIGDTf5uhBCUh5m/zOCQGybom6zMyMDFaqK1XpvTUamLma0HNVJJMt1qNkZeRY2r+/rpmiKaKZobGbGyjydFNFSX////////oHVCDKlHFs9udMlbZnkQCAAAAxoWvLSqkAUyHpijIc0Q1BhxFbMTaWcY5kgAJxBtLxvRHFsIGUl2igikXrtyl/IZeBYRn6X0qZK2Bv4iwZ+ZCyctg3VQaAGcJCyBO5nrPmhRiEcp35iE7exv1s8/59ykxi2Orm/wntWrP/3/5n/67/Od+5jvH8e9/fe//P/UstECpXZu21Xi6noyoeIiWbW5zJ4mIRAw0HMQGjixsKqZnxKBTYyodIj4kQzKx8IOghJNKHjBBhYwOCQUjA4FBxWGg4qIChaH7L1K28YEu4IM3QFPhBbBubWww6y0yG1X2ueH5Q1xTR11jpztfYaqsX8CANyeJqrfvkpmzeN2sXwWEt0q4ogpJ9IksI87LIYbMwSveqNIVIyR73sfld8bh5lEM0jLGuSCITpa9oTXC48iikBt/SOo97F4bsum4bBoxInxkkviEORSXuWxN/4uppJsmvv/A8odhgEPx+ZciPO9DK/4chutBtHQ0EoqblGFJAkvprDLKTB+43bdyWcry+ddiBoDV41aYh5sEHMUnKVrkCSijoq0/ekdSkm5NL7cOTP/hz///////////////+Xw5l9v///////////////y5Z7fagu3ysxjy4xl2XIwDAQAAXbARxFmCTCqiX5EElYLRsOeJqS8xGKo4FGUAwW9hs5IidybJgVuI9FLBe4G3w04MgADmRgYmC5kclh5ImJATguMPCGQxZaTE2X2Kwz4jAZcPXIOaEcThwigs9ROG5OSmV2dZkZEufQyLmxcInnz50r1uXB+IKPgUdZcUgVBmzN+mXk0qZumovTAhjqJ4oll//Q1MmtNNBZvkue//vgZPOACeaE035vBIDRUHn/zMgAJ2m1S72cgAKVtGo/nxAEJofQoAXATw5v//d9v/KAscnyMD5Cqim46x7NCu/////////+RQk2CtblsuiTIARRkcVQEdOMMEqmhMCyASKYo6NK+0r2hhxilAkIBUxYMEujzZhjsFSDVwYhCpQFmqoZgABLBS5lKAxsavSdONE5nAuO2yiyOD0rrCyhQqyiErBprr4MIRuam6wACHZevgswsVdahgACDhEw5GDAkTSIotSpNuSYCroFS4RsxX6vtrRbuEQ+4C6H5W0lYzSApG48YglDNM5XEPyNiD/Qy8bO2n2IHhimhxuc9F6kb7LF0PvbmXpk9R4pC5Dwue3R2XKcFMpkkSkDA1ZH9nH2ZjMR2PROYp5ZSLrop5aEvt4OSrHBCmLOXrrMTpWBqrQLEUM4BTTTkZWqolO2RFd30UkmEF0Ja23ScovymAVQUchGGYAQVBhSCNNJkCtqTZlAPu0JOREUyQVWAENXDN83UmllwqL3DRWJ0d1meIgkCYu5LrkHj3v3h4uVVGb4xgWjARhBxEgxIOQdFBk+LjDVQfwCYDTCbJ8jxAcR+QQ2GcDIoXBh8BVGsF7B2Gw5BEBukHLxBD46C15keMzc0L5cJEdQYAIgIUEfiAZeIYN0TuLjTOG7pDqNRdDAGbHeOw2b/+pL//6P//1dSQ7yRaL883qJQfST+uPySRJFodR7/9ZACsljiHar9Sh0unhVZ2dEVSEAAAwAIE6piE2CLAxTHILgGDAMMHwTFgVTDEQImBQWIgg4DzBkKSoBATA9FErCwG6MejqsUoQlx1nSIEwNlKLyyBKz6OK/qwj0uk8bJK7hFhLQoSxNKRY8Ap6sQFhM8p84nLaB85TK4GjEalgqHIfFmCcfKDVEfIkRSpGFhNY6/eYEhcjiaMD4eUPKND6R4szHjnMuP4Kr4ita9RWv1v/hm9m//Ob6JFa/Wv9bWuVVU5UmmteGdfYPhb+STeqOxozTCI6hQJRDhHRSsbAbbsS2H37ctc8SVlBBmegwxtmuCTNvTymX1X07YrRtnjTQjrQAUAAwgoAFg1MQxTC2L8jf9zcp1rSnorT39ygo0JO+TkNHP4g1HMP/3fFeT9CF2yZIAw0HY+oAGi7Q0hMKFHjiCYteX9WOKgmLMVaYztVZpogHVh/W8VS4rJI8oAdBUnsq5/7w73uklUdeYtY00fYdW6p4I3MSujW1u7ZS/6WJp7oZCkdLUZy2OTmwZzvxiO1Sh67GYOl/xS/8y8aHVfpA0qpr92qInHOJTCxE6ZiFSh6h1h3MQbsaLuYDJtJClzokvIS0OJsTKfjnijXZCUJVAsDNzYnY0+1GkwaqzjVgzDRwjWPqb+n/KUOpHh0RHa6C//ugZPQABiNqV/u4Q3JfhbsPYEamED0fXW0wb8GYoez88oqwLiqEFH9SQ6cVIwxAcVQ76kfUyH+gqJ4Ub9R2JH3Ie+Guof/VAZnKl0U3EiSnQUecByqZYYwLRsEdkJAhWMhSFTre5lzkM1izZr9ycE+hSIpNvSaaWBA+Oo8dMi2kD1d2NPerdJsNPyU4SVRiEvKVT2E4TyX+VpiqjVE1yklPpexuVqGQEerSOfKnqz0mmb7yGmRUlK3Ryx3/oKo7kNQN9TFphRmjAO91fUO0lajt3N78SSI8mI6IQ8QkC02kZBAix1muU/6QLJ2aXGUxHKvWqI7SkEuV0HYjfX3b/mQK8xyDlcUEpB9gGCIZ2mM6Dbr6lDHfQqaXZ/ggEG30N6PwTqZ//lB5Tk/7CuokEqrmnY0UTSd3MA0whNSX5mXDwOSmEZAI8oIVCEOyOLSJ1vYEaY0OnbrbxmH/dSMbjshiRbZl4uLI15EZAonHq9rV98jLdQIibKW70j8ORNPNPY3wklCysaa7IZSsyhHMpDSk7LvUQo7NKG3lYENBI4MqFgIbejgxOUvqwIVQMPCPx/flb3FN4YXyK0EAROszGhBNFKeWgpxWWIYHAXCFZjp0mSUmlpGPVznvMly9oe6ijkrWXz/Jbb//SomxBUVmOGq8UmVsU4w/wFhjwx+h/g1Vz9zTBjFRLBxQ//ugZOEABAlo2fsJFGhlrGtvYMJ1EY2jZewkVSFgoKx8yAzcXiB31HuJ8s+JVQSZZlVAAkgEq80iNDQeZNQ0gHJGcY9OBEXFjqNxVbyr4LkCpnogODYyrR80JsKQUOBhR0SKyyCVRZLLnWEmkEoJpUkir5CbbsjBIrjBpZqMp/401KGsQ1W2O4DW7sOhL9h5fu3f/z9jLUvvWzwYpC+dPBl/9uzbGBhEGiHRAB7wH8B1eizDNj4jEB/81zcnJJLclq448ECJl0pOCzqQaa6UgoKQuTh9Qjj2M+Yg0Rt7zyfhXp8POeX//9856Ye6hzFC5yEG5bKG9ahhBai9JyF7NPWkEFGUqk3uuOprsRdP8SdH5R4JTzLIaEQgGnOQfrDBYsQBmACRGM3BwwABJiAuIyCKrZQSAVSg+DcxDocBmaGZ6PsUEHpYi+cObjVYNZdaorMP1YcvrmcUxOoguBhWpAOQQb08qOMIDf4YcT1M3IzaZxv+CkM/y9bCyv0v7VKZqqfZS81rf69MjT4gpnBwK9heQoVgmhhQeuYAQEFIhGytsREbbRl3+q0glwloKBikV1XWFaLdqWpMi7np0suTWZt+KVqaNTNeZ/Di9675Ly2WRf+/MkXGHctXjy5G88GndONI6XMtn7Ynaul0Ts/mUK6vOYr/+s7/5FUCWntzNCTKbU3MzBwYdiHk//ugZO4ABExm1nsJHGpbaGrvZSNZEWmZV+ywbalso2u9gZm8IC3TFwqVWpIENGNDd8uNGdQpurKZOwaJsDuLDJMth44Vn6oqqmn415bLqxbTmex/YOv+rHVnFmHDqi5p9gxZRMwxHl0WboM4JEzc1blVTaHFJaDKZ58vOVqHioHJfsm7dIrjBgnB/F+Qw54nk8psQ99UAvLf92DFFYzMs6J/3gkGDT/ZFGkJ3Pbcf23nA7lDVQZFIpSiaeKnlFZpb6Tlc5ajYKFV7fbRpi0AwCGP8AQoR8cTmYjj0GRY7Q7DAVoKUSAJhwYhgIgwECZAYIgBjP6Y0RNwZWIRNqP0g0OzuZmZRRat5twpkGHIDnRVkVLBxKxWGiEEONuK3LGBRA1DcVKQBiNUhPpDM9PGkBu6dopH1IT2jGQWdvBi9ukHe18KxtNChsUiYaxQplECS1OBcMOoQ9UpZwE5IezxmNWLzNl/MZAtFszn/kIKu1/yIi2Z8zs8mzYs09fAW6FG9mP8GX4Q3BkCc7heGwTXR5NTQpJyXBqgsMQAeBnqJLw5FLOQoLA4xhoAUZhcTY0Xt1ouvWyPO3t6rfUd1g9tFlBsOYxgrCACi4MCUFloyumNMDBU7ZllAmeFMyISEUW7zqxJIzOFgUwwnKYKHAJ0gZd/yY+OrMZa/7jsyB0ZCMXlaIJCiuabOW4E//uQZPsABIdo1XsMHGhaRzrvYON5Eb2XUeywbeEmF2q88Ymctzg8s9ZfWr0Da2GgKtHZquWH77y7oXTxuz3OV6iEZnbC9josj0y11VU8ilmDUOVCgKMogOPQpHfXY8yKU/gmGSydXMyHFimaeLLvmTL7Gz/gwenw/GH6qjbPp4c1PBkgowaNuGtESpy3cCz54f5S3HGBbVTgyRNs0IW0TYUszEzC6GQoSzXx4hDlFCsEd0KeqlwwZBYiMjuqGdqKpTI6ixkdoNqPndP1CaMzaL+ZgQC8wqMqG007L+IYASMPFOyBhYDcExBWWiAXFNaXOMxZpTAJpu0VYnAg+oAYxISk6wNwwgDT3rxYYl0tMrCZRZCyJhO1cFJUss1FW2UcCSSrWtZKuxh5Lqkx9LZweuvnps8E4K1B17NDYEf7euZU/YlH/YvSB080jEDILA2WFy0BHqSVNNW178YBxmY9ApPOSzcaq/Yj8NKErnUYBYlbBIkamHyaev1PuP8acHq9R3VVa/iwreyrf+0Y5xzWYNvn8i1H+qrFhGTYOPlVBQGE//ugZNgABKBn0nssG/hOKNq/PCJ9EQE7TeykceF1oin9hAn8lQeD0Vga3e7mXo9ijUMJF6OeDHhr/+J1BXeGhDIEWUnbmiGhA3gvUcRohixWJDTUMk61+IQiQ26QPImoudDrrQyNqGxFq+tmg6ufkpUMTnJ8z2AZkgNDttybVn3zQJGWtkfJsQ+Trrcax8RQLk2HNjci5urvb5vWM9WruYYfx3d0BBwYDo4eJ4dEgGXYUyRe56XCUwh4q+Pb8kaA6z5hSU7VXbuNZ0HtlZckKqAQiEcHtvt2dt75qziY9TuM8zY2UTSdf/t/y/5vOBrVNsNiHIWmKEqqITYDIbo88MDSD0HibpZsEX+XMNpxZAXLFkmT1LMpkBIJSmpLQA3KWMSTmQHzAwJLYBTXyPJZ8XPUFlS6WRshhiLPRLIK7Uns/u2nkd2xezrYtjSZafsGRjGoJz0UpUBgTTiF2KQUZr+p/aeW0JV48b2zcbDEMhXscm1vNZVpKU0dquPKqLqglpW0IdqrL0H3+FlXqm30Xi0zcqKkCAxQUG1PA7ZoEBpmIAuBhrPi1ZbQHKzWrBnxubutYfrShwGka1aCgqavqU0NffR1Mrmf9nwqMJI7QEIEkxo6gYkYTBxnVRK7DJZovmr/Hn/cKVwrJPvE///gQvQ+iOJ5U3SQBam4ZkI005dvlUjEPBiSNQDJ//ugZOcABBpBUfsJHGhTZtp/YEN9D6lTQ+wYtyGgpqe9hA4UQPFqR0ISGbstIHBOmw1Wtrb/MiQgYDoAJ4D/TBRTVC0i8ZGSQbURiqLaF1qWyhhHMWY6qO4ylJSch9tpUg1f1HulwQtKG5WFcoO4QCzzgEhCiipghoJBnmbvZxmPgNBS/+D8tMVZ+KFwoRhn9HZvAX67qGJIipr+KG1zF1G3LMCTmAo8v2BAxVYdblV6n5xjGVqzTgc5hytjS6afTf+38+pcSpRyIyUEYAdMMC3EFfUrIs1NjYMCP97r85QQtaT4o6/gonQGeSHKZYIwGJ3IUzJNR2X4KxXCJDj4DMXaDevKXrLZoMDk06EUFTtZaZGJBLIfjwPB4QiNoQkxsydBOrJt2iBCWJ7UZXiYoyzTZcPLRXsjRzLo9SRFHq7dgwk3//rD/9keg52RrGuyqVmeyqhWuUnKzu72dvUf/3e5SMwNEMWzMZg4wYT1r+6q32gEVmVBiwQoj3GG47gydHGA0CjKYuIBAGkZetqzX5CxpduvvW+6yyuPBeppMf1i6CBaF5/87qCYwbp//heZz7175TQXhe92ucmzvj4+/9yppfMOK7dREq0OVrmcvtmgWH0YQF7zU/G9KDPkLHob/6tpABFp2G5IbYhvyKmhRKK25gCq7IhC9yWVEXwkLasZlDjQA06CojZn//uQZPwABAhP0vspG/hciOpvYEOLEGVLSewkUeGwKGi9gpqlW5WbUShEuvyyBbsry7zSenEIkaCNB9puMc2S04QC6RqjLUaVwUJlpzT11rq8ZnqH6eXaV6MVmL1/ksUzKs9HbbdJ653BrC54iC4BLqPIq7fVfpVdi6aDEESS7cF4QhNx2g1YA9Ow/jpq/TCg2UymiVpYPHGeRqHduoMWZlZSG7aF7Eb9/IuyfTLpXfNDjnwy2JcDCggYIHizHcoJBogX4bOOZrtwmYv+/HJEKNlXkYy/3pgp1QHiJhlciSTctwOYCqI1nDKnlwiYj0DrlkQdRvi8LTk1mmxhfNpnkAxyDyEbBBQ5BMjlCJU0npNO8lNCIC54UJGlYxqa+lSGa72CRqekM59bF4ty+elSGRA2og4CeDzIEdD7wOF6KTXG3GLu+0M+w8uT9zU8GYBx6xDkqASZyrZTZu+3f+TaXmJOpC8Ry4jhDhH+EaI4tzhZ5Hk3tHigsHQ81206aZGZhtXHczn6EKWsxyDBwIpYmstzK1yzaZm9RdT0ZypzepnA//ugZNQAA+xM0GsmFchiynovZEN9T1kpRewkcaF0n2m88o48QI1n0hf5ZpPfuQPRl7eT9FUGeIqFESRTcl7O0eHQ0SIkqOAqSqiDYGGIktaZO3RIJ6mms7PE4DYQD2JEc49CRFoWPkQlLqBoflCkhkRLmx6DsrGGEicWUccN5InMKaWIo+6xyt8+q1bx8ZtXMandw77H/SpbTMz+VEeZUTxswshPt0SLdGXjd3ex5d3u/+oIzpynZ0ysmv47dL5ihR1xC8MaIRwMwwvst5IlkyclWLz5gvnBMNDocQ2qDh5DCGGJj74pyIiGxEPiP174540eWEJshx/QjKMc7ehrlGjkX9N4u9o74eIr3VBltcUbxcnu7935sUSdh1ZUSXVUay/T6yYOAE8VLGhoCRQ8bmBCpE5GuAxCVGwKpixyZYZhUOFjeAgQHGJCpi5YYgNGzLMlHTAVXTGQ9BsUC/HMCVMOsjIALQYk9b8LxYs0q40xWJuibrsv6y5jaqbO0b6zs0CVELSsS0RTwaww+OSlKOAVQZIOvK7NOw6QP7CHzn3rddyJ6Yfvb+zMG2K0onWmSSMQw1953cy3lhlzLPV+zVpMPx779uE1yH4Iex+3adT//n////54fvuu7y31r79/jTSxic1FH/i/////////////////////5//77T52+DwABNLVUpsOLljW//uwZOqAA/BTUP1hAAhkiGpPrCABHSmROfm8AAqkn2b/M6AAa66/ttJABaEufhjrwvLFnCBY40mwKNR5r8JaiRGnAkW3VrOx+Lb1I0mSMBlWJhmWYDQhNcKB3GZ7GoPl+/pcY++1JDPHMlV+YgZrrqNaikNwQ8sBtKpaksd6eqSCK3uOw1tmCwdL3N16HKbpqnNQ0wB7K8nhvFm0By5sjpQDI99/WfMPw3/4fr+9rWNW+bucJhgZGvQlgVjhj2h8Qf//IFFtd7pmdocnZdp6NBkKhQAfuPqPI7aGzlxgyAbsBmLppfMyUGMEMzDh0IczAhMyIbIAgyEXXmVAKBizR65wCBrm4oVAl4IiphJ4qaF5GOqnUfU+spVZhkBN8WTOt1R9dZYjMoqyZK1gLRmbXEggus9lYqxNkLkrGh1k0fi8FRN4l4QPFnxZO46DhcBrcVfl3NsxWvDbaNvMO7F2gqwSdVR5Ev0c3/g1ejDWJyh7YlJpdFolHoGlsbbSWXEvH9UmXQcGRonlv2TsLgeUtmtv5XiVDDksct0pRbsb1fo4c5RxliaX6HRLhfgXCGDREXxKKeBG83WdyXt3kUHRaTQzL8rm7rgTm5HbrwdT443F+SpHhqCV6KiYiF8AlmxgZzWgeWcVh///n///////////////T7t4wJ///////////////wBDAEQHEazaAG2a5+9TpghX+mozEQrFIy1lSKBtMRYHRDfqPGEEjo0aJgZJbe4xAEwcAAeQsx1miAkAXxICWSIHHL6ZZPkAIqYqKxEBN5qGNCbIqOUO0ipInB/Hs6RMUOMcFlAbWModPkiiaFz/+9Bk1wAKSIVRfm8AANMQik/NTAAf/bNf/YwAIfKrKz+wgAEpTefM5MFwzIgxskmi5cIo5Dz583TWTAzZXQLjqLiZugeZ0EyyixpWo0QNq0z5MTJFVFqbLoppIGCVMqMtboEUTWXzeo0J/60U1/6NBTKs/dAiZIkDJNE6RcuGQ4CsTBaJtL////0FN////RUan6u7qpiWfe4oAAFlNYVNzIESGqmjyZiCESY4EaXRQbThARmJStkbP2tqvUtqOosR1WkoVsxWg+jtqTd5TJU0FAwcQYc5cEqmZo7buSqMOc4jXHabEy5teMRpYkwFUSekfTsU4S9YfGZ2lyrWpUyp1oMvakWcNRWtYZ3G4hS4yqDcJU30QsWq3a2DkvrIZTLoYqZZ0MpqW43enpdTy2H/pZqJXpXctxmrVmamdHDz9wJnDUoi1uYq00ciMOw/qmiUBSyfmnrvN7GanOO27TOoAppqaj0pnIy0mM1b0hsPhDd+bgj4rG5uMxpxpfEYeeWgiUBPrTRyN0tV9b2du3lcp6i3uS0qppNKVUxQ0yBtgaU3J/UEkNRLkqtRW5zfbxw/3dDIZzw4Vx4dickWkCgjAVCQGhkh+J7BsI4hg8KhsGhlcB4LAsAGCGZV3GaCq9/JrwPhW///////9Vr///+2+dP0V0nqCLUacUmps2OpmZam9VU2WH7X2/7u+uKp2r/8772Jba61oEEiEABIqMI6ERRd0UMglBD0hUvHDdVFBL1wHVfytKnmpLbzxZIUwbsMAuKWI4xDxLuLutt7E9qloSWceuKOSSUSIjz3lchL5upIsQyAUTaQuySz5YxqzCSUADg0kG5ipkePqf4KeP0OmOhhRuDf+jNn7uc0YvqeWdQG4b6RiR9gqJg4IphkZXHIF8Sj1S/YZ8y49Vc2bSVQAxpjGWBUiGFyBDlBD9DiSIXcNc52WTM7Iv0FzGDRWkWvVTVfjNuTum/evF4WHDuyHKj4a/9EvjHCYHmTN1J////9f9F/+rqf+3/+cf4seJQkI1B58NlHvMze/eb0Ou9kjQQ5lEMeSuQrKhsFFSqwChNwDKsfeYv2yJx1hh4WLxaPFywtqmPvZaIZipaXEB2n6VCK//uwZJoABMRs2nsJHOBhKnrPYQ2MEymrY+wwzskckiu9hB3ginYnJyzcUYnArUOQNMM/8Xq80xPSij5JIkfzJ3jZK/A+zHV/19LqZey5GF/Y/6WZ43C9/3cI9LPuf3///Lz+3T/3O7ma7ZNlo5DRo1vBxywXWIYXjBKRRf5SUf4x3IK7v9M8rxaXggBdqiVEHnI+HhUrwKvjNe5lKVMH9fj+/2QwFT01TF8KlvEkp+nsae/RCIXElxIH3O2zv//tT/7//v+/3p9365ju2cyFfWOVkkxSAQggtwrmWrDkgmKwgkNPFPZjYc63AadSw7I3ln3al0u+b3A81foOvVlPxGI4ktNI4lcSqFBHxU+ofdkKXVakiF0qcs2tK1trEsPaGhQ9ODRpXapYmOr9e7vpTTp+dS2eqcQ78L1MikFbGEOHD4y7G6gq1Y85uq6GCKmF+RdObCxOZMBIxKjzXFMjkZzqeCGlnvumdulb9hIAHBkj7Q9zCNCegZYM6QjBJiAl+cTMZJm9DSwRPbTRQ/OOawNhhYWb1Mfxa7GX+y+kYAxjuExIV/qvf////1RS3/+td/Z2t61b9D41E//lyOorlqTysNh7rzezv/IdrY0yQTNKFKTQZUqBXqFkEINMcFnQAK1EcKSinQah2aDr2lNoxK9zV8pfAXyuLPMEW+tSIcqzjWG5Llll6rv4QIhH8uJJr1PKQL8cjZRJCRIkMBkOXvqbO39Cnj9LOSHspmrSjvHY1kvuPMJy5adYaz3L4+PlI/Jite/uRcI4/zGrK2GpjLnGuTRn7vv/jGPN8CIm3+Wruurdl1OB1WCsEJq8h49tajn/+6Bk1AAE2mrXewkd0mCMut89BYkTWZdd7LDNqQ2SajmHiNiFY2GERYuQk5tIiqdh1AARQ0Sv7rf+t/RPUv+yhDRYAQeyp193pR//9On/sc/+HeJfJXm+u5lmWOJREkUANB46wBUQ2w1hmQBF6VhgiF9x0OigBaFdnS3YnXjTTR0LHgsUDJoY8jNoCfy2MlpScTlHojS5EMyTqE7aO18zUtUlDZPhG41kV1wo09lVSFPTWXgRIopLQ5BCFhnKAztBGcI4fzelzWNDoIEc5Wj+jTueuzF9XvEWrqWP5fVDH2AyLgLz5cL2TZ0s1f00ZgNgrtGUQ1an0ZEGBAYYGzgogOCexkTsL/bup7oovW+qrMaxhSdynTVlb/v5RT1nGEW6t9/q2/X/h3//Lf//2Mkzl07GfygiXLH3B3pYWwHRqUijQBlVqfQEKyViaUMRXbGWRO1Zi7I2PAzjJGQoEi7LIwmyLkQqNFURQRJGFaBnFGsCoD8ML/CeZL5nPNeKODlW6/203vmbPeX1mnG7TuvCVPLvCVYUm6UfC0NZcyncM9RuVr3Lvn3wt6eNzW95uNeJ7rbz8g61tuMdYmAasKZTN0D3pfpvb1XXUU7E2iHNQzJlZ3JHXuVpEQmGFVqEC6JQlEtIRonGVB/LmlPhLYf5zNH6sBqMHmwPcty3Wc0KWf6fw7KP/9QVjMr/+6Bk2gAEo2jUeykcckOEuk5kRm4TEZ9HzCTQiQINKT2GDOh4VBjRRIBFDIWAQRf0WCh4qwwKMrS0TwES7qwLJk/mgteTCpQZEwMHxOYSkjwGwZIklxD0cUWIWaphZZAjQN3j3rtFWaarZInkRO0fxBcLuYhQkY7rwKNio6wOVASMguO4lg1HBsXCsG/Zqa6iTpjkWS0SReeTOIU6kuAxf2z16S3mOJphaWoqn+UFEDq/qHhxqkXQ293kwog4kqrhyhAo38txZfzKo/J1hmYC1jpqlhEzfTKl+0YoGlCMR1MrEBUuHAG1Mi8xappZX2/5v/5oyeZq3VD/hQDXdEYYCqwOODhByQKJTJD8vGMje9TRGFiEMRVMRAwANBNC5OJShSQKqVFQ2D8+5TPpmpmoVHSYbGpW1A0dR9M8oOyz8nE3ja2fq4iKmnQnB5973rtanNL6buX2ccyGnIZCUPrU2J93M26fvuNtcORu52ue1kxF1s4dW+p2xTeYaxvtey4v+vZtmbnT71hvJrMSOA4nLu1IzESWU2yR9OeKMblKwpUzhmNSpBnG47L/l0Tj/tmXmfJeny7f0XFR5qHxuzN/+z+j4Ij2BS0RnT/8niP9f7/V///rTUEEYJYGQHUVYLheliulkvDE0CzAUMTCUbzJkVzFadzMPFCYIoaAyHAIDTBkfwUXoBAoHAH/+5Bk9IAEtWfRewkb8jwiuj9gwlITQZFD1YWACR+S6L6eYAQYXiGYZgCYvAiYjgogLZgJBxihEamGHRqahxe0QAhlAU2iQ5jLCHOg4Eq8fxBx3iYPL9sjLTmDiw8BDgCkBOsGb9OsZADEAB5IaLPrWgYv61RpTAo+u5lyqzzXoeQ3R2dhAAnQrHPTCmrutXtz7v2YKlbToYhhyJTqFu+mK8U25MBOLBFWkmOQ3Ryx8eyeMLnlj+xmXvREXdnZuzBD9xK3QTT6O3LopFHei0tmd17Vuk1nUi1SPzM3EaR/XBlkMRKVVpVKXNua+MW60E37lN2r1uUjxcfCP34bgWNXt4QB9JV+KtxvOFLYjAVLbtPjVjHRF////kGEFIMkHIIcUcf9vZuBwAAAxaPl7PTT5BYz/DAvcDOxezb6WJd5vTAYaLhK9oy8zRw7JEz+4b+LnAX4Xp+kv6ucoX0+a1y1JFRGSkFawNeHSpktnxlC+Qndoof/+igubMAHbXSThQeZgSYQSWO49UEQ4HA0kQMEMEHCAIqFV+3EdBqopqvqhyn/+7Bk2IAJTmdTfndkEFyE2o/MPIAVfZNXvaeAKMGD6r+wAARHILuCwOphTyme013CSK3KG6mUcqUa52NtZmJ49cGZt72VijWiwqR4FVa9e4eSR4e9Yr2729deDh5SBPitZoW5JNZ+PfO8b18+1MWpq9M5rmuv/rOcax6em8UxbWrZxrGNZzb4vneNf++vnvqU/jwLWzCl9dQsRv9R7319bly8ygVIAAGwkSSS2+cDihl/Yboq361+N67ErJlgsusO1rVljmNKrBUwX7RZaP8Rfsd+//7lgBWGRRBHftpLzfMGm0xw1gxxXYMMBfoBPYGicu2NKOssgd/WBO7YXk09abWZRKQpEqNo7OV4xP7wPHUtGS8lMwrYmNfKVITK/eYc52RxTqpZKbxJRutUreJVfD9v3nP+8ty+73QES9czNM92+ErEZ4y/fURfhwex2gv32BHrCDYK/RAK8bzHHEhxvDoGGzYSfwUoMagJlTBzDAAJIhESSO1R8AVEnCL1uAigMMNBkeITCkoEeVf3Kaeg9YTDMWCdMP/6v2//s8tAX/+C1trrL2SEotYURaBpcDgwOVvyTJU0x4SpyqrBY0Net2m79xeh3FKHk5Tlks0llIJhotYqtbiXFgSrnyEuoXXFxu7r06exFOqykD0DmzTLYtgtzT5SkxIxEOpEkpfSmiky1WRbnPhJVZ+rx1Foz/+ncFFqbLYo/MkxZHFMiKMB2mTvyOZnM3v+l/+sxrZg7GVLmhGla399m7I8pfeZmEEAGnASG6vMBLLJDS08RpdpETSynyMYyv0D0jZKkWzhl0EoolCdHEOOeCoz+Lf93+hqlf/7oGTOAATQZdT7LBzqLiCaXwXwAxQ1oU+tMNNgxhCo9GCN5JA0jYgCVa2RycQgmTcskM/MgQOFDjoDLbK1FwTKLaam0kPSR1hv+9Cz2Ur9znCfoDqxMZDxATxPM0QkOuHmop8UkyIRlkZqMCMRwwymolCKMPZIYiJcgRhWRiC1pS8elmYRfnP6SfsJ2oPesL0fW/VYzy7SONW3k6Z//xoEcaCLRGxmGP0FsHGDgRghePiFsAzfGUhOaaeAAk8CQonvQesEIMnaAiEaAzbfaLoFDTTxaeFSYFSpIZWIE9H/64A4e51Vff/+W40BlpQCYWY8OnkPXp8kIsaQ2EgJYtcIWNkhA5dUxHllJdA0BqFikV47tLYvl3jIwJ2kEjU9KOI28P6TpkVkLSutFm027ld5z6vGMdCCrC0Io0kOJr1tLY6Lkpq6HSlMqv5NmaEalx7MSMSjHjVSEDDTgEOfrG8TgH236djL2S2Hqv+XvWjIZECUApWfCIi5WuAF/Yxty1HaTeqACEQ4YYusjCxi/brl95JVdaHzKylPQuY5ss7m//7//oBRMgDMYDi7uyJb7Zm5xfSUKyjNo1iMkxcAtgIUoILVa41ouOhUlGg8sNFhCK5yGJ9QXLmio81EPbkcD6vL/y4xc2HluscXvdTlLOIOj5ykJeHpjKird1tKjECJCyh6jYj72bJZ7f/7kGTzAAR6ZlN7KRy6LcDqb2AsAxIpHU/spHVo2puofJwVhJvrLbvytn/n48pz7dPf7qH+PrJZ4rH/bHvept///qQ7Nv4pipUP/56W9iO90Ny7R//ugxAAT+2BK9rZAAj9HpZdXobwRgxjfIeq0NSPKzd9KInKZzkYh0uinkZdmYfIyI6QoeCoqN/t+pDCSzM2AJdbKlMaw4sC7xpxCWCHwOUVYCFC86czGparcXRTXL4A4HzAPbw5cW9Avk0eQ5omix5YVpKD6cNaO2bLLF7ag4fWOGxFUearbYt51kK3Lmq3BuqhR+2PMmoWaW/vtePTpCvY5k38sZP2/fPta3a+576zRlduera72Utr73MYug3qs7L3vWVOPPX+rXUIH3prKJn5lXYw6vSqDP2SIvftNsBZ41rnfxiFkfA+oqwusxXdJKYGuuFDY9CQQDSLSQVc0g1x1n6ch+K/1QIAuqnAhpylmNvtNVYEwUBwSOENzMUY0VjBoya+BDRjJjBIUwQGDoQyZEMXVjAy4x0xCCw1AoMwCo8oGYEAF/hmUZoXpv/7kGTvAAShaFJ7DDPYNsSKLw3lNxOBoUf1lYAgyASpfp4ABBgyVwUInonGoDmGZn2BGWGFt2jwJJYKICAXFqGozFQOUIFUwKBVVXQsS24z0ppxmCoqNFjVJllAUGjlB7MXZdxrbPGTw4mPEWkTy9B4A0WPoxrsza3DTouXDjYIDeWOOBP08KibptPqKaSFoVp0cKKX1oTBs28bvxxq0Ti8qoL0P0zuMUd+okhK5RU1ruvv61vCelFmzhST3IpZzh99HUVw6b9q7bEtQSAK34597vef/d3/63Yi9/K1XtS+9R8u09TF50L2sTdVW9z0m3Aa4pCLtcbMuf//////////////////+/n9j///////////////bduSzFNxIBRAAAAzGAiK7Qz/vGAUAAAAXaz6jAOojZ5D9WBqqwoKBBta1AAcTPfSoCFL61qk+iRHYOviExGPyB4IIlCEtiDtN+1mlceCaWNUjS7DY4HKxO6yaVsrfON2rtWWxnH7E5zuecJLiRRiDzvv//////2k7ri60M3ugNs9aflovLyM6rpptv/70GThAAn7hU5+b0AAeiY538zgECh6FVn5rAACTMHrvx8QSJ7nVpbQZKAMIjFpjZDjEQACNTLNavmTNhTdrDdlh6wYqeWiJgBiwxnEZZBahrgARkxEjBZzym0ZggodA6qo6oFATyDMyFaxkEHGVy8TQnEZok025jCi0CiF3EwHZXLMRVlcFOC3enSXZmClmJCDg0YVC/0DPGnbCoivVg0HujC4rIm5GYjotsrA7EN0b+tdf9s0NSaWMDacyaFu9zJYeVqkVvaSyCrEnWhtsiEp0Y9K41yVvpK6z1VoHrRSVrnUdaeyhj8QQzXLVh6miUrqU0atz+srNLnMxht5dNyKGo5EnSddOh52NsXeCXxNgaaDsr1k8hkMzAMSlcqjLuYbfdmGEkkEJzjOVJDj40siYLGK0OPTPuI6cQr///////////////8bfevK57///////////////kcpcR/4pyQO0fWV3dSaQmDcNgBAQABFA5JIUMuQzjSiXLeTx+7XKX0p04lIhxMCkFstZXMw8IWjjlKMTjp2ggwWiCORBFA0METIySJMomZVD8A00coOILpcHYMmKIbFkvpjOLJ4mBAcZgSYR8QMwIMNAuPnDxWIqjygx+//9/6Bv///7/0E0H//////Wbt//////////+gXy+qIq9yau5/rSSALxGgUh6UBAAhJ0mrAq4O6GIBZUiDUAYYxmFCMNV4ZIAeA/5Ng3kC24guPkMRjlkuGXx3izxEBkSHh64zDFMiZfHPPpF8vILOmKzZBM5oLLKRfPmi3L62WmkukpnPNROMmgYFx1qoulWfWamZfUZFwmyssqOZsik6J1M2SVLj+dME3U02QaZMix/9aGggyTaa+syMk+s2Ux2mk71KSUqp6jJM8gggcZ0XTRPF+lza2RMTL1TvprnJBMI/O3rpx8zOnMR87VkrEhAiBUXiggPyZ40dSBGYYzn/300n+c3VDZxUPAAo5IIacn/N//0Wo//nf//0PjM7oqGisKSIBhIEHZ7+b4phtcZl9RUAEwzCwAQXAIEKwEvyMFUAuO05efHiiMEvC1l9GAxaNxtu7TFL4Ov1MJFJIq1ymdpjsBQA1KXxWSx57HFj/+7BkqAAFvWjcf2YgCkTEW2/nnAAU1Z9l7hhaiPmLLTz0jKgKC7HknJjqOcKMTtFZIcepFcsYmtT8rdNRCEtOz5PN1LiYUGxDitBIUSNs5mivHkdD528Ib+2crFsim0DlR2WpS0tUTQzsCZBV2zPWokrAXxSj1FmlNFZBMSJVOLYtmkyMYvDcp5tyDwxlGsgkkRwggmxP/rzQxIQHgUD8dQsZUWXET4sWLPE4JHfzP/+v/9/9NQIuk0BAEtmGvHFDEg+BHNBoctaz4GAC9ycywzXljQysK9DWvDEeC4PxzWPFJNcBZeBk+Nzg9sjqlq4mMyUubO/fitC9uuFZtTFeY++VWQXzQUj8Lg6zEtXpAqCJpZAauoaZnPvaXzfRZrf1aLbOf/PVNX85/PO2v//zt8zCR3JU3/rImdk01X7HS/4ZyJEUh5kij+05W+nl6KeSigFjbVVTGG5rrNd5UycoetGqClSNQgcJ2exzGUBVTyNOc9ES9kiyGorW+c7tZBxfzE5z//jgUGRo/dnf87/LMl2+Wf/r/q6aLuSolQGLyahFFtpNycHTbANKrDRFhUxA4YUitcaYW7XmWzVXpl2tIy1t4QCNBYgtlpZETA6eESHylFR5ucrU1sliZYg/+mcQOUkIVM/sljFChRtxOuYWcmvlK6uc9ZGV+rCiSqEwybLj24HJdeO6lx37WP7+sZTU7W/Pd1lWsUVVNzc1A2R4ciooPFaUZ7WOUwYP/GUK/KfPk0NAFjJpUEE0ATL71Lj9WGWctyCFPhAjV0EiRcAAqOEyMLNc18Ss8JrolONDhZaDDftZ/3/4KKZX/d//v/zv///7oGTeAAThaNbjTDPgSuS7b2HnVxLpo2XsJRHhBJIsPYQJtP6+RaoDramGYzabSknNCQcoFaR/G6hcYQkFNN4mXhYJAZWmKInW14PuJ4JQkJtkwHI4JLp9y5cZLDaCppjWDpuSYJVCakdU5P0FUahKJdkU7KUVR5FkfRRyT5E9WXml78BJdEoxZSqmypdV8lcecfOcb+1921qbr7b/leHZ99/1rbXzO//nmP4OJd+19hKmV+yNLx0refzNyAXuHg4Qk2i3wFyyCqhQP45i4hC8JYAVbytjAWjuW0V/W1CTcDhwB8zqFVMfRTOMT+5b/5HghSle7NnHa3W//82BTMQ6oZlEpJzmdAGKCrLBCCYRQS8Xfg0DBXGPLUQay2resLjbyUjoNyRaJCcVhgTIWz84NTVMqZGOnSCakmlYoUKW65O0PiijXcD6Muh8sZXYyDqMpSlGD/WTpZ+zsBUYnYwIM4NSbKmVpFvqrT/U7o+v/YcLJKSrr/1eHdkgiQUCLhxvdNTHYCFBTrBiyBBiFgDXqwbmVpS03FerjlJpSMFAwQ+JZTKcdl2G+p8gOGSFDlS+XG7UXJ7lahunojuLlR7OmqMxFR1dTkAx6p0P6sj8yvQVL7Tqvu7ct/RVBnd4dTMigi3bxyOkk9RkDoQKMGAEY5YyZye6IiXitlIrtYjJ29AcUTADgOjJZv/7kGTxAASmZth7DDO6QGS6/zAjkxI5m1nsJHHpMRfrPYSVrJSYlRoESIsms0Ap5QoqKDVN9VpzovCyNEzaQPFkYXFwSTVl8M/kbBZhvRYxRF0nqtQlWXKDn385eS+q+NssUkb6/SrKrKp/TxaU72qc529W1+zvGx82HI43nqvWstzr04j/DN/3zkuBcaBrM5UGpOZqTcYxfOefqNcTeN83ThK42EWqFSzEZwTybpqpvbWE4mhIIUE8w+DSpLgqKKUpAVIuPU/6Pv6//9Tf6gGBvMwqEQkAFu7nbxLEJjThoBG0wIdABYTJMK0d2LK1INsVfppkCsujretAcJwWOPQwIwyysH0LjdPtPqyQt5UyR5o22Of6UotUB2XEA/IpJh8lhkliAxw9EajnR1MOYZm7iQe1c1DfxG46EN7x6zBQsMgQYxvwhRWeTpHBx2T5zT+wylxWI6y4yIGdnTQyyoYgn1VMYPbWhWHWYaHEAAITb/hwbM8bI3urNbdyHneh99oQq2DH/hLWt1M8mK2dXuh2N1oZ0LCPSrtdf+gxjGC8KP/7oGTVgAS7ZtV7STPKQsOK3zxGdxMFo0/sJRDhgzNp/YEePGAYocQoUcwkh6pTehZzm7fPfont///+hyN/8VNKBUaf+hnmN0M/8ccDq3YjMAAACLnN/FBhIzZcxQE0pcyAswwtdxewFAi48OSRVOA3ekyczgulCW7G1Do8yiCqGUCqDFVdZSaWg2VGHJpOJptoo70cGVtxlEiiSoiaaUYZX8sxRpCtqUV6zYyav8pHKq//6GCl1Qr9nak/TWsl2KpDblJ2qZ1aqoGBZEKCawpWgyUWCeqNI5EjAOc9IxCTdBdj8kq3rjBEqRPSGEWmUuXesWKWafeAJzcae0u2ZSEHma6Urbq6AuDUrIwiuv/Yd/QRIfKgzIc3Qq9AGQwd6KsfVBF6hY8LuX/9P/9TaXRCCRDs6oRokmO/nhCvIkIMEgIaQKDBkAQNEYwncps7gFLBwzvp1J1M/eVpMtiuMP1gSwCVbGgpRJVqJ0eBwo5NMCy3Swq5Y0xh/Ys5qcyqPMbzsvRNFdqUnqGr75KlUnHcrKzX8f+zxbT9o1/UjItXWoo74Ng/4N/CHi+a5lkr0HrXuVcV3/8Q2V+/WdSCX8TlUqaW3fAbjQm8jYwgVQEzIrWxjLwJmPSuSQEhS5YC2zVqnLTGAhaL5EzAu0FhcY9foVP/V1K389ZQttPR10HUick95+9S16khjP/7oGTfAARxaNJ7SRR4Vsc6j2DFexGJmUnsmROpYByqfPGaLZ77paJi+fI3x9uqKgKLdXRFKKNO7cCwEEwkuEgIclHgRjQxo1CtIoEWGXHHkTXVaDMsPfZ6pmFwc76ZCTT6QkhcbBA0gihbkaxuyiyFVA4lkq4mTXXbVj7UD4WaMsrI53CSfgo3C3qQy4e4VUv19pxHD0/0xP9/+Z3u53LUqg1SwY4ujEYme/CCkak+K/yGOG3qfYxmjo8qTqqj0HqSADPu7NAmVKpuBc5jOMTVWIzjWHLY3MzQ1Ox7PdD8xAouDLpZZWaP6/lK484kZw2XUhk6V+X2u/9SBkO62Pkbl/p0T9dsPDmhDNOJGDGEFZ8mP+jin46HfyMNvFas0WobQJN1bqhK3JLd+w8nQ3EvUo8OrQ5BMBsQIK0gtE09giVr/Nza6Kw/L5kQ2rEoHz0RR8N3l+NtnFlyVhufeWk1APyAJ5iyeMQq5vasozq9FXR/d3FtE03fieW4gcUd/iQLMFSKXIypEW9LdLDPvJ/5HzQqf0J2RHPXNToqv/CN30huvC/zaF/ZkPTzOkF3MymVW3j3/A+vFINYqAUo5JzQW0hCpxJlt6QUDCFEDGcRuDu0o0UMJiAkOApBcEoKW7I/+j9itaCQKoKRSqv5WVyiq57HH47MS9FWUf0qN7sxrqnrKibNSVUzef/7oGTtAASTYlJ7SRT4YAj6X2WIORFdi0vsMG/hZ5xqPYKZvHZVQwJSTkmCmwJwI6BYFRaFaEAlhAONUSQbRqrNVzzLXGmigah3I4+mS0LMOrvn16rpTnFXM3OqbrT9SjSLpVOXnLtY0ncfXOtXdXtvwuzztneuBjzcQZkh0veWsBkHxdMSN4dyC5AjQ55RPR4I7OzaeX79sdv9hJnY/csY3/i12B2E/r9+izYsHDYEk5kwxIynJqBITJxpBuaj4USByIngkbeQ2u9WFyY28b1dipkuCEjsJohHJ9DSP5vc5GdV90VVVEfolV6G0f0gwy2IiKl7MjrBFqJl0MmpLtv09DEkJwHLIntsDqgloiMyVJoGFCCLKLztOXS0qAdh5GpYtJZyvM7vM8/ckqXm3Odd2qyIoGxtMPPdwOrbSKOCaYyUgQBg6AuzXCugT8IyTOUXKai4MjVnFUtQwmWat4WTc1Pxz3Vn/pG238vL/LMjP7/5peKuO5ySEf/X03+MnOm/NbXXT7aYgVeqpoTgAZquqoIqtm8AXbVjgGMGYzBDS8xpEChAMjCSi8In939R9vI/7WsHrYScGxoxaEvZTZ+lH9q1BV2otVQo255dzCteJjGNAEhP2P8QsGkCJBeR5i/ay2UtHYGzRncqZpUiUjsU1jk9Iodi0ceSNw3IU1C1ilpVhnVejk9FrP/7kGT0AARnZdD7DBv4SGZKPxsCKxLVY0nsMM9o1otpPZSYzE31OMvUPdHGD+qL2RLPWw+kGBsaJyaQy5NclQuPOV50HseDJybP42kXxwZZg/6igyrk/rEf+E+IgWTurguPSyp5F5Q6Z19D+Yz9yYZkblBH9slTESllgANXHHfa62YNjMoiamywUw2OJzNMMj7bbMEm2t0zJ9OS1M/iFwz81UYdRJOLGOC/4saFXZ5ZFAQU1LJjuQNFABDFgUnPJBRItQQQhl+SgoMDiy6lgobbA3d7ZbIMZVdtz5wUsORQLjZArhd6JfoacIzVlVnoZt60cySu3FRaC7UoJx6S5tLFakSSRr41DanLzpTUrKkUnomY6h3buDRYoipvyGTD6cBwnyeFU3UW+XCbDopEk5Cr5FsDYjxYMVCM/LSBPNJ6hbvguYKxlh1UVa7lKBVZm6R0BBjRhImOABYzAqHY1EgWQcwidf7FhCwsJ4BFTmZJrvHHSNLKST0eZz/t+1EGmsmGdEbkmtvNYpQZMgbxxYFjEJCIABOsGz1NSHXBVhg9uf/7kGThgBSkYdJ7CR3KOcQaP2UjYxMBm0PspHPo5ggoeaYYnUGiUF60Bh2YD+PB+S7OJ3lx/xxaCGW6SVWDnkZ8qdgpEz7t5agX2vf7JutkEPXrTIP9vH3YaMLPcPXbOVmbfrWQXsczNOt9Mn52fi3OrN5tB03R5ySxN+Xo9SNuPtT7yeGSLBui+u5bwWLjUOwaYi4RjKFu8ABcIofSAEoiUJPBCF8PIDKjDrRbuO6qzBG4z5XnKPRDD2PTAe6V0iVQeFcGuJWaAEEcEMFQCgDZZU6ZSahIEzTQDxCDZiQRhigERlA1h2BDxi2Npg8Ahj+ABleNJrkTxi6ARg2D4CBgwTBEeAMxYCoMDMoTmeKD0JGgzgo2scIXmICCggYEhj1B4mbhisQh3kRnWyuVdQcbZaxEwZgx6oCAzCgX9QeR8jTsM/jKx1/qHPwt4wwIwQYKh4DliYURhqHXWXXADaKWT7jLedVDNdq8mUto1R7ZNCJnBl8bn6leWKWLqS4a+/cSuZy7tjPC9/WvxZ9ITR1LFqWOq3zD4ZftrdPDztc/Df/7wGTQAAR+QdJ9YYAKN4IqL6eYASP5mT353RACTJ+qPzUkgPP7+H4qb0eocqSx343T4ShVRoTGW0XlA7uRFoTpYf3+/////++fhL+/rDC336SxrdeWRB/tOpdnY9GopS1aWlmHf/7P/ygcAANAsmlFMBQy+KLTYXAoAkTJTCmzVk3rdBajjh2cFG4w7ZtE5XcR0EhhmRKpAI+AoRYFJETOC4xkyXUSJizRsECJwMSEEJMniIJ7BwAKCI8FJCWC1CEQnsWWLdrP1kc7Ms9Zi4RRaZw8bHqe+WiYWWy45omaIpoM//KZfKCqBMEUYxMS4b2MDf9ZoEBHcGlWo/8MKgAAAiSBBUJDFNLA4ViuDwTCkpjFIlTD1IjsMYQqHpjOGxkEAI6ARnMBZgGAxjEAojBMAgsDAOBSMBBmGMIlhw3BcMSgBUUcdKABxllBkg6tKepk1AQ2RVMECBRBkwKAvLfjZgADLGvQMwBlzIGrJdNEbkvxea/HahtWBfSdUIRzJSJEGeJ+ONed2JzEvyqtSh1w0lF6KqKXOA6FHAknlNBYdaMP+zuGFyShPhXZbtqjAFU3zlimLTqbGemaHCI0cOP47kYfiivlk0Rl+q8jERRvQHsoeKkgR8ZiCnmu01t36P85PZvr/pK1iuzd6lqM2eN4EZFQNff1836n4xEo1KNzdeimLnKnMH77O/b5TxyKQ47ECWadyC2i6KVFlPtrjkSiSrpadDqEKsf//////////////////3GVsnwt///////////////8wppPJgAAAFvyPItTk9Y9PFLcpZIEFA1c7y4xBw2zqihdNZMAIVEzfik49GEkkEElfelSGqCouCi15qKGUkCRzf3jdjssxrYNfalE2jY59zikvaQ60Uhm1Asvl1Phv6TL5qHsrMCRB3IYgdnXa8v7FItQw7TxqPWMIEikhz3azs1c+53LENXLeGrn/uG41RRiMV73//vQZO4ACmiD0/53QILarMrvzeSQGqmzX/2HgAJmMq1/nrAF5P/C5fC5mRxKQ/cq2Kavfv2M//////C5Y//ic/X7uXy6c1h//z/ww1h//z8MHjbeUQ5QupSY4UlfGvXmZ+kkcYt5TtiLUVqefz//eoEkPCsZr1solDIzMteJqaV3GggdpfEUS8yJgkpYJ+16TLSYwhccoFsYbLCOptVbmzIG7w8c7yA2kGYkNIKUw4lSb6DLccSUHM1p1UqGLhYaGSNej85kRBPi6hVCfYmmFHrBhIpkgSZhP9bfbbqamzS+Nss0d72CVZmgXxl7lWTQtPvFh2ntNuNdsrPCvEl3Nt7K9h5g1vnWnyxqA2xGTEyow606esseMoWPavYrrTQZ6Og1XLAnu/uywUo4JxwLa2I66UfHRmqHPVNteXcjc5Q75izZiMIPUZsKv+u8ruHmPXSGbRzhiMlEuT4XYXMyoPvVjuP+z6sKPOk6L4qDZGF2pqLbj3ETcy+raTUQJli8ghuAwT1Tc2JpDkYnjgpIUnD0TXpFY6B+LjZJTX12H0E30xHj6NVUZVSUVN4/+EFlkjZrz66dko2h8tqkFk3mm6nGjen3sl+50/Dkkj5LYanYjc66g2PTB487lpqCu1WyftzLqm/0thRMRUZ6YcEEuDDDERqpeZV6Apk+m7pWxVvnNd1/HCWMsBGmwu7ZB42R4KEHUC761SwOdBVFmBUEt7fl710B1iJZGJlN3mX/IzO6TzBp/Qm+6p2CEM7syvQW5xHIn3l/f+zYMjG1nI4VC1Oa6qU+73RHY2/HDq1P7Fa+FIrgbqSFd/YqqcarJIR0td7y9w0F9A0AE+Ih02IW3JjYH8NfcW95C6mXMwhyWyRJ8TX5yPNbZBfNKHSa1F0//5oL/+nV/b20bMVuQOEL1auQ0bvolEfvuYZ/7CgABzxlAw0DuK0ITBqcwDjg5RbJYid6QimbKYitUsVyLQsa/DhMZ/allfQ1NaS07HEqr5C4iriaxHe0nVsR78Uh1pHgsL2Mjtyc/8axklHOilJFBy/OH1Vxi4t6N+OXWkmpyyt5iU9x3ln///7//hX2s/BjQUwmK/UwjOk8hKg0wmRF4WRNQv/7sGSyAAQyXtt7BhTiT8V7PzwmphTppWPsPM3pf6Yr/YMV7LthvH9LGciV4PIkS0sPAyJ6mQWmJUd40CmkAbeamh74wWAKFc3av3IP901vCMztfhk70fomqnGAw0KNDmiCS5ybXQc6eQTWS9EvBGdKoWbUzjBZWUrUcyM67tMdTPb/z////9DexZuxn5jBF6jzododIhWVPI6Tp3UqcEW7mWVZEmgADJREQ8fGIQwEv+RXcfkykU8C3rAR0lYNlzO5fduuFVdR85dLhZomMB1gRkREhQW2Xg5GUIFY/OpPcy4iO8crNGssKkle+DFOp4WJ9XJFahagUUHTzhcVvVQzffY2ZsMa/7L/+DHf6Y6H/AT4MuEFQBBqikXwU1C2og4/kEYLRMvi4qMfncJdWgME6SYJ1NBDrYhkZ/RxFFBgEIhK4+EoqCoFcZTC1ZDO1e6kkXX/81zIuVMN7hyJBg7HoMuEvFaINC34sz/6+63IqLald3b1J/9Tia302yHLGm0Schg50BGIhF51BI0pMomfDg466jOUsX5iye9q29UgNr4IBpckVekNowqpx5lWLTyIVEJ7rsoJJKLeDBUFDzT5pqo8fX7trR3DCDxXN68ZqOKxlvyorlY6RR+FovGEMLPhkt/7zzvGuhzjtZt/S/3Ly/TVVM3Qp23tG1PbXiv3skr61V22+ih8/x5UjZuAoLr8hRgCPbSaCMkmigvhmn4WparABedePTRLKaWeQn+RHqKD0FIq/tpKy1/z/9mObDZGsBtFcX//f//K+3/Z5Xr7/Ue0VWJq3auWbS2xtQLkRJh4C4ZoFXmwDWiZoUSOBbrP//uQZOoABLhsVfspHNJDo0rvYGgEE1GhVewk0UkEESo8wKHYMHV4zdiECipcOZXOxLRJFxbEpibeEpGdWTX78wocZiZVdlpf2Y12H9djXWWkoa5bQIIPWyHiovdSek5biCNlYphq8xy3q03DWO/VFNWNBrL7D++eE5UakVP/K9t9d+18NM2OgpyJN+iUckyYup7Ieg9QoZcz4qq6jAGzFyXT6pJUp1TsLm2c8phSPPdwfjsV5suWNJF8NayzPVNkTKEVaSw/BDSbXWt/cqn0/9EFhiyVMcVutrN//3/5SS//t9XZ8kQOdZTqRuMtolCq2kuqI9mpJuITA6AhJDA44OgyFrKA+gZG2GrQvjASRK0QYsWLOkWJQ2GZvVOr88SzNo7iwzacuy5AyF8bGAVwShovcSBsouzhBWpnigphshIIcs8GKK+UUmsukPz2Yr9qw/XWFZ2Uq3IawpNSXPKjU2KaowYNQUWPf+ggc7REdF5sxDa2+Q1UnVUcOFY04NwXfJb9K1Kmh994eVxU0Tqc7nTSl3TijVYu7qCFCRQkCccI//ugZM0ABKpn1fsMQ+BJJLqPMEbREW2PS+wkcQkGkOp8bAikgscNg2EtYld/yP0/y3/p//2qMDGK2WIe9tYBgn19gIpPNvlCcCGKYBFIeEthhz0wY0py5G6T3xwjDqJA0dM5I7xlqRFVNps0RIwmPYVNNOE14w4kuBU044eQHc2h8peMnowaKqRUs6jrI5uxhJhrDSCx5q8k+Ns8WFhqL3MXvN3Tpy31ulUvVRFo013V8ZNLXHN4y+Y4PWv7qBOXEFqRUbjGG+yFEZWn9GAy8Zkw5TVhts3bzy5bHk3LG7mTmOM1Jt47JPtQBPPhzc/dkk9len/FNKfmH1l1COnhTgFFvg9Yg6n/T/+sQ//3/61CWvqpmVutsks2ylNIMHRAe+CDhoXMCDEBCmwySjm6q3Ykw6G6fOH4YLHxro8kIiEzJ0hPnbZUrFXEAaBlEkdQLNPjcloQUUY2aiNpWQxuK7acVaRRZZslYYJ2V6352DQNupGpEtMFQjeeAzQ8HIbu6sRn+3DZmp3P3sJbmhl7xQUBgLP+wVRwwlRcUh1Ch4TuCxwwjAKVf9LxViiSkqEYMwASqmYVyugPoRtCkBUD2XVuHEZiJ9hopYDkqjqoplixCVGerIv/6yeH6l7ndX3SC//RJTWJeDI+pYczozOHEAJr5hHghWDl40zcs88JEnA6v3nWu+j7JoyW//uQZOoABLdo0fMJRDJC5PpvYCinEqWRTeykcej4B2o8N6ScUjCKl0RQVj7LqkdEAEH8briaId85tUsbXMsVbyJqLqy9zac5Epo6Qye0IvLEqSPaYkWXuhq0uakqgyR8RFdFMtCxT9SvctHXwqtcz/HHy1/0X3HaQtfC6LwKSmO8gkuy3UVKGj1VkxbfQPtmeBw7aSJNXKmZcEBAAEigrAA8B5ifAZzBCAC2pwPovZMyhTv35tRYVc01PnGm5XMynN8Z/15epg3u/8GCM5StvUI0xJs8RBwQIFhkbFRzFboZfHyBhk8rMPzCz8bqPExqovZCcvPfj7f/0J////////yxAqTMq6lE2UkoO4FqnKJUxOQccGr2JwOWoWEcWNKXuA0melLd1hlryUOxPOkErm6k8YKC0QhSDYOo/Q9aP3HkIvkyvGR0ypjXvMsFNe6vTHqg6M9xFSxlxB3YrrQoidyqM0O6KvIZ6aT1RlO1Xj9HRJGKtUuJTlT3Q6OjUqfY5S6Dyq3Fhws6lKNHPQoi0GExcrBeQNSgRVHXi1P/YAAW//uwZNIABLVoz/MsQ+BuDRnvPEe3ErmdP+ywsUl9Jqi9h4l87OpdlHgj9vclQFmAxJmAeRwC3C0/NdRj9ORoWhqO8/w38p4by/38FVv//5dvYjtY2N9nJ+v3R/d1szFVc10YsqiZjJYpaKi7siVW6vfdJf/Bf//90TogQppoVCmQAwbkNrBoAEHrlJQqsZIOmF1p83YMao7kvUxgJ/JWzwJjRKlmCAta0tOSadsvO03j4qnKQqrdqJLkJpfIa4ZH3O5d1rILYzrufnvzpTTOhJToilo87MR3KYeg65mmO5HTmiT6naN1JyU3nP6mTZ2VvxyhFRQX0Kjjp3ER2dih5pBI+NQ1WGahAT6cl3KPQTpIzWtyCVQfsQlGn4yR92Xt6GiMX99GOkYKJqz2qk+bpt9XN/6W/h2EGABAi2yosqOZkpNlH6g2ojNRbmfcKfsBGTujf5H/1lqT/nGeC/UBN5DhloJgKnDPBCBBJSTggOEolLjVYOEYKliV1KOgp3p2rCyBiil63F/NKqROq94SG1mbgg1LrF0DGqdLwG0SiEdNCVjY1smdnjWY0ixM/ZyVSq5bdKSUCMZw4szpags5qmIwJ7zu3OrLd2aqtuh5mZfZHMXrvwu4JHM5oVZoIUGcMgMbx4I6tBB2A8Hj2DQD0T90kt4pYpJ+tyUB5F8JR1orMq8XO3B5s7FiNpqHQCgErsIVFwQJg7Kze6///0g9CwwIIjDYeKEjjSATLRkU6Rr9fLrmfThehn+hmfmkQfEwcw/IiPzxL//RiKogSGh3QiBKRblbwr0c0ZdhogVDnoHL9qKAZJdiBBraN9Kl80+hksn/+5Bk/AAEbGjP8wwsaFzsOg5hImURMYM57KRRgXGiKT2CjfRa5Ty6Bo8XwMHpIsiingEOPQWTAKBAastMo8miSTMHaSpAWa1ENsF9qdPeyVHMjm9hss+UsaICL8I44wLDsRDbsZgk8SeYQI/j3yLM08FKIwQI7JNsPPmdoEMJNb4GLQN0TQTgxZEoc6O6CC8OEfGZYTauVIMSSUmEnlN4YVIyJiTbWUB5MqNxdTNaDY5T2mc2NKq7+o6cD8JF32eldJ2yf/7/xgSsUo82/86VUqt/p/QgIwRxyfFNmVyi+lUf313xf/CAyW6eFNGkgSTAMMeOlUTwJhQyTVU8w0AiQfEI3mhhGpu1CkhJ37cJekkmK0IjXKa1G6OLU93KZVUD6c0FnAJM5IO4+d74THEAEmx0POPDpJVrVUanTMZT3n27fv6+qRNi4z979YyJuJHe4RqNOpv/tM2741CtOUt/R+1s3Ho5zjXUWUq9TviauoaMqICzsWEB57OlVeWT2WDUmpIzGKVYG6CdKEv4NgWcIy/hVM8O51IKWJtQpXOvR0v/+6Bk0gAEsmjN+yYc0FQHaf9g431R8ZM77Bi3qSQS6LzxGfSWqpb5LJ6k3QOHElh4FVBqmElB3/LPiUNWq88GmxM+A3S7l2N2k3ElAgqn2CmFQKACWlAbqPwtdho85VZ7U8IBXrLn2k7d12wz8qgGTtKf9ocoQMDshCNtQmTojQUbFi9mi3cu0j/kaHD7pqybXXdy+kyI++SaJQ/N7GcxJHTjhTDY5pYfYECx3HZBFGdRBj9odpXZ/csUCCjU8/kgnyow1pU6LUn674KJl+YZqCf8QCfsZacToITOnfiI2knAAt0B7H6MYqFxbM5yPxeGmZL5pTB8bdUaDpaCdzG629vsMfrPAsReVTsrktibwFMokEHChxrIBOJgfNB8OiZyNUZGgKchsdBGwSAFAKCligHAkGg7OFkFdhc0cwaJILDixqCNcjznsOx9jxFF3KoYewZcPhOKh0I4jycKkwMGqdKtwuncWqQOdW7i2eKeduuOWid7qOLWZi1Trv5aaiuG+Eiv2jmP1jy2exo2pLKLMac0de0X607+eUVAO93XViq3LPwBZpGJs+aZEQMhrs5a3BIwGB2A3qWSDyRmAFCcY5x1kxouW2soiQVLrf/Afv3ogF8ACUaGiJhmQ1SG2KNkoAAA/aDDocz1OJQg7ccMCDTvhk20vDIFiBswMYwRjygEHJgI8q0xEwP/+5Bk44AEtEvPewkdWiyh2k8Z5ikSsZ9B9YQAIOEFqH6wwAQTBRCiCiBWg0hQSkFjjIbBS6E4DcgYN1EiFGmdOg87WkqGEqKqaKDrEjCTg0OisvdkCxGlvBnJ6Z8RURjCfDOmWMscebgBsMUaI80csMHlruNLcmYdN/FhWoy11ZfFoddi7DE3DMXkDswX72RCGLtjecrr9uY37l6fv6q5XZVPwmnuSaO0Vui/72tdz5+Fe98zyzXzzy5dt3Kl3tS93V37vf1nZ/t/+f3PWtfrv6yv//83l2n1/1hEagQHZH/6Zv/5S0BB8W7Waa5VnK+akAAAAABIqK0yl5hBiVSMMNjSg6YFRQGQGZDpYMHBxU8uZRtYV+IBSDEhghoukhGjNTx5/mdPPKpinp4Pk7ounO2pp9L+rPb8Zn4rRt0v5y1+nCuy/b91P/uMWx+Uv9KnznKf+aE4D/8o1P/41LCIHILtIoaQnY9nrf1LL2/AaHjGw2MXoEBMswIjTWMSMyCgxwNDIgiMahcyePzEoAMyFwBEwRnQxgCwCHQgilzCUJL/+9Bk2YAHwmHK/m8gAHiE6a/M4AIndg9N+cyQCt2y6T808kDgGyrsLfmSmCRjAAoAEmpui8Wqd5YR0lhE90r3lR3T7RuaCKAs2c944IZUtBSstG1dE8uHGUamBPYwFUiYbpuo1PNm4YArYlY5EIeGdSQATr+wO2szAWaa87yG12KhpkJi5WnTssgNSmWTzoP3DzkUle5RtwfiC2kOy/CxIox6bZ2prDrav/R1KjLnSXepvJ7MsuuPMQ449tFFcjK2oU7LFrtDommQFKaWrRz0qp93JRhYp8+b32nzt6xzwxaZDdqlis1DmcTtQjD5Xbp5dGpi/LKuHfqPxOW5J/////////////////////////////////////2LksEgAUAYaMAOAUxYCuaCBkQAs1TUMmnJAwiFBYCAYoltMwABQsx4VHQzYIv2up/ygZLxJy7kseOto9xfXLHdstczQ2RbwtBvH8llI8n8AYBeh6GMyHO76zBTET2OBHsTghcBAkPI4izyirliP40IisVk7jOxwnmM6rSrHr/VNddK1C/ePPmqgVsiO29p4DE2phgyxbpJm/+Pn/9scWL////23///////////////////4npJEpf0xrcRAAcxm6JkZjhT9mirkYqEQQJAdYMHLDUzkwIjMLSDuUcOfjcwYgBigeYGaEemIjhpAWZ28GtjxgqSyVRJKEMMn4mYxQHXYq7Bd5e7NkxkqAkKVsUeItgjeuROxSt/2OYLOdxYVQdN+HFcNCWu8rjuCv5ZkjSziDBUFFfsgd9pDlue3j0tTkqmrDZS9MrWIxCGWUtPft1IfbsqdjMKnVKYssRpgKM1hjUZZmzdkimb30Mjzfplrk2HZXXMQI8lFpyLNBEqjyyFXEErXhhShtHXn6NyGuT8OuIzp54CjV5+VgJBJI/ldgOzbqvZR8lj34QxJ+6d+5yCUh2XtMmZU3j/K/iLwuo1lMOvEliOxJpC4+MPSeKyymlMq48kdgCn18sjEgz///////////////83hi9fL///////////////fiQNvIZ0FABApwCYDQxNTVUCBIAAgtubG0GQCRzyhG5cDR4LgKkCUBn6YvYgeFxg//vQZLcACh6E135vAADLqtsfzeEQFX2bb/2XgAEPES8/sGAExoAMVHAoTO5Tqo0zEGkP01aIMHjdyzF6q3ngljQbta1dw/V9VjAHVac0x1az70kqcSrLpqHVpvia0iwS16w3LcMS16muQiMPC8zWmU0W7kNuzG9W5yVwbay+W0N+ind/aqOGnxALrzkP//vq7TqvHW7+HM/y7//3//eef///n9yxSRf/m5f+X67+//9V7scl8XuSGq/lPciNPVXW5R48c/JEYO9uyqt1bbUKLp4hgJhOwWFhJloLkg1MYOULADxIJ1kw4qSWIcfrYbCRcFY5pNWrkpiYptXw3xwIaqokdkVcFnLugoMZnVTWspBWuT2u4jfG3Cetkm2GlHeIzCsRKriFvMSevlmlrZqg+2s5mtNvFqx60tnfxXULefvE+v8Y//zb///MXfxXH//YoNcZfPpvWIzXvv/MsC3//hb//////+P/8xf8xMQdYsekAE536mGffdtJL8P3ly1ksVfwGau6SyGZcZ6ZJiYSn9aa6SMJTzW69+ocnGU5vr///1mK/ZZpS6gH/u7Kv/9Pb/V//+okVpl0YxkabcSM3BOYzERYIIg4ZWhgISVcw4AUaRBTgmnBfpsDH3dd+DDSQ0zJNlCSzJXWoGWUlmlHxGSZtMQiVAnGXeqhcz4sRjKk2UU475ITfS8nZsCORXYgEYdRmmoYxWK1aGolSou5fBiUCsCOZebubZKlVi21lusv7P0P+pStLpqwbuWnHeEghNku7snsk7UmaTNcSfq0V9BB4JXtL4QeV6fJH0UcMKa2/VBWNLlsckrCIhrdSzkZNZvaisJhzKHw45vfqHhQUjQLzO//+v3ZL//9TwAbYUABIS3Bg024AhQD6NrI8hZAYkWmWgESIGgLgstdeD2EUECu2sBk303EHZdfKrSg4PgDFKYqNNLIdDI6hFJl+qml0eYqPlRjIB3USxYZI3q29hOLaB7Wt5nTTdyVCrvizWKuMJpa27Y1Hpmcz/+K1TPn7R7V9SL63H9rl2rT+96Rl3YVWn+zfFUxPRmAuq3/WMSGh5EFgAISmdWUpkFp/E20z0TIMXZASUOCEKikDneauGdOyP/7oGTHAARTZdp7CRRiTKXrjz2FTRMJo1NtJHWBABMsfJGKlKRjZkWatCLNax0ZikhW/atae4U78lU+uh7Kf/+W5L//5VUDGaqXVDbLUsmME1VgzSI4saNgwKrjigdOWGCS0iUKGWO7bUCkj1zTxx6ejcQGWT4Mj6Fc8riR0xS6WsKIbnm15NZaAnYemwGrtChGUMdzPAPntUp6lIliGsjQfYSlKEGhC50ES6BETLFYI0SrfJkUIMzYMgiY4IU6f5KG+rw+8oIakMKP//yQC+hxPeji2HAuMORCdjUuBUgF0TVAIYc2IRAEEBTdFKRDWIrdgnQuGVd2Y0Gq2wHQdJiYGR6SAsjWUt/jhvm+X3PuO1zqNJAFVRGUf7DtXd2f6Xf1f//6vRUBQ1QzIZJNJyXCqgAMYAhxFEDCAw7fCQG0TVcRG1QJPtjEDs2JTAfj6oQydGJjLb7SA7tNQoWW+2GFY64jXxRWgs1mmS3aoS9W5WX2vfd101g1pbMeBE2SadNQIq9qjutG0SJR51L/GwTIr6lIZ/EefyS3nC0mLx//2tXe15ndOqL7s3O/2UZ7vMoctHCq3/5yudHONL8mxytrTcLAIhpMyAkSAjeAdvIEFnCMNFVIh5cyXASBtF+bKhKYohOAQi4FQ6w8DSKb1UB0QoqTb91H/lv/6wM2mGUjJEMtOcA3pGJoDP/7oGTiAATkZ1j7CRz6RKPqvzxmaROFo13sMM/g3whrPDeMJBIdw9gKTa4DVBIAvKk1Klh0EjK3+TBBMyOiQYUo2/BBGgh6cOJ1FddOvqzEu2KdpzK3bILwlYrfL/iMXnl1L2kpgBlOdHUYFGEuUWsk5JBVk68mWRNdtw3/c7THqs9//471WVG97RdbS33+L+b4uPzStl87s2o8t/RhhcijcLZHWz/hOGagvkaM+uhXRAmnIYjYiYQreGFSINp2ndZcPLdiewBDoqYtR4mC4qVcv8/Ce333MFh8LG5RwlUcVzo76P5V77WIfe1bmf//+kCGYiDEwSBEUvD6ARYeEYENhjw+MIi7SCA0qBg10pFNxXLDSw4OCoXmGSIhUKKtxSRYgB4dPomECzTFpP0HPkwuKUNBUUmN09qpDpZdUnaLz6nFgYIhFhkk7KyCIbxsdey3n9nV/6c6EOmiz717fbtB2vimQTczzLsWysVKBI12zCmI77KMS8lY/OXvP7z/2pJRX/18/g/eUANNtDiIhABz8YqeThNYnEk0/YdadryBarW4s2q/CpulToIz6fKd5oPQ2I1CMNUNR1zhiqxGeM5+p08voDyv//oVBf/taZIBTc4LbLQGCOhMB1LEpQBkS5AiCL6g0NaC/C9DerygEYk9GWEgRLR2KqAwflps6LLZZteFcWs518s0af/7kGT6gATeaNX7LDPoP4NazxsIJRMNo1PsJM7hAouqPMwMpIgvYqVEg4QJIw5RxTkEwVRuBVCXaxM0ooxWxOs+Tyls4mkYLcGfCyP1P5+6VxfxGZkuaStyCmwpP+3e+SKr841n+fvWlb87c7nz/ia2OO/XjxH/eZ//NXyy8KSUAD9OyuJx1N7gUH61vEwCHVodFHW/hDqSyL8lNPEmltwfuHzGSQf3i0acyr15uCDDg5PDizTNDU6H8pRRkU/pkt/+RtSgMaW0kEglKXmWrih8eCGDEDxORJqCASxUsAEGGFF71sJVutEmcOk70PQNYmHyZU5qSrA9EucWILQrpuVBCLCqM9J9IFVNfProxK0jOxqiB5afCD8XDEzVJdqs5O8xiWs+l2Vu6dCSP1/L/uw137XLwBoKyMzpJd9nJzcKTQydOzZz+sl69uo3+IozTu00X3+ZpH9Puoxtuv5dBgBfnbEkSFOA0JqYdElBkEgmA4GxEKnEIbXEDI+DwiRuSDOQ8JoVr1quQcWeKEjoWEbzVgpBIM/b/J/5vSoBGHU1IP/7oGTegATfaFNrLDPIROSaj2DCiRNJn0mtJNFg8YtpdJSMfBCQKk3CkxpnAKYaJHrpeWYGnhothAoEwaLsOTWdlVVZjgvxMw080UC4sOtlOk6CEym/W0JMkh5Ko8bSWLtGkUdc4m7YgkKAeLTIpQieWJ3mIlyBrLNq7xCuVXRNkiIPL80ZD7kox00VfSvG/C2rbT/i95Elu4an4MXy/TQdihM1qiuRatL6dFC88HtXMbxX8JRnI3fhf8ZfKEC6ommU/ZbuAAhubxN0EqicFV33YK21CxJq7kRWplaQwp7foKUCFi2JJazSnrO5cu36M1ADEMYoyXrFBjvmg3ZayQQACnKK1HosEWmEqZZC0SYlaafJclPQmHTFUESYeLNujAoAlb9io5hVnS+pwfoK9UYsa65Q2h6VkDN3UOFluyWv4+8x7qFB9FBtQ1IDVAjAjQzBBgN9nKKULHEkQI/33Ba9/wTiN0NixLgTUxtGL6yaQKVuC5cx0N/Bz4gVzC9LzL6tGPNEXNpCgQt3cuZm4m7vx2XoqlDVa4CDosUc5AU5YlxgzfwRYdqHARIpfmV6JU7kZiQGVmt2W3f9EH3IOw0jMOBiBAQguwcKAEDhZY44r9Eop8hh/ZfoIyiGVSEGkSnbjHAENA2QngNQRUSZMJluo0aX9VAuVmDsyVpa+qVrmcArNHxthbKFz//7kGT1gATuaNH7KTRIPoSqrw8DKxGle0GssHFhQpUpvYGJ5IhEyNeL2JKjz2VjhCDRpCeFIzyym+OKqH1hWlRqHj7zI3OdaQyu7lFsVWRj+c9Xymsj2XY2OIK7MCmEu9EMKODVyh/IxIO5vROJ0FXs/2p0QkXf8dP6MUNJmbhUAKCC3MGws5ZeUPD7mMo+yTpvuyIiF10pGlpqHALJJCIUu3L3584Ip1rIPPfvupXmdn+v/QzI7MjljIhHYrWFrBksaBg4L2ijp4/B1LxOK3DryQfxP/l3gZy8SyEQSak3zDTB0jIgGK8U5uGxZko8QvACRooLFomxPkmmX4RFASbQvGrgzElzUNmutUrRl4imZ6+6ceXrvvuUabPGGCu/fEJp9Zgs1ABAxuRFcwKYNgEu+zJNijZblW/9vMYR8DFMEol4HCUQrkEEUkP3IlC0Mf4/FoThDNzDKxRwLnLusmfZt2RQrUVu4bGypBIMLWwyoXYk+57JVKwoR2pav0RQHLoW7OIyamvPZ1jstLOK37E9jqINZV5fytXlzGfRwsCKMP/7oGTXAAREYFF7KRRqW6XKL2EiaRDtTUfsMG+hpSro/YYVpDwwQEgMHWGHU4WwgokcT1HlTKOb2e/VNfyrvYifUUboQYoO3yEFXhI2iGIyABJSS0yrFFj+poPDOAICUg4pAQv0kMoI4CvJa97jvnEn4yeO1LZWyydECHAw17NxgRqEKJNllWJMw021pI2rq7D8we1KKEipA9pASxShlyixUEdRhDfa7cc6ARWFGuysarT5lUssqUer0jkN0dH7KUgnLm3VUuoxR6pBwB/emHN5qWMDEMKt0A6CrERkPAYy7KdLZGlzBaIqJLxwCxZvYbhp5653HaRiZI7r5R/8IKF9GflX0KpPn+dH0TOapHY7I8rGdujLF0Hgo6PUrCTDIuyuOmdRXiYg02p+Q8cOOQVFhyvVhfoePK2JDEBYMr3f6And/GUSEnLaaAG3Cc5CgoBOA5K6WDFtiIbHFvCS0OTzN601ptM7EqRIQaDLBUR62REY85TcakvTkJgwllmY3KemiF8CVrwYjOEcADAhYOUliQLgpsPE+HZWqpBQXRK/5YM/eiCB8ZgXuphiaD9JuVRcLExcM3H6lDiKaqFw6zUKmVAoy1OhETQbkqjkiS5Fv3APEFIooYFQFOckQlQeR2WImW+2JgIHJyFQjPQrPTr+XR5RIf4KPIAxhfTVoH4glxuiAWbs5w2nDf/7oGTfgAQcTND7CSzocop6H2EleRA1D0OsJHFhXaJovPKNvKETkT/+C9V8T9THyPs3/5sDZ2hTIjJTLtsM9ASsZGLvMZWkGQSMYMK1MI2SLYCxV14uz6bd6Iu1HwpwDAWZwaFBsq4QEsZqTjsbRNISA8RiGDTaKK6JEcJfjhUgRt9lIySOfxl3kZ2/mN+Ot4vULlA/OaXd/n3N7zzG3CvpfT7nU2ai5U6V20cGUg/0LD9QkLdCV8YpnkQiqzIhRWZOa36zHga0S4SDUAqLNEJRIIFGIgN9J7zDmn53n1pLu2pgsKOOOZ++R4jVeE5tp/611f/7f8JV/KjD7GoDZyhpUQOPsZyYaTcw7K5iXdStViHclX93zn//npDpBCQxxyiOHSNUdqbW+rVav/IesO3wCiLqVQlabel1CiQocj018UAQKBAlLjWJBGX/QqUzhSEcEyhhgJuKZqfSMx3jwSR2jpVBBcabzWTi8n0DRcimDCo5vYtLX0m87NQcleDlNjiarZTz7DVGIvZd0UPW77j5+46iJj/54psXTOJcy5+nxcdw/2Pjj/0WSMPX8nV9veAJOXioSL33bfdzs34taVUlq1F8p0IokxXBUFv2aUfLv86Il+s/liMSJQMB2iLFT7+Ikf0iJ/P/A2lMGyW5Z46FVExWVj8vTIilVPzUlrhaqxkvI3H6Wt/TS//7oGTrAAQ2SNB7CTRYdgzKP2ECj0/1P0f1hYAhwarpPrCABNaX8Ul65KbqPh6Lp/1n+fMUK+7R+wyqAAZQeoBRRTNEVtklhjEocPJuIy8GzLR1MEhshJpp9hmmQOYjARRCwMMDSYtHhiMAoxUATLYnMxI4z2VDAwTWmDjCRwaUBcp06xAcs/IDgpTNPs4CVtFwryJhuYZXjyH5ngV8O5D7lugEJXq1JD+WAo8vUsQZcsGOdkBAfkukXHf5FMu2sEjmrtizDFrr4hSTy6FTuigHxZY5MCv2xC0PATHZA+i+HcRQZWl4sVEdu76O3frUlnOpU3uQLvWO3FYdMNn6w8KYq48X0qeB7kEvvjn3X97r9/ZYe66YiYjiQ9FM12OIkMlAy9KtTeTxdv3gcBUn4fz+fb73WH73TxizL3cnKkxGLEsw+WRiISKTX2IXpG0+URRdE5baY+/f/////////////////8P/8////////////////O7L9XwAFsJsCYFZGNdW5ZKoikHFSNfdBSENMHXazMAvgvSfl4AEMCg2FQcx3Mnh5jeRixpkeC4ocxVxCoHQf4vSivZuqqPBhHMT4R5C9k3izSI216XT8Njw6J0pIxx2V8JwVTU9Uhcm1C25nbcvZGd7vcrn1XDR79KkHjatqmdQY7y94/xEmbJp9UvukGPJ5ZdZ1b7rtv/74GTngAnmhNL+cwiAwKzKj8y9ECaOE2n5vJBDsUGrvzVAAXv4d9/++52OPfdH+9Yp/////////8apT6vvUTWnDMeJmGxvmS8d+ZET//3//OXggNbz8PsvrJS3WeOtVBgQAgFOyJAaNGYP69jkR40kJXAaa0Ghhxm6GCkcyUHEQ8aeYmTOqiJg5OdQxihGWsf5BMWAoUKiYhBKcuKDZlgjg5ZJFpSh2YcpTBCSrcdTBTEvvDE/BqDivHpcOkeNq7lNliDkNIUwUdd5nFh3n/halDT2IsjZM2RlrR1ILtlcOSh/7tJRQxTS+IQxIo0/0ASyPuvCYGlb8QqTV38t+67iadWndSljWEo7DsIfqKSl4X61BsOS/OplDc/YtWYxS7pIr8xLs6S9bvWJbWmYFvX3wqyyNz8Ur08p7q3Ty+HJzkzUfuHIDyn5JH6LGkjzO5ZbgST9ePU25E9DEbl26aehl3eUMXldj///////////////3hrL///////////////99a1ubpFAOQN7tneqYdrNpXE4kiwVshl7qXNZXZhRx9azL3+gfFHYGRzOLBZeYpwZ8CBnm5LhaMcDngYEGK8OkIASBgbFE8YisjDPi7IMRaM4XCWYvtLDGrrMjQlSCGQ5hVLyQ6idGcIoQ0+akuSg7yqZkCMh+H8cwtoFw0H2ZHiZKhqalIumxkkZrQNECkaonVlc1Ol4ZwoEmyYrwzpCFMwJhI5czPmp9klGCCR9M4XDQ1LBROl0wNkZvSNkHdBjA0L6JaOm5fNDhqZm5u6BqpB0HZFzybIoqd6Sa0y4spmKklpy7Wy////2Wn////TNaJUpjcuZifSJAEcFEBqPJhVhij7hKDKhAKhso+X4TrfJP1n8aecbADi4g1SGDiaYJhDEMXpKEpXytx975Okl7Eocq1qRrBo1B6y7ycamA2kstWcddaOa7D1nWc2+9819cNYdhFZyeTja9S7Rp3//xHr//rsddcU3jPXNRf/Kyx5i11UxP+s5017HrVe1ztW6r14Oyug7i0FfdogUTVMqfJBIADJUMN40GU97gUUN1Y1Yj1NXjxquQtZE+UKAIl1VTz7NdrtQ9vV/ZXqct0rRrkpMaMiMalyJmqpimH3kQi2sZMqeeTvqppf+UyAkIXKE5pRC8jHGjGVHVyMemPGo2MrIRa5w05iC3Kj6Sneqt1f/yUma5H0bT19cv/p7IWZvAMiK5+GE5gUabEBr8mLXgActmk9i9ThsPa67MMvqwhoetFIQ6QIASRFr1apdCMx1D+3aGFOlJ9x+VuLKrkI7usIJ+BM06BUGdjiUSiHR3dLmZJnOa0yI//dwr/0NDMhjb//+hv8xvOW3qo6qi+jP6hjnR4AsTtTVbyxMgGLIkDmNX//7sGTQgATFaFt/ZWAIe4z7L+woAQ+xn2vsJFGBq7YsfYSJuLmq9aWzkvbVxiAwgNvQ6Den3g6f3/0mxvSmkzr3Vmf/+M/txxjcvV7MjMIdeGcEoC+pVMZnv9YRiCs5C8xyVeZn/81OzIP+1vNzW/195Npvyo/JbJXu4Njsh4N6oWbdy5hbtLYUU1wCzZIAzLW0JVaSa1NPJREA27JrNIbE576sPlUMRig8DAfiVQFmjKR2SvZqcpuEGk6oqVZvLU1ONUfJkEnMySSOoWpKGmmp/P8q97z8E+9DHyT3awweQoorVOQWjlO32f/L8vvElZx+ZBNqq3OzONo7t1MbLvaQxsMxjrEwBZm1AGbP2nSRqNkBrh/a1ytaa2BXElBkClg/S+lWTBDGA0kuC+xk5Wy28yvSMv18/Xjf2WE4xnfdA5j1TqKQFGiYr6njVcSIIjawbUWIhDDxMVOnzNrQWoOEGjfjczq1ieiMLNnb4iQ/Y8fU/NNIuWBWLGHicoext3Mrrts2mDJiQX9ENhq77Gi4csOi549VEpIF81MFzUTZ21k05PHhXKoQuzT11Wx7XRns6/btu4Vk61YuXrT23rDl4y9bl4zFl1dGz8MQoI9V14O11ujkBzRfR1rbdmToZlllrqvMdjp3ffiSgSN1MvoVSajQZcjdburVGPH6v1gWYwNtEDE1IUxRm02oOt7dRHl2jSBNC5xHd5KvcxGSgUMkg88LJE6561DmM2rf0qy+Km4J3eNBhiBgTyjhQEQpUEuKU08di/VNGKRjIiNIlWYl1/r33tetk+j1BqJFi4mrDX9P+9stqAafiqd57G0knlEH//ugZPkABExk2HsJLHBy64rfPGWMEcmjX+wwUcFtJmv89Ig4gdY03KJWh6blDiX2B7SAWUuU7TDaa3dkr+wQ21mnygRuMpZg48oSNn0EUkTxFqmAoGpySECSiUzkLaT1K1ZMqEMbmwzN0VtDNSPf37r8L/Lzn/3Xv2f+f+a5Fcm+NTdY1Jt1SseVQsyNE9AzH+apV6JLjxuMp1W6GNl9UAE3+PCG7kmgA50N/lY9A94QaJqAQZQe8ylRyiAUkGWtaf9/E8f/VbtnY0RSQcGvyv1KhSDud3MOOxTsDGWV5gJtiKUtXLUqTGlViN1X7J3u/mQ1f74nzu2sKnM8n/ooQVvp2Um4WiAAspNd4CqcPNmJWj4kZ/F0KDL9c5SUBZL5BQfNAiAYE0YSjSqLWkK4cWTj45HekiJzKEs4TxTX8M5leELNAMphJ+aRS2yyKkTac2Xq3vC6ztnfm2LgI1QkesgomyTQs8NGqFEJIVw04qCuhzzQvm3VB0KkSzztc9VpBW/tsjKNokgGp58F+sfIhSoaC8rBC7j3PymtHnfoioRfvt/iKv5L2XyJHMNHFCS2MxnvszKnT3U7kdqoQ9nfVE9EBj8Qcegb2b/I6HfpjjjD8BYlL+YesGWIAbohQjme2VQlIWkQQq0CNh8RTMQBQJpwFGhkFNjveoka0RbKwCwzI+zUghTpU+dc//uQZPkABDtm1fsJHTBe6ZqfYQJsEBzPTewkz0F3qGq9gJX0kTPIJwZMsvxSC6bNBVREVKuXUEAjpb9/n/GpxshgjghQpeMFW/QAHVS7pw6Vv3MjB8Mz+MeMJPOUokUUJVqPyrdxYcRVUTYVcBHjWrAIlCUUerCnMOKqYwae7JpOWiQACitDm34FozwfIOMOwlBWEJDgS6GuTS4GiZK6WvTX8idrEt/3/3G9SiKu5VGCPIgCLIVQQJSC6iVUSphqFm3ZQbgtAjsKSj7+gdZ3xIPJCW5m+caOd0M4qofFeUqO+5ydiM9r6DHSWruXurqIPsZ1TFXmYUyaiKJCOzw0Hk8iSsfRdUOMbxDio400udD0hQXXPT1QhhEYwC9GtbsuSFptLVBU8trB8sWukhMF0TDSxcuhtyR3+heck6qGarZB1W1QgBXECY6sCIeg8H3L+Rqx/Xvuqp2TtVz2a098lG4ZT355n/kW5Lb+jG/1gTKDrEuCis/ATsi2KLR3LYqYZlXTuTcLiScTnak1f2TQaUm03yz3MqrXXu78DPvMVNVb//ugZNUABCA7UvsJHNB3zLpvPEW7UX2dReywb4mvs2l9gIpgkB91aPV+WRxsncNfL6phgoADZ1FgpSiGsVAQUNRK37qjaGTRz1+lTt0VWkcrb1Jo8roftqqtdUMw9L4o78EVurlZRqoOFxJg1rVwFJtnY17kkaWBV5Du1QxAAICGFmEgBlANw1R5AAIrYXAQURQZKXDVglL/odFBIpUnJfSUGHI2+iFD6rHUsw32pSWK9eWUlWnlD+WaGN4yunxsWNyujyz5mURwQcDDi2fieO48DCXEZ+SH5vnDkbOvWfvXJiytu0Qtyy5D9af5/ll2ocy7PJWHmP0YJy6ntHwWVbo2pXKcmpTskB4gBBEZoq+SJAAlGYIMsUADnbc9Rt0ghO57LcrI5ST6Rc9rYxvARv4UGsmlNf9+qhgVoZ1irUHPPo5LqB0toFna9T0O8M634aw76WRW7dL40SQWTBgSHJgUzG81ObGBxhckHGwiZEHJiwFoXAoNAIRLyMPgAwcK03DFBBDiyZIAYFEhggUAojGlUaYeEhbASHK4E4FlZq0pWmCRsFiKBBqYQBCirBYRDS7n/VKoK9uDdXFbEmE3dQFYrGkiXtdp/s31h2xErtLexFWRIJFhPql1R8nkWOqzUSzc2teVUmYdtlYtKQIwqdG2Zblsbc6uZnnkGsG2YV6N7as06a+PTUiG//ugZM4ABOFoVfsjN0hJ5apvJCO1GFGLS64YfGDtiSq89gzs2kC4LmGIYJJjaQLiRAGDVWWX8s21gPdC5IbziGKGBm5864Vj+1YL5GGAyPV0/47QKfsLDmdG/2Spbypj/5Z98uGmaTsRS3w6oGmkCTu1jt6FZAgFRIpbOIHYuY0Q1Yts2BaJAFT5fVXcSZ0ye11jTfFQM1dtI0Lr7mjZo1BURWQUalEmGGkjwWahJKzU0ENcYUclyI3D03GInIkdjvZJZpsmGDTW2c/+fdz5OKjG3/72fzJxaJAKTYvnpI4vsmcs7/FZiJHPv5Zcpcqqmc5dd35nwoKz8qh/3VoZ2OnnY49fb/4W8gAGzE6p5rr9gREMV7zSUBWvpuBH2+UNK9bfFUzlJGvpv0Q1f10hXh9G/fNbvv/q/v2/+1gRmuIEFm+2rvFSkx3pNyEyXzALFzEAIWHfgSLIQHZe0v1EljPfljAUQYPEaXVNzGtdmmkVY9vhD5SRqLHkDmUbhsegWUR5NubVU9dN1t2TJ4SG09ljkiVKtQsI8Zo/1H7+h6VF1ntUmqz/CCuoI3zqVTJ7bI6l7ljoJIxIlQsL/jlqRBkYXyOKNR2RopDQtQ5mRwSUWoAqwsGUXfzbgBMhNYI0rF2FE5aiIbjQe76/EwnPgM1ApcA4joEgt/O/s/1VkBOcjAFF/9ZLwcdC//ugZM8ABONn1OtMNJgz4yqPYeIfEq2XU+ykV2ivBOp8xBgsxdmQgiCTJOEIKdQoEhoFGPdDDNx4CqqwVn+OXsfAABT5LIZ+a4oFWMdDdoWnxDFJsjBKbmt06PrL2hQsasqoIcbGjKijF6EoRdYiLs5tZSJ9KFMyj6100hch029pYZNF5Zii/NBsCfEQMNfpD9MiBjQM3iXcIL6BBbgPxJ6i1YCwjL0CqkM4A6t124BBF/8aEaTNwjb5iNfCcADqfqS1P9OXWy3HdbG9j0eZnDBga0/63nv/7tMAiTswYI/Za5OSmSbjx1kZkCdglMPDslCEwC7jT3IWy6TUpB7ZiQwEqssVHexYcxNmKmz7ri9yE1LneEl6a1+madjKumkkLROKQKPgvlcWYvFkGS+GFdy0bV3orHfI/ZW9u71WH0rskqv8ajiRjTulu9ECl/5k/mVWfsn+b+5T9kXIabx6D9inTHnsVzspA1R4nCBRSdlI9TAAVjIACPCkSQ2jze6EOzkh8UQ4LzF/tQ5hM8lxMgBPb+LhwaBmAwEJGPoogFnlqmrVqpIk0/pECvWf//RD6nA1qppEafVtJULmQAQaqDKI0YBgYwoFawsBBwRCa87N1MhIcrEsR2rkZjLQ2tEwaP04SHzsV1EILqbhTEC6FiplV8HIMEtFkcHyiYyMY3P0hCjG15zKmD89//uQZPkABHVm1HtJHFozRKp/YMI3EwmjS+wwzyD5DWf9gI3c5apmToXRJ+F0SXzJNaZLOHDYv5K7/G3pWQrrzPLjf//41HgsYdzwRWseDBlEf7Fhc0fGUBH6W1NZrrG3Cy0A54rAWk4oOx/VM1pw3+WFHNdOrdV6oiHt9LJ+OvqzdGYkoyjwyl4ZZAY4ALYUe+tmp39Op3/6wz64AyeJgiS6tJEtcR5XbEoJDGNg9aRoPrMYMsOrEwEtlDT9tiu8qOc+SQdaVUfdCkAGSVfqzJxyKBGhNoCdlU6SEi4JC6UalMljee4lH6VFIhXuZul10Noqr5I6A+jqv08oDBBMGjWs7/5cMWLCPIh+jVHP6NB7/i/Rj7ZW9QDTUoHZT6QA29uiGPnXUSl9gw+c5FK3AxVgQBCMEwP9RRzcsCFm6AbH5QwYGUau0u77oyfJ0PPdnRAEUEI7mDSnjRznGGGCbCRlHTuIa5H9P2vZ0/Iv1nNNQULO0f+TkEV6iTNfbpUlQgwfFsA1oMVATIklECAJkqDrUZIvhiL7uctpeUgJg8Ed//uQZOsABGBo0ftJHMhEhJpPIwc3EGDxQ+wkcyliJWi88RXcOM+uu5A0Kpa6mnKtNksPmlQdPLXbtVM8eUNSslHEGUdThWDRYgFm8p2ommfXO2fPKOUObIbdvYw0qH77u2RT+qnmKe98R1MO2X9XvfeyW7Hv7hmyLZH3HsYlMQaUgeVN7VerCJwoOZprLSpm73v100JABeXkTjzOxEw5FFKIN/ltOP43vZI8vvo9KCyA3BshRY3al+rgwR3a3/q6u5o4Y7MkOqpiDmGeHFkCnAC4PgcHQ6XD5B9Wo9+oCAqamGPvrM+9pKIQYKQOJ8WDiK1Q93cnVRbLNuqbWCaIRQiNDIUcz02OhEDCRkcXzHSgHF4l7mXBIGkoYKgYAFMxEfLjg7MBREFi5kbUNIamSBGtdmoCJBmfJBDRJFmpiQJtVJgW15HdRaWr6a1MNJIQivXVghbi02vPlBagYNASuHXPWIvdg6sb7L3m464zfUvIk7FNTNcfhkkpvXm73a9aTvPIphtYqyyddiGIBi66V4N3jycjNfo43jF4flciuQzY//vQZNOABNZoUn1lYAhbpio/pggBJuoTUfm9EgNMsyn/M5JAeikZ22z6y+LtPrzWnqbWC4O1EqavjBlJGqWFQFlGqeegOUWM5HQWLVJUnMXfl9SxUllW5KpqZjEt1TTEIs3rMtnIxZlFeOOJqV/YYZHsKShYm1aOuO+7cGmN/NxtrjiUj/5S/Ck5////////////////WqUuN7///////////////xoYfk+YIJqGVuPNNjLWvp1KQJCAOD9P+GEY2H/yTeQXwvkL4DTVICVz3DEHQMcF12CLeAS7T0BoKXUPe153DS8MgRg9hrbv2o49UrrKxw8je0JXb/PZx4Ii0NtXUvs7lLE5106KdqUlSNV7uO7GcNOPHKq9Idjktcp+JdLIthnlQU/cvpMcO1+25BWlMxG6skr5Z2Kv93nf1zK1hjv+YYYdtXbX56/Dfbv6z7z/w/vO50nMt8/mXNf/9/f/+8+a//ww/De/t65rXe/XkH/38LlX//MnHf/YUmIKianLmJl2V5c7XYbVIWh5KZw0ZcILBTWE2qmxVGMGHFKhBwwaAysEIdFGAzQwzJEz3kDPwaKeVQQSDQgE0AAzJKBIo2GEFGgUgIDCCJcaHbUOIXo9idaYLzqYMxh9hpKEtRYVt1cNs2q8U5JAqRpKKjYmJLIe0ug6LN3MjjZ6R5HnS1lrMXPryuYa/K5BDseepkCXFMwlZs47zrw5KoDfylpZBPOnC+Tb/1H7hVE6kRqOrS6f2LYx+UO9ZpI1LXcgizAUOrnYY9WUAQ61uI24rEozSTj9wVLX9ktSZtWLbXZ+bo41K41ADVXPstGflpEskLW0F2mRm1I7D4u7EPqOwzutQ0zpP7fndYYV4/3K5LI7S7+Csl6Riev///////////////9mtrHn///////////////lzLC9QByvNvEiuIqvXniqWiCAwZrhrJY5NXvG/WTeUUEAJ8FDhQB8l1mlEBajQLBAAogXLBs4T5QJ0uGIAygYEB9QceIkVSIHBwGSKjqBExJQmAm0pDOFony+bm084joP4QoXSJdzzGpLKMioOIgIIgHeTBkWB6Gkblo3IoalgiCCBkTSJQN2Ny6VjUgZBv/7wGTigAnPhNr+ayQAtKzbX8zIghKRpW39lYAJKhLvP56gBGH4tGBqMuxfev1pZo+pTN25ktP1ev9aGg/+pvqP+t/9VswS+rO////+gkeJhlZTUjUaKGcggIQnKDFqhGCYg8eMIFgJKEiPClAF/NOtVFwPGgyJ43j+IqTR1kzslXZ15JtSElySYD6cKkySbOk6udPJHiRK6b1KOOmndr3E1PCJGPGy5gk9sG1n+INtrHPq3ftddaLZTdcV/f3zNXx//3z/tj9tNb//Hxde7Rbf/8TDaVg98rbK0Wbpr1MK/YoFmunaqWtmkjcz81dXYlYbopMdpM4xiYHOOZ+PgYEEJgtDMRAhtj/mK9F6O2v57No+Y8wjIpKQko85CrMKv0SOBur/7P9X+r9OeqoDZ7hlRBJibaRNLwuYBpU1GxKHTQWCbEjmEOCYUqWOumBHYa258N12lkIMvTIVb0dORQGo9pW/imlhcQE+on6zWsKphpR684ZM6Mi4kLiFttYm67Z/UK6cH7CKqaz6mktlV9AQGi8HBCoqnoDCiZ0lY/P8sy2+WMc818MKYUCeIH2H4aYdeiSLOYgYepqGD8qAZny5oolRpK2YXtZAqpgKYrjQQpoHBUqdvJ3G6E5Oijk+FlqPyW/l8M9mMBIEHrRU6cVLOhvypBiMdzfhvyX//8722YadOr8kCU9O7KSRoJuTB4B9ZyiFgK2lXLXRQ4OoCQFQSlzdFBIYYO/yi8Dsmj0YFK8w2Og0NjKAkFaFiSacmb5ddXSSHjCmGOb3JmtZiEuPhh/okCE8EEgpdBS59BGxnCWMSjxM7s22bkSkpvqSHz+KXqReX7fDO5c/qMfQTiVYEarhV/DGKLNQcOEPAwX4nQEBWal0Y2drDW4HzuY4z3BqGyhiqfqQuUswD2yA/Dek0zdS3zg7+SkLHB0gZ1E9SSzaNBANjSLj13rLP/W7/Rnv8iidF3EruSoD//ugZNcABIFP2HsJHHBIxLsfYMNkEYWjX+wkcQEeDaw8J6ScmpuHZlkikknDjJTEo2jwYFpFDy+KqJdhFgKrX6pk1tqDO4BiMRjzTgKAyNrjYUWWSVRszOoSNnW4JtCs2KBUSunJcd229u7h+huZ2QgJyInFKrRCdYNJMx8n0ldO77Sg31Ik6wrsLraaTzIyjCSYlrnva6WupWI9ef/i+e4b/+5/VhlwJVX/kzg2CTRhvOIt545aH5BYkYwAaHV1MEACDU3P1x1osbGiB2k/iMLiLawKl+jXEKTqqIYiimG+0lkK/Jv0I+gYG0dGnEDw8C/5xP9/89/f/s/r//8QgsxEMpoiTSbk4IhDhzJCCJg0RmxVEUTRgbuNBufBbPWDNM23GnoZK/GMASrixJA/1eGBthjXtcaPwxhpmiCPWJUmIZzxFDrKopxb6aSKWLTvqpFneOoUkQkTikwirViak1pNQ3JcszD9bGbjULhim6D70S6z/YpnsZdmZQ1Wy85D4RYECFE4UFQ4648DWDhftEdcCtHwQ5LATvHU6QjjRV4EmdaPKiNdwnwXgBuhB6DRGz7NxlEyDYzU9VxvN0+mx4ZXKS2YpqBd11wt/T/rWxzvR/rqBGeKdTIkki5JxFAmMCplOxYlLYhAZABQVxo8GMCyNeoADSmabTKWwTAMgQt8FRMZXU0eLLCp//uQZPOABMhoWHsJRHhDJFqvPGJ5EwmdW+ykdajvjWu89I2cAzHPBgtYZNMajR5HWVFHiSk0bSeazUHdEGJXWJqmUkxh2p1hatJJfa7AQ9JMkVYBhgoqUL3lI/DH6ujUFd2lX/7upkt2MvPTa29vPdp9f9ttZVbohbJPKH+rXv/lArSUXR2+tZuUAtauwqhhIlOgSPa3YkUYIuD5gXyf7RFntyyZEBETTSUEsMw/pNWfTQIgMeJjPIA07cWAgbAKENk/rzmzRp7fKAiS7KZmJQJak5p5hzSDwOEQPdEFcgIJA0RipSqarWUFYszZ4U5rDtS6KBSYhCiyi7RWJyYhDjnBmIRYcltJZ2PbDpZKKJJd03rbFVChukKexq4xjJKKyoxa9ZttsNbzDL0yIVhCjzP2MPCo1FVftUgf+J/WGCn4I9D/+54MIzNgmVRwg/mww4qwPPgVwhQKLgItEBPgIDMypGyGai5LwhObcQEYTRCLAx8zN+FkzA+LaILye6+LMMBMwprux3Mvl9U1R3KzaFBMiEUmLb9SuDOpqjUTlwc2//ugZNmABN9o1XspNChAA0qPPMNnErGjT+ykceEkGOq8wwksNWRuS6j/8hUBiGZGQgBBBcvA7iHwKLcsVcUUXGHFv6DCS4YKDkD6Ikz7Ol6XHelbPQONmzyBRTyQEwqXanTjasz4wCb2cGkmrDCmNIaYkfKUyRKMiTvTRa7pDQq2zSJmTfRICAsKAQ9MY37sfyDUgeKv4oiL/4/wK+UiR8Gx//4UwYx+GBM1NcYIy+KEoLEfHISWHQxODGUUEEAq/1u7sqakv3HvSJNowjPBQBJiWsDJeEws6lmUuvDpTbbeDrw4eRCcUOyf/23uX/RS5PBN4eTn/WBHjhHIwCATvy4mqFAqFsF2yudZU+eXBzkUgdS7qhqLZKb35n8ITgcan4XZMMQSuLBqqAYg3xhgMJUsbrHmbvI6MUlFweOEoBSdtgbNiIhYXZUhqJdmDkupTRxEUgTPTKssUlsLVRLwJ15oSkiLZqS1NaA2S8NjjCjJrApFFT363ruoEf0QWAoLG6EGBwmYNRmBT3AWYGgr4KG+DfzrOLaynBGitN4NXeCvl0BRMs6KxOJO30bgRJ1yo3JHk5FlcFCZp1NDe+jamhM7hB6tcnyXYjSphBzC18zpbEVh+vfv5VvKHnTNs6Fog5aSBXf8VrFJlJucSMclq0pd4/tHP/5pb4diIr/W5QSad2djJxJx38sL//ugZO8ABJVoUnspHFhSh1q/PCOnEilDSeykcalwoCm88ZpsGwAyRYCfCumRBAqFWM8WFBQF5MmYAoq/6Kxc5/KJg7xxeWxVJAo4fOrvCiyj7ZIT1LCFWGvIhSIrM7Cm0OLxS2GvCqCcwN0GcGeVHNwMEKitmLa/kTGeV0fMpzPjLmcLTzP+l9vo/ojAwfomDHCX/7R63HlIkZCebYCJVDgWsv8mofV27cD85+KwbDsDvUwNSsxKCqWWwlQdWgAsGQaj2LENlpZ6HRqORlGGVkEnpa6y0vU9/fzPoKCAowPVYiZRU7RzVMYWaYRcOo00HIWO/EgPNMyGQmiACr4JEiB02BgtM+ZCodQcPIpgwZE5Aa6YWFjk7AytgNFBNGxWZaHsch8JywfhORL1ylfaZXL34z6Ial7ubRDpicJnP1oOQtBEr5ETPebf3btF+Nrxmb30vedv2deO8dr8+Z/d3jALyVGf5Gf/MKbeTMYdT2mgTBGKAiad/mJmeYCvemLyzIqp5Fl0okQmiAmaBRw5jPqTHYIMEmhooqFwdcayywhBEtO+rlnatxKHQh3efbNjG2VJq01/6EVkKQBMdwiMJeJVQ59W+fupjHXX8iC4mGuzH/yO+AoBiHdEFCSRbctARx1FkU6EIyaAFBJcQECMMGCvcFRH0ZUrUrlvVXNeeSOyaV0zp1mxxGrL//uQZPiABD5VUnsJHMhUJoqfYYVnEdFVQeywz2FIH2h9kwl1pXgyF3rNLYYTaZJlIp8M4H6QJvQOGTckpIInINZTUDMsmiV7mpeo0TGEJqeTZ7d9vJAUFTDDCRC/l5nmbsvsRn9Lcor0/ewOegtU61N/Em5iPf7b4PhMtOuGzyP9nZ9tAG+1MgMRQTUtEzJ7Nwy/BjkDy4EXplzJWtwa7SDTaLPsxlGBwhdyqiIZS0Y6rczN/6f+IGURPCYuLPoNnfuXFPjlEJR8jChXD7Ef0WiCw0MSaYcJPEu2eWeBZipd1IpIlbtyotDQquCgRICPwldd7oFlCRiXqhr3L4aEyWGoecfBxGcBQPKIlD4eEgHE0ROimP0SozILEokRkhA2QxOLCbV/iF0sqENVXuozOH0vD+AgmYBxStUgU3pD6spExGMevr4bV8ApY7D5JFBjOHQR9k8+28pGv92Kof+O1Yv9P4pC/1Hkm4Y00CX+xcKbRyTXgSbcW5QDuAcgnQCUnMR8nyvNlEJ+JhjbMnUhUR1LbqVN7sf/1d05k7vjgn0W//ugZNiABKFS0HspHcpZJ9ovYSVlEc2HSewkcaEJkyn88YnclgakNsRcNeocHTy77gW5podDVhN234CGI5CIsSbHJWWhUYOWSECoqFbD13DoCjj+QE58fk0peCIR1627tNmZczaHZFjUSXxTy5ajVOE2HDMOklSET6eLsNRbtjh7C8477VQ4256BXWt32oJ9mLjuocyKNzEsvmXFbXff7ybdmdpbczddr25B9/8XHLx06J9sr5//ZyUYolgbYK8bkwB5uphDZJN/gCFSmiWvkUzgkiyJyXtOuzlNFfLjjK1qq9kVhRRCf2IiK09+Wqcpf/yHTzXuFsWp00RcSz2aegIq5l2VE1bWt2AS5foYYBXBwGKqFrANYXLHCR4BGaVo1Oy968GQVo/ArlU76yx3ZRFYtWhhTWfgd3mJTjEWlRkQgZDSJCyzmsSNNaegjNy2EtlCMZZDIbrcIdcZUaLKJpdq3JSae2szJTpKLV2IlWMdbL2yBFqJrOnFpTpI2D4YgvpGGHcvBHBG98AqwM4twyeKBu9D1Ci1ksiicJjwPoVTRJCP09q1GWvtBR0AQMPbnVf7pNOCnZg7Q9UziSkLMS1acowet8JtT+0F27p4ZDTld3/Imp6GQ6LYXINDGkr0kBaozIRxea2o0/KVzKx9Mx2HtehsDxf3y1h9N48rVNZtIsTy0D6zKJEr//uQZOyAFIBV0fspNUg/RFo/PSN1Ej1NR+ykdyDeCCl8LCQtjlF7CqFcl02hxMk1iKomNVDxuGw1aqahFipaZ6Ywcaj12rDDDKTVdqj3JvyKIDFty/8cofs8Nn5LP/OL923/hDecU2JIfL7MgisHyjmiIhbRNu3biwF994ZUNlRUACbQBXpkqmashCIaDoeRAmW+PmH3DNB2ceDwImAcforJE9IBEIN3FaQx1gsVNTCmtckstwhSKwRrdf42yleZYKVRfASCEApMCly2ZMVezizYmzBpQgODcBodySBqiPQ7nCMOGOKjZpQYpj+5g7kGpywnkO5UvSPKG6O1tlydqH5c1Gbpd6KjlHqOuDroRdW5rofqRHDNO31X7Wexbef1vRdoWkxnLPbcPY/Uld0Tqv7eyrVc/4uHxHEaqEbGNUir5r2WqgoTx4CvsRUwR8uLgAdlTI440iHTyctdRRymZYmUIAMkXdMsNEkIhJa2dt/XtKgyXtlU5rtBpoLm3mSK4TKlSSPdFoEfsQADAEglUHU1YqnEtDbFaPigIQuAAoFZ//ugZN6ABKhY0fsMM+oy4aofGwwVE5GXRfWVgCkFiWh+sMAEjyWIGAk4ERRDQaEMyjEkwyBAzRIQwyAcMCQgAQyKEYwEAAweDIwpEUAgEUBsGHQwLpmWgbJS0i/poBCEQ3GiFQRHGcXES8kgUkAtDACMYYDKJhiMlciahaNhBcCXu+zd6mCGOGAh1Dk8gcMjqEavorbA1JKpGiO0yWaXYqR90OwcM3BIyQNqkQyVr9Vw37SsZMDBAwAumw+fZc3f1AaRrMqp8L07H6l2Pyuq8ClgQPGnIf+XO4BgV+Lhf90UBNA8t3u+3be+4VKmCYb96jdyMReJOoxOebu3FgLZnJZLSw9juV97ruX/v9///7uJ1uvfZW78ua2y9120qz6xH4k0pd1yYZr1fjtaS5U0zKUQIMNgjILMGUZPAqTERYAC8INHZsI21ODrPQgHmjVFNYIxyhAGaKpyfHMoawiEWiuTgsaY9EPAPACvRHhXJBE6ZpkgTpXTJs6bnzAmGMynJgkETRZfIoRQYYXCCwDAEHlwrnzc8bstOggfJskCoam800U7VNz6lHet0H/3/UkpX//6nTb6mzZQAICgK4A5E4NKlRRbbcKrJgyUxx86ZgiOx0+UoMC8ykDoyxH4IBEyBBIwiD4wRCcIJQFBeAgrMZwUKgZmCYEGBgYD3RNiZ4juFUszhDDMZSnE//vQZP6ACR5mUf53JACH6bpvzMyAKBYTVfnckgOoQeo/NUBATJ0zgEhIoOu8YPeB5YwmCYtKBIAGg4QwwSYYDCOMr5eLdFglWPy4zD0tGCF2C6Djcqs4ZM9EqwtO89jaPpazijK1Y4S/7/ZPw/cC3KdnbEXFZ1ahyzA7jJeNMe6dgey/8AQ7BkLwuXaWGXnsNziGcYtbgBljWIpeghrD8fFo5D3xqH4heqUkuynfzyhVfPlIseF3Ycj8nh5hkCJ0UUK1K9SKN0trG1ep92r9PA9TUs3L5y7u9E4vD8rjCP7D2DymjhxY7vuuXgVgwpnc///////////////////O3hyWf//////////////+Dxqbz8gAAEAZHoXlGJY91ToMKsAhFQICOlsDL66csBEw38Do4CEI5MdMClQnGDQpgix9OYDTiwMwKBECG8AoFDwgYkEGQwcTAXBCcR0D2YCzzJFOMoG2h+AzgvhOYssOjMhnzxGEVGSFzEkN0QCEFx3DgHeKo+ZkyePEVJs1SIiOYikOWOWMmWSeOIG5TLjmR8wN0k1MxMEEQLj9V25cZNmWtNZUJgiBOFMnxyyJqpNWie9E3NyMKiZicNDMn03uuo0TUv//pkQJsnzAiizUyJwtsmRc3N3IYek2buRQ0IuQdInzP////6bt///+fNXVBFS6fveXlbiIm5uM5rDSbSeArWhPM1EFYDfDMxhKMMETHDY0teOEMTDjUw8UMQKjUzM0UxMoGDEyIISMUUZJApihxaYwTA9UtOTAGIEgMA4hlnC2oiDHBxH4ZQyVj7t8rG6TM1YFnhgb5pw2Eq4ZXNRP4zFOlWKKwaWWzaC8jT3iiTpvqqxmbw2GlsmeZ4o2ztPZJ5rrntKrQBJHjlrZnek9RpThl1IYooEljY3WijY4LiMumVqPLPvfIIDgprMLo+2ZVNbh6njkkh9+nJps2lUcsabAcZrxSZ3IbNeJT2Mbs0M/YqS2XV61ukLfsAQ4rmRrLATA0AjJWmoEB0tYjA1aZuK26W1EIDgpsLjSGKac2K2Kenb2A5uBnxfZljLbMuycKcQGQ9BVP///////////////y2mrVcP////////////////70GSigApLhNp+byQAys6a78xEEBIZo3H9hYAJXbRuP7AgBPKxewvAYCCQ7zCQEOCYEiCUgEAAZtha4e4e+sujytTLmR2I+FwhDUlaaBwtDF8CtBVE8LnHMIOPQ4xxkiQIEBDQTMR4XjY4WzAkSkYl4nBkB/Ko+yqOIxTMCcdTrRUiWzA0WSpdIGOWHEpEeLscZNkVGdnC2rjvHKJIx0iuMoSJu6LugaoomRqZH1zJKikkyb6fL6X/tk+XG6JBzyEmCfzN5M62WZvUkbnDqCnTHCiWSdHMGVFxCbSLDnECMBc3rL7mDfk2PX///+PsS//lzNozZt5Cr7pbIkXXHVTQyY8jSJKyWA6DXVBUADjKAv2ydAC/wD4UypO0jYdS6KZQ8EU1jqGW5rmHk2EolGxo5xq40m1r/3msolDiak2djmnW3B1jpbNy27hk13DZptVPz3LdrZuKqviJ1ejVyNmzkl2/Zr//X/9dctln9xP87PmKm+9urn587KTaNW8N2StktzWocb/zCtfEoQAnY/Ws/uxrbkvoNHT/uL1YnlybGYCBpYq7DdrhH0HGIqJ//1Sq2feR9nBqYDMoQEHa3UepqFyGM9NXS3zbnapX/b+R//z//qTkhm////HVtjfMuLhf85GijkEVa/AJYNmhoNDGmBj0AElkzxK7TFhqOtkZYz2VvygBIKoVaifC6SoMkyoJLozUii1QHyJFhw9JQ5P2yszr6UthUhWe3lyhPq1cHQimsoxnooi2yezisKVa2UjvoffZ7PSrGp6PM3X1No9b0KVS5CDggXMzqFVDAuGqBJsDTuZyaRpmW2GnzhQAAYeUe9JWjx5hzEBcz6YPeUz3x4xtruhniYHFcxzulBN7Ohv/1KxtzSOVPUomIB5QVhAWKPo50VnaeyINI9Fq7uYWFIzZEohjCO1xGO/Mb/8VH0BeEX1Yo6qlXyjTUKJDWHUFCuoqKC4ZanKl0O2RtpkGwZt0ZyA/J3AFKuxhSTyxyiDJV7MvglrsIEUOg7M6OeIUQdiUiukMThO7y0+WFSSe6/p89K2FHBX4F7L6dSurSArSqt18+n9OTfrTMVZbNsrMrNpRFy0eZWIZ5nZGWrUyP2T/+7Bks4AEUWXaewkUYnCs2z9h5Q9RTVlj7DBPyZazbHzwlem/dRIpodlCC4pAawJVlD6Du76K+uCgrY//hQTd/LXRhkX+NBqLy1JHiq+4awAgo1kjNDAW4FoEiPdzYUYnx0f1wWSQX//J+upWUjFkYYDiAfDoNQQVzPRw64ihTsHAQEHBY5XojmGh0THrTrRi8xlKt56f//VH0/qX6k8z6P6B4yYiKjVzM4mHQglelRylDo7xUbDMF8FYtsABo5hhaCRnbypINeZkuSaa/DL5HlwliyshdEJA0imJXSL3lIFlnRidQLYxLKr9Du0MNrKwNsqrpFl1ehTiw32RVQoXtl6MIMoHARy62hlYal4oyI6Rd8y/hU9usYnyvS1nMmzZtVMvcE9JVEmjK2RBYfiQhkpAhWgYncRCvNRVIQL9ttAE6zhVSlUHWvptns1KpndsaPX2RH79/XnDZ2B8LAhG44gvCgVGpT9Keo1aQHvQeWybOq3b/zPyJTq8U5HL/gMkdIorWCoaALiv/13f/xC6l2M4vKVR+/uwoMNRUgUXGybCF3g4Nb6X6Eovu2ZmbGaq0GEQbEXshx5YBf1laKqgdIiE5cnxXXpo4WjWqzSfniXeKQshax62sibSsZM4bBp7S1e3HbWzTb8rS9VsTKrxyIs212bafHLXbaeU++tXPl1v5l9h+cJ/6XZAx+K5YdY8GSlA3dIpBw1VZIRpCRKMdsRMdBF/FpQSvWC8UA4BoBi4mA4ebwhVO699X82v2//VqsRzaouqGKJdR1Cr1TRlIpjHIu/0ZWY2iPnf0cxmzTroUm5ks7OzVn5f6hm///J1DP/7oGTlAASBZ9XzKRxiWGd67zzjfBC9m1fMpHNBcLOqfYYI2EVTJ5x1MzhKQRKLXEQLQAoQGiuCEDNsHLA0NMUAiKwO+8LIWtNiP1BNBYsq2AXEAf4FI5HbBREBs02Jnkmo4IdooPjo/MoGfsWV/IqWwlpkahdXnoWXG6zaz8pWzGXTkZRi9FBOd9Wuhq1ZKXStd9ES3Vq7Tr72Rrle1AUz5iOwPVUoKRleV2FJhhaa2Kw7GXEgSxCTbcokXsBtZmlCtklsP/K3EZa30olc1NP+7sF7ocx75vhQv5jSv//8q6LjB4kLMo5VK1nvfY89Q0RRmR0OYR/GuqinRzZ0F12eyCKrK+5l8469rtHKVvZXxB3b/2MTo4derHKw1DM3h2MQZnqyWtxm4jKwBBbuPEYDSqA8WIVSnC6jDYUxlpcWetrlIOIXjqS8TOC8JFhT1o4JkIek0RGRCgRsZVPksI2MVQNqHdRBxMMwqEyTS0CAQq68IFxFDWWXzm4R/Q4bxIZczlnM+6QkshFTLL4xkXC+Gfsxl4s2ng8CLFZHghYqo2NTb/csHaim8y6KIEExtuGV4DNiEMFJyOrCYvLllv2Da/ab/15P//2HUNEgwouVwUfzMxVUspRKiMqqUomw509XPXK3MZuRld9F1eZ2chjXysWyysqemccL6GK3SsbuAwn3M3Rg6MV2A//7oGTygARfZtN7LBPwa60aj2DlhhFdoUvMpHFBgLQqPMGViJl0QSJLJSUNVWcpvSo6Ik9YaA3CgeBQbBS5zL+prU0RZiUBWWEZ2eoZiWrcTVb8ED2Sc2MGTmjuqW9X5e9dqpd0usnKt55AXqnMFNgFwSPDyfIt6u/Ca2sWp6kee2WdWfcEQ0L/c5ZGL7/eGf09HLb5P6XhBFCCwdrK3iWP6GFgD4wcMAAeDALeTZgiOuXImIVGm1ttTi8NWPSwrT72AZJKiHXsaHDkvdLsQi9Akj6rVf+27ioiOUQc7ff/mocCqw4xCMyAYAJCBAJ46qJRopjkJMjAn1FK9DufyN3IitV9E/u/7vt/9kV/xp2K/UolxzpXcBpFQpm2dSBplNRw6jSTewZuEumh7LSxbbpigExsGUuY9TSGsy6SxN4UHA4Jsl4pwCi0VURGoVXaRYQjrWbE+hHjikMuKrBRaEKk5zmotNdOrknsoNmGecEU1yiTDtLWRGK/qp20UlLL6CSaKZoG+Tqm5mX+KlqrDxbcehwoKngpXbmZXHZUxtJFN3VU4lKk8xIrHA4LEhJN5PhQkApoQxBGZXHYBxi+SROmn68IXibL0itNrftPZq/W4i6Cv1fvHw5WGqD39kX//apCOXlXQSRQTcdPhQdmwFZnQCchCZugQFuSCFjamKwVWB4FbZ2Ym/0SH//7kGT0AAReZdJ7TBvgasxqX2CijFDNo0vsJFGBBgbpOJwwUGcEBlplMBkAOScSB6JZnoWAabIxOiEh1QPCNFqVXNCh6uIpMDrJFuancmlUXogb9ScZ9MP/aTNlrarOM1Hv8aKKvzqs7GdE7DGZZRqJJszyg1Lz93orqav//3O6Xz4oMvI5c1VVwIDrOV1hPnsqGObiZn9YLO3t2higEIY4McXWcHKBwA5jZxVDAIQZpyhAiao5DBcWYVOuEr3vJhLhvvqWl7lshl/LYq1R67Y89LPzz4nlQ1kog+W578l/50lB2emMjRTLk2Aqi2yYp2mRViBHJgAwNdKNzAi/6u3oa6yNxIXFpBA8leWMy0lQBZhE2EoPI2CQhYYv0uyPY4hOPfFyQpEahIfELckorLl62saclCo02Fqc2Zzq+4dqPcKOZPGqj/9KSL/+Rvs2U/7ReMw/JrO2asvStmJxipa/zNiQZcsSj/ux/LzLvls5HP3Sb8v0VZxXM//WJEx1LozAFNNUPXCITzb6FGi2YyUkbOYRuZOOGYe5mdhZkYfqif/7oGTTAATlaNF7CTRgSaE6TwcPBRNVo0XsJNMBCxKofPCamJXNh3P8L+yf4Xw+WprBk2AUBwxod2qGg+ufo//ufTImmWRSFAlRu4QXDEtOKogzsSB83cDngQ4YFhtRSpgLtMoZ1SzUNPCu2AoAb+KW7svlIUDBE0JkmmaWeeiEoHAxmFotJxEsTywagY87U5QRUJBoZHLeXc4OovPX7OpV/K5G8dWFHbw6L5PO7nS8mM5KXe6GObicMDjSfvTDfaWPoGz96wILr+DA1/P4dXYb8Z2TuqERVYIV1+VO1aSDI2/qGNZekQJLnTLW7Lw4nPa3iLIgh06RLKHlvX6v+n/uv/0cZKkWYQYZVw8odDocsICI0NJD7DhQWHsNDwsxJxotKZh/OR1dPuV7XFxAsQS7/8vkWGHl6hAFBJy38vaZyREhIebwOVxp0fwMBSCgLTAEFXLvRlbxu+Ppbu202oQkiElPV8SFRJu7aJYd4bFINUA1y65hcrrTlxcrGvjarT0bm+tg7aW+QNAI+r6yvdUutXIOwl2IRFI4bL1YmId20LcM4l3co0h2ChtDEERRRwfUERh7i3fK6owJz9eFeH5cBo55kZDqERMidkAvk/a6sMgiVNm98GVmBtecmUzFPRffpSowH37v5f9llVvX/k+iiwg4N0cPV+YyC1mQ6MFfGaeXEt+p7z/9sf/7oGTkAASCaNB7Bh1QYgkaL2DFZhG1iUPsME/Bkyho/YEaNAN/eo/M7zq1tX0v9yHCiyB0xnM3/gbqdCL1BLD6JCZ8ZiEGiC6tiRCTDThBIfHLya0ZfQvwVBoFL5hajTc42xBE4IhVANFAaTagiigpGgeMpJpCNIREbTC6c7kRWtBzAxYUIUR6wQryvkTTqMh+TUpHJZnRghZKMLBhQhDv5uv+f5//7f8+d4INiIpBkuuhhDhEz/an//wSI8hmaAkJjVMykCsEGS4ZmwN1llAERQmcS17NirvdJ70plCIaV7y09f0qn+v9v15oJSCg4TSA5JflMW2uJKGULh++h8cMv7hSQCBAk1P8BQH5wV8PwRnx/3GMlSZuFUiQJDbeAs0WCaJtCGuQng5aLIMGjsnki809ha5YqvOGKLThP6IjjAlTCqoRcIETZklMGUKscXYOB8SDyyOoOUHdySzym1CpfEvde/k55UFuUb+Zsv4dmGUMoVgZ7R1B+mILrOgro7o1+gi+f5V3XufVPW/1t/tCOQNCEicHoe/HEiWGooyp+zv4cYbCg5/247CdKRtiBJ9F/Z3QDEWSMLaGwSndhOpxQThndX6ER9AErvb2/6s/XfUn+3Wpw7KGBHVqykcmQcSA9wARoZ05SxUriU6WEuJqcbUSOHiVQSJBTTcCOoVmN5fUMAjyBZF+BP/7oGTkgAQBXU/7CRvQVKqqDzyjfhINoUHsJHHhMR6o/BwILIKCVoyLrBUZ06YCzam1eWUruIxYKgQRhOT5MnTOkokxD0GQ1JDC2cXZTu06EoDusfB4zCjBB0FExSggxChaIAAgmKcMRXa7Nh1O6RzLyVKmfF1ZL1q8OUgjTU63Px4Z2GWWRQjDhFedc9cOHc5zQQRVydPCaBsHK7zWZGskkUANxAmUeB8MzMhpbCRmwdrvELWmSOpqJPoSQiwYmhwWFiqTaELDQmaBsj1/uoo9WUJnibllNIhHLbxnQxY40JUmRrECAy5Q47TRqKlLdV9p8uZUgHKMA0RFh4zD98wth/uwGlthf+HDw4Xr377BOdNLpz9fec2+Wsso0xG3d9vabdteqz7t5Vhy7DFLYsWv82zeGqq8be1X6/dqiwSK7a7kvtawnffX9izX83ImFkTma3Rjr6/f5u+VDxx5ZQwOFDxITmdFRU70hMbsVKWOx3JDhABARCxF5+IhMZYbOy/8Zy0AAAijvdSxliKmXM9f7lY2d4nC8GCAVjzFcZj1HkXwkkSKGqyt1pexYjB5HL33/97vfQu0i590HbvQv8VzxXpNlClTaFi4urwkEInu7///CJX9O/li4uKCiu7lj6q0RPQsPCDJGChld/+5ANA/inGDgVh+er8h2AucHAKADn6DRd2MILBWAv/7oGT+gARoZs57CRxCOIH6Pw3jJxZ1o0P1hgAKRrPn/p6AAeH7wtlgrEf4DgBQIIcBZ2eHmqh5mWZXkzLRCAIAAMuQwsHimEAjwwcFAyQFREAhJkoRJAqMDQeCAwwINMJPACUGNjYkTFUGgCNIwHhhhQaMBtxwCVpEmEkABUdiok0x1OBVRPBMsGBQ6KTGVkFwAIFAARdC0Is7sbgwtGAABjiIknQAIqpRFUiiE2iwckeK9MMmeN/qyfa+EJbB3nUhEHwljYHHcR43Xwg2ka4usABFyOGqpFo26EEVIagpyJPAMStuXaeBsr9r+cWJuor+B2DpIPfJtOpH49Bkouv7PSm3D97OT4Sh3KRGtnjWHnUDWe7DL33S8ZTjMO7HcnazppM7chsZWa05Txen1ehzlt7I2mGJEHpU3RNnoAWHLlltwcAFgECkANVBk7iMrlz7sggl3ZXAkAInwBC2aX6W3Sd///////////////2zCEChu0+l7//////////////9Rakul0ngziFfMrapcZHTiDgBAACAMmSchusiuYJUmOAlqgwRaaGudMIBODpUAsUVQCAOYOMKTPTULhJjABOCgYEHFuJMUHBFCcYQOLsXen88r/zzqrfVtbg0tXUfjcPuXcYm1xrkve+tIIhtxohAU5jK+W4s7EYs1q0chqESmAnfichhh4Xek//74GTsAAqqhNV+b0SBB3CKj81skCAFtWn9zAAh+5isf7SQAE7A7ru5WjO8o1ju5UqTNq9+P0ufb1uT5Wcf/LmN7lvvOY1u2Lfd2O8/3bjc9JrHdTXNWN4Z1MM8qGxcuzcqfHnJLS362E9cqbymL9iU7u0+NepNTl2MawtUnd39S2/bpOXcdfne////////////////+3Vu53v//////////////+i3T5PGbObs0/+0IABlRVG+IMboFhg0JmGD0DSKAm+ZeSQsFAoDjGxAMnBQySYTEoqMNCwwIJTFovMEAhWRRgCzR6Az13ghCxEaJYXAMgFLFb0ySIcITDHQuvFXVQ8Yqj+soxEWU1xYRAI2WPF5VDg4ihl1u+DcVh0L3PYJGV9ruTBh5gc/AT+RaHGRtzbpSuO67XL1SWXfl92Wd1P1M79mnvXuXOVojhWnbEss87ZxpuZ1bdnle7+61XGYq2bNrVzVWrVxsUtPP2sqlvVrKl7hjLtbzmuf+OuW5bVpr31t44S63rHLlqtMzta1hy5e+3jTY0VLVzltLhZk16pf/+8/l6x0z6LzbdkvjkJAlbW6eOGqhGLXs3VmMMRMMFJo4sgMUqMUNNW1Khg0i4BNDoGBOTNlxWImEHScUEi4wJBQEbwHFQYSG4T/68Up/+6ljrj+uooejMKDer0SVZGIT80Q4JxRGSnogY2bgLefPmam2JvXJRZ82iSv+rmr/7tBaK7cmgJFhkMxBAWyMVo4iwQfLULyRcBElxQ5hGxX5ME5RUBdhp7kzjSXgp5RBm3/spnSgkG2hiiRGfQxc+cGyKKrKYqb1Vmj+N0lOUrRdzjysWCETLMsolKQELoU+C/Rp4lW9XPUWoEyFy8kkVtSl/1LFUNqV8JkEjlzh6uKvKn+W8rfIZWbzGzMmNbEnRjjjilDHAsekwexLIPAW28yYZDdGlSnpu4kkAFVKYu8ng4jJVbpE5LA5NGINp7yGHHdcq6NyCIoHhMpn8v1X/zGM3iTDAm6iLxYciIexGlYRJnuJQy9Bl/6Pkt/+r5L99QLEXLqiCk0UiqWFppheCYaUBfF1TE9AEYBsEECYKUSZ2zJg1xoMPPtUfKQW7XNYgk94eOHqu6vcRbAlRF4srot+KzOkLKj9JRy4Ek09sKo3K4tHyyPZqKLNjclvf8tG7lzWwd63/NlstV7XUrb1LL1rR/rZpr0ekKJL1OcB/KVUEugY7KWcXGMMhwsEvIyoRXusstnxaPQfwkJM1w+0JOwqw+VAyssNHNZdSQ8YIpjtOIGkI4jkSRrf9372//yJogWQUtWFqZkVkPEnCgiQYkMwsZBKqzDUld2ckqozVb+dv5sz//zfhmQxW5yG7iYYcG3DY0F2Gh3RCKSBSnAkAyGZf/7oGT2AAS6Z9jzKSzwU6WbnxsFKxFdmWfsJFPpn7KuPPOJ/SCGafBulUoQCgdLZADQkLFrMOUFViUWZLBkxRC46KI7CWnfhOWUwi0ZvCsagetGZp1Pypiq9BVo/PHoSwh2cXuJ7NQ81KFr+epHR9UalRGteK3ZpxMrVoP+bhv5i14m7uVquY9W6/m/2j3FV+alkY5Y5jfJEx/PFBze5I4X8pp/DI8VNrggAW9lFU1CSCTPp5nH7EqCFJqhJkh1/XjlElWZPQQtIYfjq6Q1jNsg+P2lSIqVVLKTb/+33LtzyMwHAO3Ljw8ew6jRlkVy5hIShJKjYRyI8Ojk4ycS5cces92zjUNqdk5S36r///+Rb9RqR6scebNLWTR4FNU7mgEgUSpeRnG3GwjKlSHCQfoiaJDRsWQUOZ4gawB0qNfToxVpDjRrBUgKiklIUTF7ELpwvMS5IodciIVsNwmga1gPltbaURToY5HuYaclvVqq2WXTdFr752bKcUm2eb3Hymav83q5pu54d1F7lZ/n8XW/7Fafk7LetvP5xqos7bVvSivWpGMUcQ/58fm12X2LZIInXqXI7UZZdkTt1I0dQRgTbHkiRlCqSihxbX6GrMYXYuQeKl5z/3/t+ZFKZxE5DldUcIqHR2LFiCsRIuV2cPSjtsxjeUtnM7fR/Z87fqKv/+/W76NSA3h3U//7oGT6AASeZVh7LERacex6/2EnWVKFm1vsJNFpV6YsvGeU5DEUSQVNwnqIY20rBXMMCQAGaiujEulEFbcvYms6nbg7T+MpdMmYVHB8yTUNhYwFZUHlRFOJI0gD0jM4KYmfZZRH0BKISJgRR+vw9tIV0TNJbXrHzvaklLLlPGfUaYwU8YdxFupm5njMRcZSw0mhZo+4iKajUJo5xp9jtoMKmQhWJQcEhfixRJ+QVEm9HGzxFgWKvcRGNJpSa+1Yy3BYGhaE/OoL0kAFcBHAYCj0KrICMKgZFK5GLqZ2tUpWO8s45zbbf1836gXcf1Y4ieiRaX0vMSZp+rwomk1mxWeN7av/f/PdWo9Azyrnf/5H/35EO/fYhBAgpvmRlGlDGUCuwDgbA05QggsAhWRAlsO2yIVBOE766QBg8Ol4ooEsRKNko6ZLYYQ3ODQIExlGStefXUOFGIILBsgSmiWjZMsSrWjmikbjG1VHvmkNpuDYaBVGK5Yfb3mWr1Etq01zDxrf8VGv63Nf3ffxK/39TF+NGl1iEPgqrv5eYE3DULUNr/xp1jAGdqnlUONqXfbnMviz/KqAp0egiEwFTVZ1yYGlWAogY5aobYa7qn8yMIxhxM/9L/2aDt5bQhHasSOzlLLX+/BqWxySZZEpJSnztvZu7t2JfiEDuXjZ+v5vKVEf/6n/+yoDWpdhE//7oGT1AASgaFV7CSx4Xsf67zymbxJBnVGtJQ9pfiOrvYKZ9DIBTVvFN0ZTBDd4MieQGhIoAadlKEL2I9Pq1eWTzYSyoFRODkpnRYJ9Ts8S4UsVmp01VCb16k2hthonZpXuW1fPEbd4G+ZpZbRxbA58qsf3DiWBoKiDcFrhO5kRuJXUoZ599CMeIoqcgvXxZDhj+LYXs5ZCamvTaSkGypFfPhlHz5ZuolWbzorqgJJu4QxZCIuW/PGWXNXE52WBVLsILl5neh2M03yndJR5dy/3gpJZGoasbVMnf8/ADjrLKQ4fy3V/PV+Skr/myd82NcYUid8Rpc8nCAPGjhykp/5VZFlQXopVqrh1AczwWQxv/////wr/DQ01tYAABJTvMZyN6WNsqJmYYVVuBwpnJdoFBBUEg6leX7IQTE3fbm6cHTE9PceD8GTzJhUYkqys3zaLZuEEebNEjSndplGmSsFm1Uhp1zN4jryhmsSmhPasqEZerZDSlMDUUVLJkNC1cznRC/3zb0OFk2U56APhyIYvIsvVA+CUyAXCAmEgRg9RhoA6MDchQ3UIZxQIuZaIhiTblvwgunx2iwC5rRuMho64kBAcwiOizCUl0frXT5qfDv692n1D7VNvOk32JDweEoUKOO8MPyMDgMZnQRuKMmxRlj4Exu4P+3/4eJgrCgJQi/zdB3ukSIIASv/7oGT1gARyYVP7LBv6aeuKj2ECrRJ9l0etJHNpXqBqvPYNJE4t0ckJmgLUNIdQAvURNpVgIIGgAohZ6KIYC2rfwttXtjEvkEhlziFklOgiL6gtoJ6wYtA9ywk8Ylo+WYuKOo6jDTkVlpnm7ar35d8yCEY3l3Jf90+p9hw9V82TOz5+wYgwVqzlrtwYp1/WQ9Szb1NG58fjl/hnYYGM7PKXRwossww19zygOKMAY+URnRNC3KoO97lVbIZ5kcINYq8uVHTS4bpjM3KsqbyaHzPTOsIUdFjazOdMNXJ8Ot5j2rSGweoY4lam1oKr1a/t9gZwGFywM3+rHBKzn9X9AFEQzuYiiklNeAKS74XLVhMpEsBgp5U6hQXHRMEAKYKT6lyZEDfJLzUJiMUUH0sOUl2WyEjOeB9qvZ1Rso2z2SdYUNF3MIjbcTS6hDxxKT3NMqOk+L4MstrVa8HS2R3dZj06KkrLF9GrVdLzSUmiRZ7Pxt91/03YpPr9ZJXa8UQcGxBKxhJUb6v/sOsEot6jVM4lgVWfa8LqsGyqm6cyUjbnAcIJo3iwgJeR+kGSaXL8EZPQzTkZgXo+jqTHcFAo8QOQbCwcAw0u/VEiyt7Aac0hMf7//pL96gPJZmQTEpIpzYZTAxgutLjBcP2tTcRHjhbXlpiRa+0eUInuYKvgxPR1aJxULBgewQnpof/7kGT2gAR6ZdHrJhz6UicKb2GDTxMllUfspFXo+4ZqPGekNK69PNttJmVGLeuFqNacnCEPa+ZWWfbJUBbsr5GqYjj5ieymPbXRKF41hZNDKHbPUY2Jj9Vy5bfNeVdvbhlk+bnjYYikdcVxoS/iTvt6X/7/M0I+9R16jmtaUYzSQAqXjNk4iAteTjmTiQqHi8HPsoTCZq1CGpOUgEJl9MYcQsm92bDPVwymsIZGz/6///d37Z2e6kV95CdCewuZkLzsVTuHUegiWKAJQOoGDUrgvlPdicGm6iHQzjjcu+TLBJIxwxLIFjAaRLDQcACodebSBGIRxQDFvWRMSXqNIDFoVN3KZaXQoeMheVjg8F5aZX32Kx4vRj0fHr7cDPXWTXn8Pj701GBxQ4pRQCEan+KRkxdIiWMv5KpBfV5fGPhxYBEQo8tLoe801wOJPgmNBcq+t83xv6dIBkPUsIHF2pbxQRHnDUBRpznUuw8nqLSWJG1fwc3KUwrPNRwBwMJA/rMnrf/0b+ddHjjBcjpOgsYAEvD9wvggYwR1AsCQoFBHUf/7oGTYAARKUFF7LBv6WweqP2EieRBM4UvtMG+hfqppPYEN9Kf96W5fOlCpEbZVsKf+GLiVzxO5/RzqBo24hkIkE3JfSzKdYkOcoQcqq4+NzbOLyCJCfQ9GinYbMwxc6xhgDUmLj7k4/nYfOpz9l8puxqNrE6oiYbWywxdU/HsCG5ZkwVdAvdq8dIfre7vMOvS1CMdhVixvnoZNS/CCnW573Jaf8ZWi0p/t+V9WC6SkOCUFM/QwpYyCRezW3yWgDjvurYyVnlu4j1Zx+PCuk6VjqGBAyXyx0BDPmdrNaw2NyqSSvtKSaccmZNM8jOVCciQz5jee5hQFfn8ZeiAQoE1MfFK2JVVuC0jKcgkjbC1AR3yh5dXBlALavW7oeWNEiSg4aULEQaZiXQzIkpSP0Q+OiUTAm4O0ZxnmQGuiEW3BKFUGiK8VgjCtrKHtEECQrbB8SDYdWTyJk1LeNUeucw/Vlei+6ZiH2+XH9oGOXfj3saApTqzPFzuhooJhx7nIjaDFxio7VHqYzUopvy565e7f4sBGu5jDxZ5hURH3HvoIoub0fb1jx4DH68QIGC5bLxvdLbolKjLIRxbQECmGms9aYwZlyqr+o6UpUM5TX+rIpdC32+Y72Q8plEgUjk893UiTWkmPMxiC04WW1Jf1VW8t4r/7sRv7027/U7yy4Q2+e30W3+uJAEJqWv/7oGTngAQeVFH7LBv4Zoe6X2VDixA9UUXsMK+haiCpPYEZ9AmNI4CwAQNUgMCFh1bjHFTvUBL4MrQXYK/66oFf2fYC3cYGgaGlwPGi7iQnMES1iqUtYpmYCkrYqU1ldS2Y/JVPxWzqWbQrN4rvrYdtgzlmc2nVtedUU7b2bV9rWKVy0YLVFY13sTVrud4TTqsVkc8dCGP3f0N96p6j0PEqkPd48qgkAJRUjDpHE6YI54wIONnMoQFFwEzpp6KbsU8PRutTXsf6MAWbkbuchkLzD4waGrMA25ZhJExh3OaI0fWa5PDoJHqC/Vrg4GNCoyLhjKj279IvNY8swIk3Lt+AjDJBN6hW40SW8BwYgCLxA4tQFp6bqwKjz8y5mYKBEDSKlIoUFPBwEmEwd5pUogcmnq8xSQh1Mib8Jpw81qe32n5FEyachUZcRNNNORNEEghz1G/lIGKZUITllSIhPjDvHYzdZoRFKo6M7L5PYYN9H9dl9jpHiCanzNV/OebJP6ZIPlN+TFqhEbl20obbsv1GZA4ly9SYO0fIMEL0xTmQotq5cFzhMJoySmzqWCuaLKFtksBpdIldkExMiZM5BShWn5PI55cCOh4oCi4jCWRkgmeVcv+pBnupZUQ2lZrrwUIHdO012FCRAAUGzx3AMIvYkuyl02KMAssthWXY7G9KE+ZZr6jVb1M2vf/7kGT3AAQvYlBrKRR4VQdaH2QjjxIRi0fspG/pOZqpvPCOdLwrxvWC9eyuEj6FWl648bNnloGKwLQIEXN6Yu1xdQJ6V2qn7u8ZykhVxWFTVIuPiHbOdWgY1F8l9az673iJi2K+f+29Znk/1H3P7ev3v7/+7Wpv/W65/p/843XVPjW94zm33n61rWP84xXOfuaYCrPm3cUcl0lA5TzWQkKPvUuhmg1Vm0jGjKasmlMI6DAOBsP5+WuuKuvkXVZtzVl6mvquLtuYmImt1IJYQx0Tws/++n/yJCMO6mwGQqZojUjN1bRJAJySAFi08JbAIQc+BGCippZuVFQykkMdVi8ptAgDkkIIhoNLOGJEYFKysJiFvADSQQRBGcEQw+QewWQAJsLSALmBgwb3DpxyRSYrQMLA2DB2B7ojwBsACzwJWC6IbYSIncdoxRvBx4yI0gUQGAgKKFbixCORXiDkRJogBJByQoouMWabk4I8I8iQj8iYskwJcc0iROFk0DKCCAyhDySLxBQAggKTGMGUDfBHBiV0TA3QPMllwzPJE8iZhv/7wGTYgAUOZ1H9YeAKRaTKT6wgASPaEzP5uYACiSen/zMyQFsmhc4m0LQxOYyYrQ4teu9rJqUkg7J7i4CfJwMSEIRceydGTEEDRDZf7LXXUz3V0OgFzhESDh6g6zcUcOQDpBCg8E2XA/T////1p0P///xOggAbpk+AOZyZUjSCGSwJqo0wWAgBIZWriPHuSuwOHdRFqFg41Rd3loO8xAxUC6oCQEBCgAJKApACyy0bOOUTwshEmzpFRzBliDJh7AeuIRi2jJk4M2ynPnBDyZIwQWGwMgMqNAezARyJ1E9j2OIWwxI8zJ8xMSwOwiBOGBULq0lutzdSbpVOXEXN0P/Ut17tMz5OXQUdL6///7TRky+nQTl89//3Qx2Kabi7y6m3iEZSjccsbSYEIOrMDBhAFNgwKnhKxgQCKgxpRQrGaQBgQ7MKHzBho0AENDFhJRMMDQckg6wFyhxwt+sEz0WpDATBJIFTLBJWW4J+MDLJmKOzqRI3NBFg0M6yu4vfTVQBr2YG66mMcSTi79319WWHM8QfRUlEDszQ3e1dCNLZGalnEbHCTueZ2kt2VsUdBL8y0zNLIgkH4nDyay80wlZJBLWUQ43zuQAuKWKZg5RLdQstw9kma9DrZnRcxy2+Yhefyo7mpPD0BN4/hfBIgwQQaeY6o02cZ5ogtnBTC1YVZU0quYps8Dj33UdWklr1PzGYXQtnjEzTmeCutrcAFxTDLIkkBDvApAiQLziS4MCbKw5ZkBy5kMMyxkrE3bkSnocdGEuO/DbQPefyRRWRuoyx63ol7+Nbg6nqOv3//////////////7zSYVD9N///////////////yZ0IVIZMNKs/iRcqzOZK62GAAAAABErR3ABA74RSBGmMDh85KTDuAQRig7tribiBpQoEDBGDbIOsYwZQfJdEkFyj7HAOSSQ7xcjmxNJEUIuITjaI02HMPkDFcD4CHDSGaGMI//vQZN+ACw+E1f5vJADwsIqPzNCAFGmzZ/2WgAFer2x/sHAAYRYuMVR2iukGFxkAJlEfZlLBFSFFpGeMx+FlG5XNiKEXIu5bMDci6igzkUPl88dWtA1IgQAqKNDRaRaRPnjQ+ms1NVm5PpGSY00i4T06MgR5EyJkTczLycqmZqUjNyokdNqaRobm5pWdJ80MGT1Nc+xfPFwrGSD1GqanmhdKJubltby+tI6xn////9SH///8rnSYfO/M3Ll22jUZANFkGmgdRBUHGgwAiOFBCsdMSGwgoEhITS0CMLUl5DqMAEsNoyBhBSNS8MVakyVHEYrM3GckjU0c0NVHkjrGpaaHzUxNTMpHEzE6eNzySZ79bF4ySTSQJOXDExMUzdAzqZZmXVM5vPLUdc0W0xmTnEmmSfV/zNNpjWl9aSTa0lKqdTX6Kq1I6n6nraoyZTIPmKDLVRTRo9A+3Ne/qnYZ0dWEsAALsJSH0JZWMubGqSld9i7Ssbe/1vNJd0EBcn9asjnVNHl0IsaNnb/p/52kaCtlZSe3qw5//1Zq/1R+jf///x9P+r6nt58z5Y3qtiYg+EHVvvzO65d54ywAAOUUwqQ+AEkIgLCihk+Qi5ZMOeiMudUTcJJEIZl8Mt2JhkOJLhSc+NCoq1qFVqSRQ6wJsNatRam1ttptlXT+osSRiVSP/9+7/9Kxcit+ooudWtb0FWQoiMZRy9B7VQtsWu+LfEFaapfkUpQupSCzSqIob/Mh/u8a2JRQszYtFxzDCOcPEH51EV+bt66RUWyEDL8+U4VQMA5ke+NAToGGdZrkhPxDSMz4gv8637ruSN/ob8qe7XWn/fMpCzCLMWKhIh1AqiKAU4RkIxQj1JlOTq9oJWZRGrM8OwYL/jAhKkgR2kCg1FFCKDokGMJWr7AxujGFey6awZDleBspiCQeYHX7/Zey7/6WxBhU4mLORcqEg4VUqjw9GGQMtnkhFRwAw5o0RYxEWG1Zdem5dU5anI3KM5i1amYGgcmiUUSJIWiX6UuyBTzJiCmO041T1lp+Fomf+IwpRfRvMSmaZbIh+Y7D3ui2ZH+X/6N//b/9f6IbGIUn7RrCgTKU4CWIZxDwWRTNZ9313f/7sGTIAASDaNn7CSx4eQ1a/jyiqhA5pWXsmFcCITMr/YGafST1AAAN2fZW+IxmnHlJUy92mvO2sK/zB7zWucyfeelM6/su6XmXnQJVigQCLFTBAwesF8OtLTVm6TX+lJiVjofap/Zef2FNRP9UI4MGPHlMpGgKOUuEXjo///necNU+Mn/B42AormI/exCtQKann/npEkV/0YfiSE6jmdZKdXjIv0asyrzP3dqoj/SWRMAXGqm/LkDSg47MzQlgQEgmqXOQ4rVXOuV/qR0JbYdyB83JgWWY2Nz9qBbHdRPyLMPCSNw/Clok0VJcp8uyVXmZ9KgmiLLntKMS+NBaGXWulrbvVhsqh3rMLaZESC/BsIfGmKw2zb9f3/1TztUZHChRHoL3MwllFuHVDm5FdRu3/5D1s642UD7VSvuTZLmokJX5AlSLNEKo3iYxYOrKGsW0N6wyrDQi2g0UipnPo78rs5pbwTnqXkmlLY5HS5yJsiSPktsjdLIpaIZ+VufaCeRt3m/9svq268rleIWwryGoyMWgiAguY5w3ANXebey6LbG0SAcxhrQTwMuTFQxBUTEIhgNIUpLVl3VQoOV1OWewAwOHYGUNDyaNoLAm5tcGSyusxWX1OIRUaZWRTVWUTekTZmIjUuk304dZyC4xVchZQngxnIR5NHIkPuy3vsaH3cmL//Bk3j+TFjCmseeb0jbq9bHVSxZxV+Ip3dzfs4GppEgAGEBRMJDOsIwCQQM3JB58hQFuAIKg8kBYBEnPab8rTQRmPa0Dw9DHNu/Q3EWQjmZEZqlVMcroYHGjRU5RCjo9ynYYS5lalJuhmLohmMzI//ugZOUABDNj1/sGFcBszRrvPGKiD+0dU+wkcYHvtin9lJXIvUSHryoZqIl3k20L87f+LVFMKMmj09R2kxdSNKO5UjEK7lHCtVr92pl2WWJNkEDEA68whBpA2aRqQGDphqDDwb9IdWJPmlSqo0OQSx9Io3YskCIKLlShA9V4iWJkgqzFe3xXZL2oUi8TkteDMTpL4zZiSSud69r3sKjViiwxVcglH846j1FBqjxpx2gkSFyszfLqVqodWbLr2N6pp2Z3u3JKbv45MxoU7N88R//8or3/ds8EaSEQBatKShwHKAKn1CnS4dtNUVDaY4lVnLu0G5l2nZcnOLtV1T4oY4g8YEjehje7fV+cusoksH4jNh6wDAxf4V+RUD0SlBGO5EHAQWzf/Z/kWPRMMz32f4KVAWal43EIKCq9LYlYsb58dV+DOfwy7/wsZh+uGkVd1TIsjbZBJhMEMExWBBAyEBzEhW+EI1gi47Q0eXZSqaRLHpisOvAbkIzAUUEAVTRFpkwjey9VTceUM6khqEjeUnIQuOP5vJ1FRcip1f2qw0mUVWmSu8JsIW33PVVvZlKV2JdFLlZL9u/mn3Pc5Eqb1Ey6Fwzj7Ns94I5FKJ0Qf0u7vz8bf9UoFVflWptOioSVzO12koG+jghMqNr8mA4+A4bHgGrbdkfaq+7mcjw48xBJQGN6FKT0f1b3//ugZOCABEtdU/spLGJ6zSpPYKOYUTFxSewkUcmoMal9hJVhV8TRFoHQUXCA4FI4dHeQRI22yaG9d/LQ6rnrrRGrMbrK3RfRkX/Z1bpPo5XVnMbiSg78qvcdMjBsx31kWNokkpF0LgFGAkBwYKwLBjhCmGIIHQaMhrhkNCXGHIFYYR4DpICGLDRkhMZQOBgwYyhmGrB2VoYaFgoTEAgZUfGMCCLJf8CgICC0wIcw7boGUPxDkTr51s33a2/+Yhg3OEAGhINwAYLzSzz3GBwsorh+MDgPEcUEw0XFx+lQQMp3uUpKTu/cyBlyfT3XwNecc6QnWkpfXtxzwPG00VHXtHKz9W3z/dd8rH8RXyt5nj5rv9TuVpscQREXDIK7POFOX6uVU7xTCLOFmE6FBzSUxnYml+wd/37p6hJd7gFh2/qQnyQRv3/Q3qX/VDH56A2nZmvmLb6e/6//2/oZU+gr9QaiH8RPlvqLuntjQqTslytgBAAwpHY1hRs7IMMwkC80YFMwSCYxJCJ1gACZh2GRVTKXGWQmOemyImcNhDoKBTJwjUDjnwwgajuUHFCYZrwNYuU0Awy8un3kMAQFEpHArgy7OlxytamYjLgZJ55RI7EdcJwkSJYkSrY/YjNCToUNLLIoqisIz9b62x85fZqOqXY8+bfO1Pn2f61u01qOZMY2Q5fyf9n/e+Yb//uwZNeABd9oVHvbQnhQaWp/YQJ0Fw2hTa7oy8EHjSn9gZXMizG13KSqTi//g1jXRLnYOx3nqjIKUgM7+7GBE4mIoPGvKVzouguMXOfeBnsCjANFNGXNifL3+ihhpszvt7v6f4CCwYK/+Ri51ixmiQNHkrPOb+lCf//iKqFvnAY97fbMWCQMQz87OQd2NQiJFChOlPNk6CVxa7Qp1pMAWM56BGeO1nPCELIjQjQiFgPsJTDMSwaYbdG5PFdEKp/f0E7e6k3LSe2e1pXnlqvHeeEZLp8yhIUZ4vzbLv4OjVNve9j+5tOxLGxQwHKQKzSVEfi6QJB6rMjyogqizuMhxN+aVxvDcM3BOV6gJkSDmCIADxSYhba678ADg7a4jboTFEzAdCmlaB4lkoD1umdfLMU5j7FWfZ7//6J1Wsi4A7W0gBr2uJzDy4vm14ykoIjOMYMAChxeJWNE0vhXXyiM0RAUgPsdkgWAHLS5cenuS2mQSww/dGDgWJLCUOpSBcaNQSFD80OiiyxWRdSjxrTZsYNpQY4zRhIaPJNKSdqpHG+vxO1fHXUVI4le0PcwYq1U8TxUWtVBpRAhtSleT/kNC1nf+Re1if+ZEERcY/9213M8H8qqoY4AtabgKTXT7AB0A1GmqRkQMwH4JEPyWQQB8zv3365smZVe+ThA+2iLd/o1br/763ATapkDR/aRO8TA2d5TrAO4lGTWh8cC3JFsSs+ysRcR910Kb9xeBY5YD2hYJZll/MwpiOFGSmgtnnhLzbxxOJF12TiyVaSF8a2x4pZ8mVpyaYHTfqaLciYmRoCWo2fpfn6+NWxP9dv5eK9df1r/+5Bk+wAEnmXVaykU+i1hKq8x6BUTCaFP7TEO4L6OKfyXiJS/Z+n2uH/f4ST/Ros9QcxK74Wx0/rf+97MxDA3/LQ/9HN+YnrjHJaUdxwTwC747CKv21zYGBoJp4NrDGZqMR0qIKwPLmzTLlkG8OLFrqaH9y9v3fTk8h8gyf2eowBFxnADfkcKVUxEAZQ0KcwcVL8mLCIbDAWQlrQoFd+BC6MulbAs7z7NeUrnKO4ERLarScTo6SoNPFXxQCQqxB7TLkSJoxVWmSiKtgqsi5U8k1N0JquxiLeoWE14InViFjN6GodIFZ5ZSSTyMlI2z/4tMsmTUjqJq3eZrfhVOoeiAwdHHIHw7QDpx/aGRYNmLBOIIACaQBqNpTpRpBUuuvmJwztiZ069X6ajafVPI6lHQ0VoZzP3f/lN7iDCRYH5gSkb/vWfquZg3T+8z6h9Y3HMyhgUokThyJMY0rEXExRMyJY6YOX80nv//+9QKJqJQ2utkUlC7m8cI4AF/s/EOC1SAMRDBSFWspUeZCzdxZucdAuNRFOC0G5EXqbwLh7xJK//+5Bk9QAEv2RTeww0WjChKn9h5gkSYZ1F7SRzoWIi6DSxMjz3tuh1pX4T1lbuPPM93WRdq11tvmETiys2q7Wf0r9f5UImbq/OvpPQ3hFI4lgjVTVdc+nSMkOVHMv+HdybyPxVIAaAnpPkom1COJWxK4gIWhlADnvkaFxTcwtsDBp76w1T7JrHz/yv/rfqhxitz9sR00OWSMQ///v9avygY4nMC3xoI9hisZf55Oyh2NgwSA1Z6MRs5/DlBvg2mbYrff////LOzjWCTzR2MgQFKZ2szq0gwZAE71EmaX1yJymiONeqOAH4HHBQEe8QDpCMRBSaezBWCqXvA5DJca81B5KH7LCJ2NY4UNCCyBW0344y3ttIPaTPzE/U5fyn7D1ShmJ+r/6nLopdE068yeXKt1Wv3Z7rlMcyDDyoEo9iTshmhWY40bOZ52dxfwfUqj9YdF/E5u3WgACyWAdggABUaEyVIhXnqHR1hMvITA8VOD4iepC6RJb//RrvoyeVxf8RqBUYo+IMqh12RxITHlch2y1NFSFF3Choq4mKDHMcPxr/+6Bk2YAEGlLR+wwb+GYs2h8gwrlQBVtF7KRR4bszZrT0lHwuLEJiDlMoYqnKtBXUdjCB1//U/U71/4SaHxY3K3CbZQzw66CpqqA2mpoibf2xp44gzQHmQCWLiCwQdYr4FHJJlYbE2OLtW6tJgyYN7VhqbZJZvijCjKQgCwsJSBaaPiFNGgc9wrLJixtR6tMyuMalU4EUWja62JUolHrQHuHEOV7shmsk16GRTCBpSqep9j03X+qqzevndkejvJod7TnfExACF1CZIroHCvGCYs2HMTD71Ex4fbwg3uoRn/3+lnLDBNtwFyjXYMNCmUvKdz3dkRMl+ja99Ojro6yMdAaCQZ8YKRwrqjBBRzqxlLQjurJXZFXvR9XUzbt0Jr8vRUk+3l62od+d/Ov/4RpAoq4lUXeSVF0KkgOEbqCEqlaSRsRSMR1poc4isIlZcdt+18FNOfhOFJquxT0MHHYjmcn5o3GYJ1pWcsvP27sJGHKfNDilGV77kzVt4pFg4LcdWyvGeMJTBDEuMqHqcRzNDPykeNEwmCQwdvwMLHJuvPFkV7LKn92Y2Fhgs6aexCftHlZmqQSDQ7s5NnioBBRYqAIHRZBBW68ln52brG1RgnjO3kMBgrG4iIg4Jg8Dodg3EoRETQLiOZiIoToIgHkQ5gPMRLoVBIEgJEQ5johwfeXwQjLzYpvq7nL/+7Bk4AAEgmhR+yks2FSMKn9hIgMaUaNJ7WGBolq0ab2BpfR3CBzcMubps3YkFZ+IMYgrA+LWpDBwMAMV2ZZK1IjotkQgbkRJ9eH3Qv8qeI0chQ3ZGbykGLhj3Csx8jzDp1cE///+gyewg2cJIM324eGXJbEsJ1//1GExW+CZGToDF0gy0ZtARk4gMexW0sSZ1IHBQSI2j+EZPpR+4u2ubEBjfQoLkf/CgmBB3XSJLXQXdFh6uzRpLGynSQgQELCghoerLYs/FigMAAQxoJEUezNfkiXHiVb2s08NzTXGttkhMSYJJ0TIFgdTNK9l7ly5a9A7DuQwux/FbGCOml+ivR8bglwsPWZQ6iExHxiFFKkxGSJeOo4dGoJSxZnDDHbceLydLxglugjtUKhRzl6maFbgMMYYuu2qdic0zNa7j0mEQfRdkMvummg+u9YRaBbRMB+NOo6DuLBpruWnOlfSoI014u+8Nv6kY8kRZ+iexdnadgAcdEA6D0Qh94GZcWoelCekUioCUmsbbtRGCHBwOQ+YEAZhJOoLpQI3smR7T3BSzAIxALWAI+YgMY5MZIgZIVg+6gcAq9bmYUeZ0OYoUMiQSBMWFAQsLkTOiQqXNOhN/DNmVUHSfgcUFhyMAEjLJAcsWWkUZY0GDTMHhJjDc85DkP5EIpU0CeHeGVrK4gFAEgAEzv8UUhcCUIM7FmUXMnZ/inFIkPwKFiFe+kA4Tz9hzUIGh4OCM4Wf52ZiWJxO1ElH5poe/kRD5cs79z18Q+n7qs/gFgG4kSTsg+BHHj9sUw7ynNwNQXBoNMY5pxoKLS9////AZNdrpEUBppdXx//74GTgAAoybNP7ONX45Q0qXz2PeW4RtU3t6w+DrjWqfZw9/Gd/AY0PbHBjj3Q9VnW7Y46YLgwRN6umS3nXtkXkMIIQg41eWwnB+nWr0mwbXZLzWQh42BwKxmc04mtoxVnOg35etwD8AdBmPLhwByK0lCnTyfU6rmY0LQ1zjvGNgMphjKyKTdZV7GPsteHjwAmWnhjT2WyJMIEjIiQeEQ4KKw4aCjMAczdSNkFjFBY7UdN8TxAaGKCJoi4aQAGTFZ1peaVaYIADURp4IAJAAQW5TvN6zM0QJQojBoPHsCnPUmrQmpdhn4yrciflnBYCYkKJBgQNLbJgA4GJDGdCQtH8SDl9XsZ2WlSHIiSoAwSXlMiAM4eAh0BFxpCYwSYdYsVXKFYZMRjQwSBTpC5DAITAWHmUahxbkgCb+IPg05aIdo8qOStxUbMuu0NGEKAXhBy1XbEQE3xTJcADdUvLiF+DGRZaY6ZaxEvwcNSA0Bkyz0UUh5S1Fc0qchralyS6FKarVVytIiqgyzgYFLBHtE6YDFNDaatmeQ7JupQlBlwsOTKjTsuu8wFOXsSFVtcCW1ktxggR5WTiwgYdYBEF+QI8wDXCjyFArlDkgngNmnoBQikoOEsIZjQjYFLYBKLrpjpSGZ5KQCgQ7AhYRcKKCHgKqfBi2tVi7oR2KMClsESNBJYxqRF90qABvLD0copL7L2xrqFQjmXdpQNt23LqDrAsxBDkU9fUA9vxmJxx9OwAsRxiYg9sve+LuO4/jTevGXzZiNOQAJyq1OQrAl09lxscYgewuRuLE4aWm7DRGrKCG8iPICoZgKOghqa7C2kQtiKVYWAPWN4hsFYPka09bnIwMn//8kv6z1wqosbCoknfKhbdPYs7btYYp3sZpVsObyusHgojqf+yuP19tdYhvpWBRfsquivtm+dERhu0ZWpkNPJpVqrs9JusKlnhLt+vti9Rvjp9POkdFPx0VCNNhd8l+Fk04FevYeXVkNW7er16d49dKKBMAijPu8JNWiGMFB0fQLAeYnAMYYheAg1SmMeQDCCta4NAu2AOqxMmwud+mLrbDjoOhUKVqwymYNWhIB3kVEombrskkG0zCaiyLMQYizZ+rVaxGIxNS2zEX4kaUrgvXGmIuFKmLuM0/KFmOHQEIcmCxdBMSacPZLMJJCwhfh0ceKyMOE465qvQWg69kHlHX7U1zBR36qvcYrf8M1/DM3w3Ndcm1zt/FN/KkiqcrEf8k3iy0+KVzqbuYJbZA046yKDtuPnG1GhgLbozJIEhgFC0nA0BniY7zMwUNfqepdYgD6ZJSHVhKR5aCZZ7IuqcWXfOGTxZiUuz01Ukbucv5tWB8uVJKe0q2//T7/T//5z/f/9YVmo3mzn1NNcaqSRTNP/7wGSUAAXqZFp7uEN6dSw7L2EnihChi2PtJE/BrjRsvPMJ1Djj91jzhwUibmlmTPDKaEEaCTjZnNh3QQjLqWgQKnQBSQyGMSBZKhJVlRxbVw3GmHpXGRUXHExsgtMhSIiwhLiIVELQhUae5DBHBaYVmSP3/pmBVKXuH0bumrQiXPCunF1VmDHlY7Ck0chhQa6fNWrIY2qFsVjFfeztKVl0q3T73fYtH/1L/QzaLhYKolndjBcq6uZIWQUjGFrH5SoioRBmIWtsBC3GdiejAEVeaWiNnHw1jSyTJlKoejDoBmNR1q3mp/sRAh1EmBOwzFCB4NyiMBEOpIdxJCAkFKot6mqIzt///sim//oZ//9DPUo4kvwrVNKyiqCmqVsEAZh6dENEWgSnQed0Q9TvNXEKWuhWgQpzTCVzkgU9kf5xpjY3mnWtv4eWgBwCJCtGSmiIIrGZp5dYTCpU05GlkHIUEotnBP0Z/zgy6ntbOi21P1DliSOilI7lU66kWdNnV3KR1zGXVGa77fWYwY3eVbLR92l2rQ8F6DzGLhHchmpFPCQayTQJsv2QTIlKrs1eaq1jK4vJFi6rilna1SY7TdlWdHnlqz0ZFdjHBBGXaRzfT/1ZBjGZ2zTA5unUaka+6+crNSMwqyThtbUQm1WwJXERjiv9R/39Qa55YalVAew9OqkabZbm5sqXeJvkwgChdahRUAjU0VMAVQhCuB8mhw7F4PicYoDSNkJAaXBIQrRREzcXiHGlZ31WkyZ7biKK8sDLyJJNgSyioziK2WWETVf4rjLLcXJLt4s9qEY12WxTARLEqfJ44KvrJhlkPBNELmq2LQp7gwpex7eHGyKjrGPorw3yfjGDE/sKPBQ///8ECP+9K0iaOKT4MkNAoDggQKQtodJnpZgiyYv5XiOJUrqs4yqKGmpZjvsi381ro+vu7KxHmOUcFuaoZhJjZmq5bIZVFe9K2HeZziXo//ugZN4ABC5i2HsJFGhYZssOYKZ/ElmjX+wkceFSIyz8N4iscP9SgnYuppDzVQK3d1UiEkgsyc0yNlSoReichJhIEOOmYDrJsI7o+xdBdlchjGpc4Ue1QSjIt9YWEaJDrIqgs5hzKIhQLvIiLVKlcJo8k6v1HaQrFM3Vp71bySF68x2M4eedKEM7K6kux/8382NxBc8GEL2EKUQBz/ahuZ8Oo8+0uGVSUshkIBAdwIUI5VXxSCBnAN/9HhF5TRSsuus2/GfrZplEXYW5mt8+FR9qI3VVyrz6IQVVynJKZkvZj/H/LX5IUaykSLVDjRwWkXSYhGy3QSY5ikY6azm5ZohxGg9YZ1t8RfWBw7MqIRAEhNzjMdAICAklDkAhGhQeIwCbK6iIO3FUi406K06uRyo80aDGRUfoIuZQrgVNF919mdOSXTkom6Kj8yOIkTN9LV4uYiwqZsDyFBjEoYZpXUKRGTPGmlGGRBQgxoyC/+oWX0pbkeRHefw6RPgj99aVfduHP3GrAh9TNcOSAZe5CgQWBXTB/RII71k5TL7bXuAVgtZG0JB6IiC8OCGJAxA4x5eM+pBhnI7AKRiaUcrESWiHf0+33yjYTEFop/OnQaEo512DZVyGGShFdBoCd2h0IiJADTnPGG5geKlgDamoBCpdoCEJYwJUJINbEdYSpBcb7QRRw77+y2hg//uQZO4ABGdg1fsJHHpPSBs/PGV/EZmXVe0kcWkUkqy8FhR8Cta5Q8mmRBsHImmyilLtMDtMLly5QRxqb2WXLoztZrubDWDOmvErQ8mc5/hYWVoqrWk68ZssjXXyL+NJzh8luWC9+o2f5ynl/MVHKghowUwQ/BY3odXgnxsH00EGUxmKIEhRYbdzCqrqcHiI6iEiAogQABabOF5tEy3CiB53AH1I81CE5mKbY73tRt/V+ux2ogIyN/kHK8ErKzC1QYoVBkfiwVzRdJYGe7/+n6fuA3akQyIQCSk7z91AyIGXLvhhYiAKwWEr6BK0cWK1lqCrGCzTMWkOFhFQPcC46kcEw7Jls0cE2UiOLLTPKROkj40tPdaZZbRPxZhlrVjuwbq99ea2cCqWlVvkwZUoHRO5BVI3/zI2Iqv1jUqXuW2f8bM3a6qqYgWu3z8sGVAXGkpp3N19jfxX4398gYVWROKpC203fvBF9lY2q01KooEYbIGuRVZQqIiklYSDjRxNY2pCLVu3zhxcWuz8VfVrst/lyik5VEGnQpVjHRuIGd4H//ugZNWABFNoVHsGHVhRp2qPPCJjEWWjS+ykcaGcsao9lJWMCYgNAoiKlGCyIg5G5WdeUo0CVlK721/zt/5X/Un/qT/oXjWVBJh1RDESQU3LzwrBwYYMuYv8aBpdgGGmAACCyoKonH5WqrJnLZCzyjsP8CS5LkTOEaxYi2RK+mk4RWNFVnqDbiq051Cc/eERQxKL03KVbFz2WQ6IS5jB3McQe86M6DEYzDEuUHs/NSepk2onrI0G0yCYLdXy3OpUR6tuAB2RI072hLP8rxqlbqJcK6Kd1YjQElm3yyQpPNlHgHFUlBEDrXjEYmcpHyg0rnrM8Y6Vnzqt1/L6f8rbf5i9TDVQUwCGBBggczK6FcedgQZ/QXS1K36vYoIUpzg3BtqN/X/hYJ/1L+Gcs74iAomYZUJC21JfwvopcY4C/23FqErTCLgIKHQ2JGs0ZgkM2VmDRAOnRLMUSMhMPD+VTIfz/q1PsXwnRUf5MvccRVrV02WLXnXHnTx3F2L2mUGUhhoKhlnuV8xGTq5HlK6oVUjZrIlMqlSruis7l3ajt3lxEtI5Gp5m8hEV1c/0eRoxd8/UBZ01DmgJoqz8VOZv6UIKDh3DKtYVzKRAM0CLQ/GL0O67u1rtPx3mbMgMQhkI5ru/7P9+XCRkNXh3vCSzt8+kPqParx7+6+PnnHxP/mVBJX7mWQWYRcrb//ugZOEABE5n0nspFGhdSxp/YeIrEH17S+ywr6Ftoam9gJpsa6DT5BUUp7UzICBKKcmR6ORUNPEAQdubygQ8yZBUosok1XNZvem3haZgxOB6VmrEThoQsk+tsTQVTDCOGrMXBmfVUaYcuICJNVNshNEkxykaG8ycM8OlpnylbNOvIPy5b4NiwpRKrkpmVRs/5lWXsvRy/vpmWfY+auTfmZf19qM8Y+oeZk/sE9JPJzwmRuIJmZTQJlEjLNdl86u4ILNaUv+rOQKggNSSczpNhlC5INgpLwgJgqmTHFMYgJ1s7vXqYn/+w1U4shDhGVRrELWkxUFKu7R7lt6R8bW/Xntn9bVh+kfOdX3M/vKz8tlMeZijamDgDXndxvZo1gr1UKxqKbk038PgRQY8cOAnpigVACWu8HYdszglTUWyydzWRwE8dylQCZXk2p8mLCSlpNjjOoicu03EkMk0HDAmMp6ji3KsBq34xCQ4s5Aq2nbLXVbWxbp5mKYnDJaiOoSeqpS6znyahAZbUfcQuaj9BLe5uFB/VYvQ6N6Ci+h1PecPjCD7/cbMZmEs6OpeAc3mxJSbrm+/H44Yvk7S32HLDlnUiwMmU0cvh5r85/f+lf+C7tqkpM1EZCASci/Nf/6SYMkVQAh8Krgh+PfQ0LIyyXg1+hTKHhsRLErUaWuhwR3sq7RdKgr/pmSS//ugZPCABE9lUPspHHprCQpPZEZ/EelrSewkceldHCo9gI5kU65YBKBwCnLAAO4gGEPXusKXPUKQ4MhbAxlTJj79xhrbtPrIJY+NlYWIzTyqjciitntQkzl2hgmT2oMNqvEgomQke1BGmpAUjIs0zCaDYzrxxHphVNj4kv3JRjvN3sWU//n75/WhdLaeyTY6d+UtBR2cLmdI+Cxn/so9IEva7uylPLLdxX+WV7r+lDgQs2HBy6rT5c/cLlMAUVC7kbl1aWxieRyi84FdHC2UraGd2oVWM8rfO+N0PiYQdS1gUOgLRAikOHXfpqx3Y6qkcZj9d9WDbkqsgM8kN651DP0a5+6nglNTH9vCm73UyrACLikup74nS6bJgK+K1hQMYYRTLSNVLMkoIQOiIQgy9/GStFgla0Q6aIi7T2sRAuvRxKoomYI00RVVykH3ryIY1qNGl1XrpRgqS5aqPN89+8WxVIjOGgY+lHpt9hkmv6a6NwjOhCT9dT/MlMPgxElQoHqsSp1u+7J+xYE8XcsYqUyrJbEkOZsEsG0GEcIAU0AEoC0aIY6GF7QKNZmzOvnBMHqGkc/ujchhTOuzf/9MgkmpFFggcOzjhUPCKJYQHoqsUwjQeUX07mKj5HRZbtdbs/JH0vKlEPDbyc7u0uX/EdUFh4hlQkScdt+HwKnIFllTYlHhGcu80stC//uQZPWABANUUOsJHOhryrpPYKObD+ErR+ykcaGYJGi88xXUkwl8r1gEgZASVRETiKeM/wjkkxNDkqSw4Z/sO1dj+iaTxYVssmpBWBPdcijigjXN7UBDLhgohlPo7jAZCNLPccnIdTWmFxAxAtr7gEXrfsc3zJDXqf5g08lMBPD+eC9hsPipFzEL1N2J2rArmoeIE7FFHLMbVr0HCCrBoDHRJ9DqJYmDEQhFDjJqdbCSpL5/XS3bWkTjhNlTGBMHa7ZHV8O2G3M0h9EU6T0KslFIYwKGMlrMxsx0aRuS3+hPp/7j6iuKVpq/9P7QW5mnZTOOy6741oR0FxPGicLuNa09ggqXwOip6LEwk6JbCG7UPgnN1JCXnHIbzxYO2SayyrWZZ+vLUIzEAsktG87SPn7WQrWW1cj7lq15qDW+yObUbeftRjvjvbctfa92W75xvp6Z+0zWZma/Np7IPmep6/PnHViYNmgmJFhYrUHsye1KYmr6tr3ANVMzJGaCl1vzZjayPsNsICD+JuhY0TGboodZbCAHem6MqbKsjzfp6Lra//ugZMsABBxSUfsMG3heCVovPSKFET0ZSfWGACGtqWj+nlAEVmrZmN1Ei4weQxwWKjiiIqHkFDCRmHnIJKOZFRi4q5zKRCro/vdvo86pL1clXOxnkMsXHILvGrBAMMB337aKRq0jKaOJhTWXVXOW6zeyVJgA8gxLAEeUcGdApobOaSdmIFJAxniOZlJ0ZWJg4PMmLjPhg0ABMMB0VzLzkeiAxzW12IEAEkYSYHKGhTXgUzATBEyGABYBaSaTP1Zn3C5imDCXAgCNJhLkemXw4yhFNoDNbTNFbEanafFM9G9OtrrlOPKWrwBIWmOE1h1ow0x2IDbaK4xmEP5MTbDWKwFEKr5QbAy78WcS2hg/sg5cw/f/lP6w13DX0zwRyWVZ+3ZmGoNatIxA8GBGNAjP//WfPurAIN2pcQHVGUmgzjoaDAAAZ3GzHTEwsANbLTY0Fhs0bkSg4YZIg4NG5kQKYmBBUHNoLThiIXCLjBuaMIWEbogqMQvhY4BPIeIZoMKB8pFRrmApEUURqIBjuBuwnh2DNGpJEOKZPD0YkPIqkIyFtE6jMmJcNCm5iQwUqJeJvEOFRIubKRLpbMSyQ8roGJFEkkjdFM46ZmowQUapOtKvZaSZqXzAxdSjqBXUkXz6P/0XdFk063bf///6CC1mLWpJNWv//////+fiQCg0OBGaV0vH1MrZK7RQ//vgZNKABno/Tn5vIADHDqmvzcwQad4PW7nNIgsjumu/NPKAxG4IYMEA8wkRGNAISTYg4MZlE1ABwYCRJQEQJNVq8xKCCsKCweMKg4CBEGujtPACETDTSGjJrCYLaGLWpxkwJspAAT2aWZkOJKC2acZeaHm7v2hcYQA3jWwMEWKpuZcmTA+wGmDPRmPo+O66iPgYMAAIt4CgAONo6LGc1sspg3FXeDgNMeMu2EAEvk+GVpzseToe+X0sSdyGXtmmyopuPD8Vcdz2yo/qtUDb9+7krn4szt+7VLMzdFhHFBFEk6Ipu1Sp4Fn1no8F4G8UEZJbWEVxBUBObIJbFvkkQiEYS/a9FX1f954gl4yRSyhlsOUUNronJRADkRSGJNt+JRIpfJJR8qlzvyiHKStlyNxAuO/bvvvAzEE13fa+XgR8qzsQ7//////////////////3P+Yf///////////////1Yu2AAAAASIMIGIWRoc7bJY6sxtXbAAGsyb6kjAjAg6DTcdiiLjDSFJNUvzKQBPqO0+DMMlUV1Dpe+YyPivW8vSxn+9KQ4K++esnkVGNK9ziYU8RdJqEuDtpFwxs8B3Hp9U4tJdU+fotaEjzq/j2yo48V/AdzP4s9GJCS4PIFnr06/iqff7Z48mKafx73vS9zvfjiZkspUPma300djnZ4+Maz/87+/87///rFh339UhRLv7w37PfHpl/LJVQSxtsn/////////////8cUBKePkZtKdnN+3pUqAMFAqiD9qR0ia0GOjTaIDnDzJAjSIwonHvBwDJqIRnyxLQNWoDMYAHxoiBlxmRBQsCHRp5WJrIWSLHIOVCIQMvA5kdGEkRgKQCNffZR170CKuGtPq8EOO0xFZjCmtPtGUWa6eiWiwkRWU+LOVE3sXI3JPZTAMAmbo3ypTFK5hjjRF32hsgaY6zPqlFLZLTtBalK6Rwoy1i9SXo3Mu1MrxZm/ud9+H5xmnyjvILjV+3RQFEL0Wg2GJJBsNOLctNyi78OTE5NDcZsy17YpJ4enJuH39uy+Qy9+cnXiUWdlnbWFkv0vdOxhaxHdxbkX3jkTZplIZmxdoJVBEPxfCktVX9gizSQJy7E4m1psjSZmnhL4SVgD8NSg////////////////sy7C7///////////////+60NWcYQEgNB9hEO8IqAbJAmmAAEw9dMBAcBeLZEa5++aSgGVGcQojce044SMUKRQdkdoT2BaIzoiIGKIGbw5o6SOFkiPh3hiQtjoNjpFC8VyoZEsPyjcic0NHPkDIuQUfZFhc4hQUkHvi6KpfHOIARwhOYC5Bwk2CYy0QYpjOl0lScImSKkDMiUTqTApcuFVJhB4kReJshCZP1jlF8uls8Uy0Zu9bpu//vQZPOACieE2f5rZBDbEHrPzcwCEzmjb/2FgCE8lC2/nnAAsdaROGxqQp4tmhNHTRA/+1an/RLjdAdA4CBmy/r0lJf++3oEUM3scJ4jRKZINnP////////8cwtvivHZ9RLbxyEAmwqXUvCvQPFM8bS4pcxbKCRYyDyUz8TLTcATUnAKh4A4TCI8wsuWLx6BNGg842JjdhFNC6KukXP0G7Tj7OxUnz5NtNpKfUoMTbZqQRqWaiKh5kwbb5ezcdjfV9uZd22Wth1//x/sPs1l3cJ3t+/mW3+rSxb/XqJ1D/W2Uj9W85wdetXK9zJrLjWUb/hiq5F81Isn99Y7332QE5W/qFBm4+ACEOxQkqH6HReaKxo+Hil57H29qjrqYpzn/3b/5okF9vW0qNIHQAJxuTaAhea4LDWeT/yHxV71eXhwi2539Lm1h+/MqY18jrKIfA2Tdzcs+lORB6MICrBCwoEmXPrqbG1ZbzY5FJ482ycUXa1QNGaYSD0zkUl45Ct8WS1pyc1MkbYOx6MAILGonA4zmclTBIv7fNyyvmC0qgwa8f4FBTAbP/zbBCjq/V4wME3U9I1+M0b++R+fxTp+pCIYo7sPGvzUwg9nxgRnRXyYA5U1UxC8aAACT7I/rdrBFX8bvIhyx9sPUEUOOO0ZWPbuNL2L9u9N2bWSuewfnmUxY0uunzAAPEDKgoMFZlh0BUKMVUUaCoil6aGAbjTtiA+kKYcp/8rUaRsBX5G0NZrF9gkICjZCCAOF40VH5iiIFHZpQvFxUOQyJ3yrsOUUX37dU+8aYAQ0YcfaHWAuSozQdmSEbhpvo4MXXkxdYWKz7lQZAb6qRdaH4qQBQsmpZoKAm0BmooBRrFrqEW2t9c2XVbMlMCkn9XTTMOzbhr5nfVwX2dV5/lZJaKjkKregi/U3R/pPHowshhKhTDsTKR1HLUgiyOJjNBhCgUSkKICT0UOnjsSQaOdxAevXbGsAt/3USrzSQAFSOfrP3t9PRQgcQ6xQaBYGwQJnxtQmI2CczujtbVjOKAQShwehgz3ajzfkMdDIXMOLqRwogg7RLaPMyf5LaP1Qqk//OwXmHfMyfeX1pS8+Tyv6kCvnUrSsqNUnCP/7oGT+gARTaNp7CRyyfUxrD2GFTxIBoWXsGLOppzXrfYSJWb9ynGyqcza7qXVrI3CgDcEiUy07xIiIfEy7gGSW8V2hfG10II2gtTkMtl7YYcTmrSuWTMM7ksMWK0fk0Qpkm7MFki5JwcSCSETSuaWI1Z04FGkS0ZNKJony2FOji8zuILfC0JqvR+k2+Y3e7d2cNFCUbnMVwVBO0s3ff+mG8j3ey5qCrjpzE1pQvW9tEyO4mkANrvp3eey1pLOvD9AI921shEvYj/G5tec2PYjemK//twYmo+IZvwZZzkamqr4ObmbyjBIME4uICUDCg4j0yl0UruosMF7TfQzFtVOx6Sv2rdf0ShH0yl4dYvzR1Bg0d1QkY9HjHIHj8ijv65KxSuXdOiV2yNFCMQMFDZgu1sSmTHuEIGAoTC9aVyGrIYdWdApsiEIJCku3NRlCX1pJES3e/ZWnG5NKLpSac2r0dNbggW6r0n5kUne5xRJLskQUkDRYZ4VnoMnj6RMCdYktIuHNkRhVIhQ6KPUWdktYoWKnXtErFAElShiCIsaRQgAX69GbcpAAAQxL+ymfzo/EFEbyQqMBiPjwMAbCd1qs2pSVlEJxfFpiEzUX9EKYqlORyrdyAnWkS2ZasxjlmUsu6ER29kVmTKg6NmXSretupStH4bVHgqmhgKcjwd/zjMF/3hX6lL0Cgf/7oGTwgARYSNX7BhXCbSyK7zxlfE/w01fsJE/BxrRpvYYJaTVv6HII5gviKnBUrLh1WytIgEw1Bh4sQAHjr0SypS4dAEMYY7C7UIjwiDZAHA6BEyUHpq84kPHXUMyEU7aYrbkkCqNIlg9up2WD/4c3bSfSzTbuqKUJY2vmWWZJX9j86/tD6lFUjWqqvL9r8zz88vPPI2P0uXqTlUyVbman4PIiLO+F1zwU1XPMBKvsW3IA5yrx2qvVwkkQj6YMcBm2PpRZWpETZcIYizXLzOSesXVl7j2F/8IsjOhKc/vD0KO3JDL2NQ0cMCJTyFAKYqFwqvO82RtWbr1vdsh2mVT1mq/Uq+FecDIjlUfET/EVZ4yZHmGVDUaJIJHpEk04DVSElDjfKBp8aAf1DQuGuwZAiDlubFyqUzAeRMZfJCwzXE9lZZh5DaZXWZaO2WiAjSPrj2sTPzZRjMXWvFhyMIps9bMhnq8RvOQUSHt5NXT6tNNlcuFwz40/+bVmNv//mlJWWfvC/Cya/LPNiZy1TboJuZqDFPlw+m0UUANf3luZtxskFb3+Tuw2UKaUFzgEGbxPtEaOXQJRjqK1X7b2/qZruxgyqv07/zHNkA0kectSVP+/8zDY+fv38xvd72/JcnWnMS7LgFUdpWcSwOOMkXQ19/+qQEm6l3Qo2m2lDjhAI2MleRRBDzOhgv/7oGTugAQmZNV7DBt6X4nKzzBiqxEtj0fssG+JZJyqfYEZ9Ils3Dboh+sRYym8DuGz2M5whlDc36h+QwlSJIqyGlEKjAilPI4gKFopl0DL818x2KzB7vxcmQ1Ol2WC6+pak/VHsSqHa7GesuzEmU4qrKR1cboYYio/Uzs6lVWirdSO1NF2/JQa6UWVtjC8pTIIvuKglkM4eaUhw66QddwEEPeXMKqS8pEBa0P41lkGyCuJWDciHmdOEs/eLM31aOZEzx+q///KszcDiwIifo/8r0MYzASiijhmFMVsMxDuFVm8rIKaGogWgaUNuh/wX/49/2FEC+gLORvw1CfQI3//zN1tHQDWMlndWo3GzDFc1Ll5EEe2raX4mE/3dNQjuakRYKgF20smpn9ZE6VlQRl0mbHbBpyQiVHli1qzbKztYkIgXbc6yMQMLbFxCxKbc0Il93JtHEfWv+01cE4IWYkYED+Gp6l+dQUX2W8hVJbqBIc1Ilcy4vW/t///++eX+5cZj4sdsI4mKCBlApY20YfQ/BjsA5exEsdzKkSiSz17r0VsMRK2hNOEriAYLJstEIHIGwUDoUm5cr6an/Iyn+ViJ/+zemxHvOHR4ciaIEiDxU5eM8YNFB4mMIPQYrvlov0vfo7a36eiP0LV3VtPGqQh91EXG9Dj/EmH8d+CZuogZKy5ZUUTTKMLDv/7oGT+AASXZVJ7CSzgY+0abz0CexHVo0fsJHNBq7JpPYSVWVDo4I0Bsk6yZEZSOERRQoMs6abg0R22iMwopp4pfDrgUk2iUWE0kSJtc2gXJtQHg+I3QRUYpmlmrdN8028ZdNySVd0YwVn/L3qbDPuJa8RP9SW/zIj2L5bLq1VYTK5kUzOpiorIqdCfYtWo9m+rIVnER0yGxFSkcZZAk2cyoNyfwCBJl3UkilQoelMUNYpq5VpdkuaMZSqGsRDUJga0P5l+RX5NkKWxhraKY/dFDodRD8QRxt2ONOyKyMom535w0YODw1jMwp1b5+QfjxMrcf/SYbV0OIXY3Khl1GuR9AqLej9GLH1GoL7i6iQGIxCupkMSthdMRDgwc38SKyUkRF8eCIjy4CeMhbgsE2q0nIfh6IekDrQJbiAyygEJHOcDD4KsmnDj2sHEJ5WREZITC3hlFX/tyVQlIYwRECirP5EYyY1HBfllexSod0FpXcyoVkRJsXykrc93N6HnOqOOYw+onMhDP3KdqI7/UOiD0Hx2NbUxol8YPghN4tjhwyknFTNo0TiLdFFU2pFGpD+fk8BnHiekf/GunHAlCTGwmer/9dc3f93f5r2VDtmGztNUpMzVRJ7Tl7PqTqw9qRNYveZoZGryo0JK8Rj/t/dykx6ltF/8aS3PGo4n/KD8K8iSOypRBVUBNf/7oGT4gARcZVJ7CSzqam0KHjwlexF9ozvMpLMBsbPn/YeceYqoYTmgBxEoDCUPCnSU4UIDmsUEqoB0sy/6KafCTcWbgy6CY87bWEIMnMWSQDyrNLaOiLYPzGDCwjLsbbkRm4MUQxgmtVUTODqqgIoOZGlf4b+yDpkR2pSLsNypJ9Wdr53n1ShrT+8+lK5aZFNBUY8H5/3qlxaI/iFh2437hv///LBDqFHnVKzEcaZSblxbUwHMMAZzFOxSUkECmBuZFA0EpD8NwUEy64ZI1fJ/9SmJsQn9/ROvWKsMYMjAcUoYDAQwC3j09mZgoKrI9HmahVM4MGEqSJNwUt/VCHprlRP+iGG6mM3/Q2NLVGCJt9KiiSUkoFQIADoBgYcOGMMCWBodXokKg0RhmsQCtJULPY7LABgvEIPGiaJ5+eO8qXrmlqYzeXOQuayVVS19fp0cI3DyjEL1KsfDE61YKOpE6oFDPGzIgh6gQH7G0I83ZS+eee9+MZN1bll+fwSXS0yKXhf/3T1+t0tGbfo8b0ElTLr1goA7mnYheJdVIowNNIRQHpg9KNcVlz5aicol0YjSK6pgMNmujQGxo0IIgPsuX0JRqMrqlvb+38qGM7soCUG6sDJB1OdRDbcsW7rBtnMjF0EPJgnRD2k6yNrW4KO9ZXX/cZxq1SDP/okmQ2lanGJiS0Mbh6CqQf/7oGT0AAQpaM/zCRxYZ6xqL2FiZxEpizetMG+BfSEnPYSJkNuLggmCUyYaoH2Tiiq64u8biwy6wVEyAcQJW0KFBy0Tz5ANr01xMA+spl6SWJjyGq+p9KvLqoR9aLTLn7BlLpTuDKU1JoGN91FbFcyXnq5ucn9O30fQ/pGKFAShgrcjQ1DGHepatRCM9XO6DsGYKg2zEZDnSCw0gQc3WIaFOtKOKw7dHudq6WbpwozPE6QZztIxT/E8ZEENiKEXtqmyEEJocwmy9Am/xKUTMQQceeVxxiuHiBTnUymq5cahXESZSM0is3OV8wsQwvoZ+Upz8cR41qG5H4r+AOs5/I4iIDWIZEIUUSlJTxdDNF0d+DqrWF3OKzkSDRCRoOe9HB2XWb0JiQNjSQqZA2jgFYWiFJtcQsxIljKFq0RBE/FB5qoX9qVr9KS2TNJLQjn7ldqNZJVnKNVtT5p2M6Vc9Sb0dqimlRNQ5QgkTeKpoYr7EnEs7EEcgxPIUSG4cPhZmfGGVRQYPQgkHmqvGHE1eqY0ExEk1IFUdwwQrQS6oF+mwfQk5IGoUvuX11+zXmfOb33q5hwi45BhHbWu3fr6lqNM6HI5RYwsZpSggm9jJ51IjoVxX3arx0RmGoZOfqSI+ao4ocw6AjWIaVMy0iyVDCJRAWGPFDNthJtyYqEJjLDFgqdr+W2BR1Y5oP/7kGT8AARHZc3rCRRwZioqDzwlexFxmTXsJK/BYaTm/PYVGO8kiYbaLTc1Ho6eHc23mqxgO6Tce1x3Eo8m+D02dJBqcdy9RmxVdOEiCexOjBE6dZNO1DO1TVUsTbqpvY1X//ZNSg63te63stvtqmNn2fbvi7/lnsbJ35ndW+oW/3M/ecj5a7+IdVegdhKpPf8nv9cCht17l0sqUbopZm1AUYqNn2mik+ITKUZXsmxPKza0DANYq/uFmUuMb0lLXDEpjF1M5r//r+aqlq5r5o0x0cXtDna9J79Ovy3fG/Vf8X5a0M/dGdLnuX/efGCqMmEBLBCg6hCg6BoMRAEAQAAHEUFDo2LYjc4j/yQjGEwGZCDq8f9YjDViw7/gYkEA9MHIikMA6OF6As+Fzw5Q9cMvCvhhIT6LNJkiIpLxBgbEIOD7h+g5RJiAoxo8/MBmCFE3CzR2k0klU/5PkeRQ2RPlxFba/9KyBstE2XCj1nfBxgiGqC4xQUH/2u3mp0Zj1hARARILALALATBQMBAAAAKrQ/BSg3+A5IC0ZZn/QOQUWP/7oGTRAASoaM59YWAIXGlqD6wgARHw2TH5ygIBh5rn/zDSQFhP+MMCnDtIOOQLoFyCbDuHNy+eTHukZGw7fHaSxAUXpdQ/onHJJExSU9X8iDhODuMn//5eWtJSc2Pf5aqn/+6qTEFNRTMuMTAwqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqv/7EGTSj/AAAGkHAAAIAAANIOAAAQAAAaQAAAAgAAA0gAAABKqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqqq";
@@ -1,4 +1,4 @@
-import type { ScoreSubmission, LeaderboardResponse, ScoreCategory } from '../../types';
+import type { ScoreSubmission, LeaderboardResponse, ScoreCategory, Difficulty } from '../../types';
 
 const API_BASE_URL = (import.meta as any).env?.VITE_API_BASE_URL || '';
 
@@ -18,8 +18,8 @@ export async function submitScore(submission: ScoreSubmission): Promise<{ update
   return response.json();
 }
 
-export async function getLeaderboard(category: ScoreCategory, limit = 10): Promise<LeaderboardResponse> {
-  const url = `${API_BASE_URL}/api/memorhythm/leaderboard/${category}?limit=${limit}`;
+export async function getLeaderboard(category: ScoreCategory, limit = 10, difficulty: Difficulty = 'normal', assisted = false): Promise<LeaderboardResponse> {
+  const url = `${API_BASE_URL}/api/memorhythm/leaderboard/${category}?limit=${limit}&difficulty=${difficulty}&assisted=${assisted}`;
   console.log('Fetching leaderboard from:', url);
   console.log('API_BASE_URL:', API_BASE_URL);
   
@@ -30,4 +30,16 @@ export async function getLeaderboard(category: ScoreCategory, limit = 10): Promi
   }
 
   return response.json();
-}
\ No newline at end of file
+}
+
+export async function getDailyLeaderboard(date: string, category: ScoreCategory = 'total', limit = 10, assisted = false): Promise<LeaderboardResponse> {
+  const url = `${API_BASE_URL}/api/memorhythm/leaderboard/daily?date=${date}&category=${category}&limit=${limit}&assisted=${assisted}`;
+  
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch daily leaderboard: ${response.statusText}`);
+  }
+
+  return response.json();
+}
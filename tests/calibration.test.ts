@@ -0,0 +1,86 @@
+import { describe, test, expect } from 'vitest';
+import { applyLatencyOffset, measureLatencyOffset, MAX_LATENCY_OFFSET_MS } from '../services/calibration';
+import { calculateScore } from '../services/gameLogic';
+import { MAX_POSITION_ERROR_PX, MAX_RHYTHM_ERROR_MS } from '../constants';
+import type { BeatGrid, CircleDefinition, PlayerClick } from '../types';
+
+const BEAT_MS = 600; // The calibration metronome's 100 BPM
+const beatTimes = Array.from({ length: 12 }, (_, i) => 3000 + i * BEAT_MS);
+
+describe('measureLatencyOffset', () => {
+  test('should measure the median lateness of taps on the beat', () => {
+    const lateness = [110, 130, 120, 125, 115, 140, 100, 120, 118, 122, 119, 121];
+    expect(measureLatencyOffset(beatTimes, beatTimes.map((beat, i) => beat + lateness[i]))).toBe(120);
+  });
+
+  test('should measure taps ahead of the beat as a negative latency', () => {
+    expect(measureLatencyOffset(beatTimes, beatTimes.map(beat => beat - 40))).toBe(-40);
+  });
+
+  test('should pair each tap with the closest beat', () => {
+    // Taps on every other beat, late by more than half the gap to the beat before
+    const taps = beatTimes.filter((_, i) => i % 2 === 1).map(beat => beat + 80);
+    expect(measureLatencyOffset(beatTimes, [...taps, ...taps.map(tap => tap + 1)])).toBe(81);
+  });
+
+  test('should ignore stray taps far from every beat', () => {
+    const taps = [...beatTimes.map(beat => beat + 60), 100000, -100000];
+    expect(measureLatencyOffset(beatTimes, taps)).toBe(60);
+  });
+
+  test('should not measure without enough taps on the beat', () => {
+    expect(measureLatencyOffset(beatTimes, beatTimes.slice(0, 5).map(beat => beat + 60))).toBeNull();
+    expect(measureLatencyOffset([3000], beatTimes.map(beat => beat + MAX_LATENCY_OFFSET_MS))).toBeNull();
+    expect(measureLatencyOffset([], beatTimes)).toBeNull();
+  });
+});
+
+describe('applyLatencyOffset', () => {
+  test('should move presses and releases back by the latency', () => {
+    const clicks: PlayerClick[] = [{ x: 1, y: 2, time: 1000 }, { x: 3, y: 4, time: 2000, releaseTime: 2500 }];
+    expect(applyLatencyOffset(clicks, 120)).toEqual([
+      { x: 1, y: 2, time: 880 },
+      { x: 3, y: 4, time: 1880, releaseTime: 2380 },
+    ]);
+  });
+
+  test('should leave clicks alone without a latency', () => {
+    const clicks: PlayerClick[] = [{ x: 1, y: 2, time: 1000 }];
+    expect(applyLatencyOffset(clicks, 0)).toBe(clicks);
+  });
+});
+
+describe('Calibrated scoring', () => {
+  const LATENCY_MS = 120;
+  const beatGrid: BeatGrid = { start: 10000, beatMs: 500 };
+  // The player's turn starts a few bars after the playback, on the same beats
+  const turnStart = beatGrid.start + 8 * beatGrid.beatMs;
+  const sequence: CircleDefinition[] = [0, 500, 1000, 1250, 2000].map((time, i) => ({
+    id: i + 1, x: 200 + i * 300, y: 450, time, color: '#f87171', frequency: 440,
+  }));
+  // Every note heard and played back in time, arriving late by the player's latency
+  const lateClicks: PlayerClick[] = sequence.map(circle => ({ x: circle.x, y: circle.y, time: turnStart + circle.time + LATENCY_MS }));
+
+  const score = (clicks: PlayerClick[], grid?: BeatGrid) =>
+    calculateScore(sequence, clicks, MAX_POSITION_ERROR_PX, MAX_RHYTHM_ERROR_MS, { beatGrid: grid });
+
+  test('should score a calibrated late run higher than the raw one', () => {
+    const raw = score(lateClicks, beatGrid);
+    const calibrated = score(applyLatencyOffset(lateClicks, LATENCY_MS), beatGrid);
+    expect(calibrated.rhythm).toBe(100);
+    expect(raw.rhythm).toBeLessThan(calibrated.rhythm);
+    expect(raw.notes[0].timingError).toBeCloseTo(LATENCY_MS);
+  });
+
+  test('should time the first click against the nearest beat', () => {
+    const { notes } = score(applyLatencyOffset(lateClicks, LATENCY_MS + 30), beatGrid);
+    expect(notes[0].timingError).toBeCloseTo(-30);
+    expect(notes[0].rhythmScore).not.toBeNull();
+  });
+
+  test('should only time clicks against each other without a beat grid', () => {
+    const raw = score(lateClicks);
+    expect(raw.rhythm).toBe(100);
+    expect(raw.notes[0].rhythmScore).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test, expect } from 'vitest';
+import { judgeNote } from '../services/gameLogic';
+import { DIFFICULTIES, DIFFICULTY_PRESETS, getJudgementWindows } from '../services/difficulty';
+
+describe('Judgement windows', () => {
+  test('should keep the original position windows on normal difficulty', () => {
+    expect(getJudgementWindows('normal').map(window => window.distancePx)).toEqual([15, 30, 75]);
+  });
+
+  test('should keep the original timing windows on normal difficulty', () => {
+    expect(getJudgementWindows('normal').map(window => window.timingMs)).toEqual([50, 100, 200]);
+  });
+
+  test('should widen from tier to tier on every difficulty', () => {
+    DIFFICULTIES.forEach(difficulty => {
+      const [perfect, great, good] = getJudgementWindows(difficulty);
+      expect(perfect.distancePx).toBeLessThan(great.distancePx);
+      expect(great.distancePx).toBeLessThan(good.distancePx);
+      expect(good.distancePx).toBeLessThan(DIFFICULTY_PRESETS[difficulty].maxPositionErrorPx);
+    });
+  });
+
+  test('should widen the timing windows from tier to tier on every difficulty', () => {
+    DIFFICULTIES.forEach(difficulty => {
+      const [perfect, great, good] = getJudgementWindows(difficulty);
+      expect(perfect.timingMs).toBeLessThan(great.timingMs);
+      expect(great.timingMs).toBeLessThan(good.timingMs);
+      expect(good.timingMs).toBeLessThan(DIFFICULTY_PRESETS[difficulty].maxRhythmErrorMs);
+    });
+  });
+
+  test('should not judge a click that scores no rhythm good on expert', () => {
+    // 180 ms off is good on normal difficulty, but past expert's max rhythm error
+    expect(judgeNote(0, 180, 'normal')).toBe('good');
+    expect(judgeNote(0, 180, 'expert')).toBe('miss');
+  });
+
+  DIFFICULTIES.forEach(difficulty => {
+    const { circleRadius, maxPositionErrorPx } = DIFFICULTY_PRESETS[difficulty];
+
+    test(`should judge hits on the circle by its size on ${difficulty} difficulty`, () => {
+      expect(judgeNote(circleRadius * 0.4, 0, difficulty)).toBe('perfect');
+      expect(judgeNote(circleRadius * 0.6, 0, difficulty)).toBe('great');
+      expect(judgeNote(circleRadius, 0, difficulty)).toBe('great');
+    });
+
+    test(`should judge hits off the circle by their margin on ${difficulty} difficulty`, () => {
+      expect(judgeNote(circleRadius * 1.1, 0, difficulty)).toBe('good');
+      // Halfway out to where position stops scoring is too far for any tier
+      expect(judgeNote((circleRadius + maxPositionErrorPx) / 2, 0, difficulty)).toBe('miss');
+    });
+  });
+
+  test('should not count a click well outside an expert circle', () => {
+    // Good on normal difficulty, but more than twice the radius off an expert circle
+    expect(judgeNote(60, 0, 'normal')).toBe('good');
+    expect(judgeNote(60, 0, 'expert')).toBe('miss');
+  });
+
+  test('should judge a click well inside an easy circle perfect', () => {
+    expect(judgeNote(18, 0, 'easy')).toBe('perfect');
+    expect(judgeNote(18, 0, 'normal')).toBe('great');
+  });
+
+  test('should still require the timing of a tier', () => {
+    expect(judgeNote(0, 75, 'easy')).toBe('great');
+    expect(judgeNote(0, 250, 'easy')).toBe('good');
+    expect(judgeNote(0, 300, 'easy')).toBe('miss');
+    expect(judgeNote(null, 0, 'easy')).toBe('miss');
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, test, expect } from 'vitest';
+import { getLeaderboardKey, getDailyLeaderboardKey, isAssistedQuery } from '../backend/src/_utils/redis';
+
+describe('leaderboard keys', () => {
+  test('should keep the original keys for unassisted normal difficulty runs', () => {
+    expect(getLeaderboardKey('total')).toBe('memorhythm:leaderboard:total');
+    expect(getLeaderboardKey('total', 'hard')).toBe('memorhythm:leaderboard:total:hard');
+  });
+
+  test('should rank assisted runs on their own keys', () => {
+    expect(getLeaderboardKey('total', 'normal', true)).toBe('memorhythm:leaderboard:total:assisted');
+    expect(getLeaderboardKey('simon', 'hard', true)).toBe('memorhythm:leaderboard:simon:hard:assisted');
+    expect(getDailyLeaderboardKey('2025-01-31', 'total')).toBe('memorhythm:leaderboard:daily:2025-01-31:total');
+    expect(getDailyLeaderboardKey('2025-01-31', 'total', true)).toBe('memorhythm:leaderboard:daily:2025-01-31:total:assisted');
+  });
+
+  test('should reject daily leaderboards of categories a daily run has no scores in', () => {
+    expect(() => getDailyLeaderboardKey('2025-01-31', 'simon')).toThrow('Invalid daily leaderboard category');
+    expect(() => getDailyLeaderboardKey('2025-01-31', 'combo')).toThrow('Invalid leaderboard category');
+  });
+
+  test('should only read "true" as asking for the assisted leaderboards', () => {
+    expect(isAssistedQuery('true')).toBe(true);
+    expect(isAssistedQuery('false')).toBe(false);
+    expect(isAssistedQuery(undefined)).toBe(false);
+    expect(isAssistedQuery(['true'])).toBe(false);
+  });
+});
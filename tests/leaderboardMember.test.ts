@@ -0,0 +1,59 @@
+import { describe, test, expect } from 'vitest';
+import { encodeMember, parseMember } from '../backend/src/_utils/leaderboardMember';
+import type { LeaderboardMember } from '../backend/src/_utils/leaderboardMember';
+
+describe('leaderboard members', () => {
+  const member: LeaderboardMember = {
+    user: 'alice',
+    score: 87.5,
+    round: 12,
+    matching: 'inOrder',
+    fullPerfect: true,
+    rhythmModel: 'tempoInvariant',
+    latencyCalibrated: true,
+    metronome: false,
+    countIn: true,
+  };
+
+  test('should encode every field in order', () => {
+    expect(encodeMember(member)).toBe('alice:87.5:12:inOrder:1:tempoInvariant:1:0:1');
+  });
+
+  test('should parse an encoded member back with its rank', () => {
+    expect(parseMember(encodeMember(member), 3)).toEqual({ ...member, rank: 3 });
+  });
+
+  test('should parse members written before the matching mode was recorded', () => {
+    expect(parseMember('bob:64:7', 1)).toEqual({
+      user: 'bob',
+      score: 64,
+      round: 7,
+      rank: 1,
+      matching: 'optimal',
+      fullPerfect: false,
+      rhythmModel: 'absolute',
+      latencyCalibrated: false,
+      metronome: false,
+      countIn: false,
+    });
+  });
+
+  test('should parse members written before the rhythm model and assists were recorded', () => {
+    expect(parseMember('carol:91:9:inOrder:1', 2)).toEqual({
+      user: 'carol',
+      score: 91,
+      round: 9,
+      rank: 2,
+      matching: 'inOrder',
+      fullPerfect: true,
+      rhythmModel: 'absolute',
+      latencyCalibrated: false,
+      metronome: false,
+      countIn: false,
+    });
+  });
+
+  test('should parse members written before the count-in was recorded', () => {
+    expect(parseMember('dave:78:5:optimal:0:absolute:0:1', 4)).toMatchObject({ metronome: true, countIn: false });
+  });
+});
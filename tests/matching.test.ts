@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'vitest';
+import { calculateScore, matchClicksToCircles } from '../services/gameLogic';
+import { MAX_POSITION_ERROR_PX, MAX_RHYTHM_ERROR_MS } from '../constants';
+import type { CircleDefinition, PlayerClick } from '../types';
+
+const circle = (id: number, x: number, y: number, time: number): CircleDefinition =>
+  ({ id, x, y, time, color: '#f87171', frequency: 440 });
+
+const click = (x: number, y: number, time: number): PlayerClick => ({ x, y, time });
+
+describe('matchClicksToCircles', () => {
+  const sequence = [circle(1, 200, 450, 0), circle(2, 800, 450, 500), circle(3, 1400, 450, 1000)];
+
+  test('should match clicks played in order to their own circles', () => {
+    const clicks = [click(210, 450, 0), click(790, 460, 500), click(1400, 440, 1000)];
+    expect(matchClicksToCircles(sequence, clicks, 'optimal')).toEqual([0, 1, 2]);
+    expect(matchClicksToCircles(sequence, clicks, 'inOrder')).toEqual([0, 1, 2]);
+  });
+
+  test('should match out-of-order clicks by distance with optimal matching', () => {
+    const clicks = [click(800, 450, 0), click(200, 450, 500), click(1400, 450, 1000)];
+    expect(matchClicksToCircles(sequence, clicks, 'optimal')).toEqual([1, 0, 2]);
+  });
+
+  test('should judge click i against circle i with in-order matching', () => {
+    const clicks = [click(800, 450, 0), click(200, 450, 500), click(1400, 450, 1000)];
+    expect(matchClicksToCircles(sequence, clicks, 'inOrder')).toEqual([0, 1, 2]);
+  });
+
+  test('should not let a sloppy early click steal a later click\'s circle', () => {
+    // The first click lands between the first two circles, a little closer to the second
+    const clicks = [click(520, 450, 0), click(800, 450, 500)];
+    expect(matchClicksToCircles(sequence, clicks, 'optimal')).toEqual([0, 1]);
+  });
+
+  test('should match the clicks of a chord by distance in either mode', () => {
+    const chordSequence = [circle(1, 400, 300, 0), circle(2, 400, 600, 0), circle(3, 1000, 450, 500)];
+    // The lower chord note was clicked first
+    const clicks = [click(400, 600, 0), click(400, 300, 10), click(1000, 450, 500)];
+    expect(matchClicksToCircles(chordSequence, clicks, 'optimal')).toEqual([1, 0, 2]);
+    expect(matchClicksToCircles(chordSequence, clicks, 'inOrder')).toEqual([1, 0, 2]);
+  });
+
+  test('should match a chord that is only partly clicked', () => {
+    const chordSequence = [circle(1, 400, 300, 0), circle(2, 400, 600, 0)];
+    expect(matchClicksToCircles(chordSequence, [click(400, 590, 0)], 'inOrder')).toEqual([1]);
+  });
+
+  test('should leave extra clicks unmatched', () => {
+    const clicks = [click(200, 450, 0), click(800, 450, 500), click(1400, 450, 1000), click(1200, 450, 1500)];
+    expect(matchClicksToCircles(sequence, clicks, 'optimal')).toEqual([0, 1, 2, -1]);
+    expect(matchClicksToCircles(sequence, clicks, 'inOrder')).toEqual([0, 1, 2, -1]);
+  });
+
+  test('should match missing clicks to the nearest free circles', () => {
+    const clicks = [click(1390, 450, 0)];
+    expect(matchClicksToCircles(sequence, clicks, 'optimal')).toEqual([2]);
+    expect(matchClicksToCircles(sequence, clicks, 'inOrder')).toEqual([0]);
+  });
+
+  test('should match nothing without clicks', () => {
+    expect(matchClicksToCircles(sequence, [], 'optimal')).toEqual([]);
+    expect(matchClicksToCircles([], [click(200, 450, 0)], 'optimal')).toEqual([-1]);
+  });
+});
+
+describe('calculateScore duration matching', () => {
+  test('should score a hold note on the click matched to it', () => {
+    const holdSequence = [circle(1, 200, 450, 0), { ...circle(2, 800, 450, 500), duration: 400 }];
+    // Only the hold note was clicked, and held for its full length
+    const clicks = [{ ...click(800, 450, 0), releaseTime: 400 }];
+    const score = calculateScore(holdSequence, clicks, MAX_POSITION_ERROR_PX, MAX_RHYTHM_ERROR_MS);
+    expect(score.duration).toBe(100);
+    expect(score.notes[1].holdError).toBe(0);
+  });
+});
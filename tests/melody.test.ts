@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest';
+import { createMelody, createMelodyWalk, MELODY_CONTOURS, type MelodyOptions } from '../services/melody';
+import { generateSeededSequence, generateSimonSequence } from '../services/gameLogic';
+import { SeededRandom } from '../services/seededRandom';
+import { DEFAULT_SCALE, getScaleFrequencies } from '../services/scales';
+
+// A scale of seven notes and the octave, as degrees 0 to 7
+const DEGREE_COUNT = 8;
+const MAX_LEAP_DEGREES = 4;
+
+const createDegrees = (count: number, seed: number, options?: MelodyOptions) => {
+  const rng = new SeededRandom(seed);
+  const nextDegree = createMelody(count, DEGREE_COUNT, () => rng.next(), options);
+  return Array.from({ length: count }, () => nextDegree());
+};
+
+const walkDegrees = (count: number, seed: number) => {
+  const rng = new SeededRandom(seed);
+  const nextDegree = createMelodyWalk(DEGREE_COUNT, () => rng.next());
+  return Array.from({ length: count }, () => nextDegree());
+};
+
+describe('createMelody', () => {
+  test('should create the same melody for the same seed', () => {
+    expect(createDegrees(12, 99)).toEqual(createDegrees(12, 99));
+    expect(generateSeededSequence(8, 99, { rhythmComplexity: 2 })).toEqual(generateSeededSequence(8, 99, { rhythmComplexity: 2 }));
+  });
+
+  test('should stay in range and never leap further than the maximum interval', () => {
+    for (const contour of MELODY_CONTOURS) {
+      for (let seed = 1; seed <= 200; seed++) {
+        const degrees = createDegrees(10, seed, { contour });
+        for (let i = 0; i < degrees.length; i++) {
+          expect(degrees[i]).toBeGreaterThanOrEqual(0);
+          expect(degrees[i]).toBeLessThan(DEGREE_COUNT);
+          if (i > 0) expect(Math.abs(degrees[i] - degrees[i - 1])).toBeLessThanOrEqual(MAX_LEAP_DEGREES);
+        }
+      }
+    }
+  });
+
+  test('should end on the tonic when resolving', () => {
+    for (const contour of MELODY_CONTOURS) {
+      for (let seed = 1; seed <= 200; seed++) {
+        const degrees = createDegrees(8, seed, { contour });
+        const last = degrees[degrees.length - 1];
+        expect([0, DEGREE_COUNT - 1]).toContain(last);
+      }
+    }
+  });
+});
+
+describe('generateSequence', () => {
+  test('should resolve the melody to the tonic when the sequence has chords', () => {
+    const frequencies = getScaleFrequencies(DEFAULT_SCALE);
+    const tonics = [frequencies[0], frequencies[frequencies.length - 1]];
+    let chords = 0;
+    for (let seed = 1; seed <= 100; seed++) {
+      const sequence = generateSeededSequence(10, seed, { rhythmComplexity: 4 });
+      // The melody note of the last onset is its first circle, chord tones follow it
+      const lastOnset = sequence.findIndex(circle => circle.time === sequence[sequence.length - 1].time);
+      if (new Set(sequence.map(circle => circle.time)).size < sequence.length) chords++;
+      expect(tonics).toContain(sequence[lastOnset].frequency);
+    }
+    expect(chords).toBeGreaterThan(0);
+  });
+});
+
+describe('createMelodyWalk', () => {
+  test('should keep its first notes however long the walk gets', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      expect(walkDegrees(20, seed).slice(0, 12)).toEqual(walkDegrees(12, seed));
+    }
+  });
+
+  test('should extend the previous Simon sequence by one note', () => {
+    const notes = (round: number) => generateSimonSequence(round, 777).map(({ frequency, time }) => ({ frequency, time }));
+    for (let round = 1; round < 10; round++) {
+      const next = notes(round + 1);
+      expect(next.slice(0, -1)).toEqual(notes(round));
+      expect(next).toHaveLength(notes(round).length + 1);
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { ANIMATION_DURATION_MS } from '../constants';
+import type { CircleDefinition, PlayerClick } from '../types';
+
+// The voices renderRound schedules, instead of synthesizing them
+const voices: { startTime: number; releaseTime: number | null; peakGain: number }[] = [];
+
+vi.mock('../services/instruments', async importOriginal => ({
+  ...await importOriginal<typeof import('../services/instruments')>(),
+  createVoice: (_context: unknown, _destination: unknown, _instrument: unknown, _frequency: number, startTime: number, peakGain: number) => {
+    const voice = { startTime, releaseTime: null as number | null, peakGain };
+    voices.push(voice);
+    return { release: (time: number) => { voice.releaseTime = time; } };
+  },
+}));
+
+// An offline context that only knows the length it was created with
+class StubOfflineAudioContext {
+  destination = {};
+  constructor(public numberOfChannels: number, public length: number, public sampleRate: number) {}
+  createDynamicsCompressor() {
+    const param = () => ({ value: 0 });
+    return { threshold: param(), knee: param(), ratio: param(), attack: param(), release: param(), connect: () => {} };
+  }
+  startRendering() {
+    return Promise.resolve({ length: this.length, sampleRate: this.sampleRate });
+  }
+}
+vi.stubGlobal('OfflineAudioContext', StubOfflineAudioContext);
+
+const { renderRound } = await import('../services/audioService');
+
+const LEAD_IN = 0.25;
+const TAIL = 2;
+const sequence: CircleDefinition[] = [
+  { id: 0, x: 200, y: 450, time: 0, color: '#f87171', frequency: 440 },
+  { id: 1, x: 800, y: 450, time: 500, color: '#f87171', frequency: 440, duration: 400 },
+  { id: 2, x: 1400, y: 450, time: 1000, color: '#f87171', frequency: 440, accent: true },
+];
+
+describe('renderRound', () => {
+  beforeEach(() => {
+    voices.length = 0;
+  });
+
+  test('should schedule the sequence\'s notes at their offsets after the lead-in', async () => {
+    await renderRound(sequence, [], { layers: 'sequence' });
+    expect(voices.map(voice => voice.startTime)).toEqual([LEAD_IN, LEAD_IN + 0.5, LEAD_IN + 1]);
+    // The hold note sounds for as long as it has to be held
+    expect(voices[1].releaseTime).toBeCloseTo(LEAD_IN + 0.9);
+    expect(voices[2].peakGain).toBeGreaterThan(voices[0].peakGain);
+  });
+
+  test('should stretch the offsets at a slower tempo', async () => {
+    await renderRound(sequence, [], { layers: 'sequence', tempo: 0.5 });
+    expect(voices.map(voice => voice.startTime)).toEqual([LEAD_IN, LEAD_IN + 1, LEAD_IN + 2]);
+  });
+
+  test('should start the attempt with the sequence, whatever the clicks\' clock', async () => {
+    const clicks: PlayerClick[] = [
+      { x: 200, y: 450, time: 5000, releaseTime: 5100, frequency: 440 },
+      { x: 800, y: 450, time: 5600, releaseTime: 6000, frequency: 440 },
+    ];
+    await renderRound(sequence, clicks, { layers: 'both' });
+    const attempt = voices.slice(sequence.length);
+    expect(attempt.map(voice => voice.startTime)).toEqual([LEAD_IN, LEAD_IN + 0.6]);
+    expect(attempt[1].releaseTime).toBeCloseTo(LEAD_IN + 1);
+  });
+
+  test('should render until the last note has rung out', async () => {
+    const buffer = await renderRound(sequence, [], { layers: 'sequence', sampleRate: 1000 });
+    // The last note ends an animation's length after its start, followed by the tail
+    expect(buffer.length).toBe(Math.ceil((LEAD_IN + 1 + ANIMATION_DURATION_MS / 1000 + TAIL) * 1000));
+    expect(buffer.sampleRate).toBe(1000);
+  });
+});
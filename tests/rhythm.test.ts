@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'vitest';
+import { createRhythmPattern, BEATS_PER_BAR, TICKS_PER_BEAT, type RhythmComplexity } from '../services/rhythm';
+import { SeededRandom } from '../services/seededRandom';
+
+// At 100 BPM a beat lasts 600ms, so a tick is a whole 50ms
+const BPM = 100;
+const TICK_MS = 60000 / BPM / TICKS_PER_BEAT;
+const HOLD_LENGTH = 0.75;
+
+const createPattern = (complexity: RhythmComplexity, seed: number, count = 32, beatsPerBar = BEATS_PER_BAR) => {
+  const rng = new SeededRandom(seed);
+  const nextOnset = createRhythmPattern(complexity, () => rng.next(), BPM, beatsPerBar);
+  return Array.from({ length: count }, () => nextOnset());
+};
+
+const toTicks = (ms: number) => ms / TICK_MS;
+
+describe('createRhythmPattern', () => {
+  test('should create the same pattern for the same seed', () => {
+    expect(createPattern(4, 1234)).toEqual(createPattern(4, 1234));
+    expect(createPattern(4, 1234)).not.toEqual(createPattern(4, 4321));
+  });
+
+  test('should start on the downbeat and keep every onset on the sixteenth or triplet grid', () => {
+    for (let seed = 1; seed <= 300; seed++) {
+      const pattern = createPattern(3, seed);
+      expect(pattern[0].time).toBe(0);
+      for (const { time } of pattern) {
+        const ticks = toTicks(time);
+        expect(Number.isInteger(ticks)).toBe(true);
+        expect(ticks % 3 === 0 || ticks % 4 === 0).toBe(true);
+      }
+    }
+  });
+
+  test('should accent notes between the beats', () => {
+    let accents = 0;
+    for (let seed = 1; seed <= 300; seed++) {
+      for (const { time, accent } of createPattern(3, seed)) {
+        if (!accent) continue;
+        accents++;
+        expect(toTicks(time) % TICKS_PER_BEAT).not.toBe(0);
+      }
+    }
+    expect(accents).toBeGreaterThan(0);
+  });
+
+  test.each([BEATS_PER_BAR, 3])('should never hold a note past the end of its %i-beat bar', beatsPerBar => {
+    const barTicks = beatsPerBar * TICKS_PER_BEAT;
+    let holds = 0;
+    for (let seed = 1; seed <= 300; seed++) {
+      for (const { time, duration } of createPattern(1, seed, 32, beatsPerBar)) {
+        if (duration === null) continue;
+        holds++;
+        const start = toTicks(time);
+        const end = start + Math.round(toTicks(duration) / HOLD_LENGTH);
+        expect(end).toBeLessThanOrEqual((Math.floor(start / barTicks) + 1) * barTicks);
+      }
+    }
+    expect(holds).toBeGreaterThan(0);
+  });
+});
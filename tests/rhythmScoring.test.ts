@@ -0,0 +1,64 @@
+import { describe, test, expect } from 'vitest';
+import { calculateScore } from '../services/gameLogic';
+import { MAX_POSITION_ERROR_PX, MAX_RHYTHM_ERROR_MS, MAX_TEMPO_FIT_DEVIATION } from '../constants';
+import type { CircleDefinition, PlayerClick, RhythmModel } from '../types';
+
+// Five notes with uneven gaps, so only the ratios between intervals survive a change of tempo
+const sequence: CircleDefinition[] = [0, 500, 750, 1250, 2000].map((time, i) => ({
+  id: i + 1, x: 200 + i * 300, y: 450, time, color: '#f87171', frequency: 440,
+}));
+
+// Clicks on every circle, the rhythm played stretched by a factor (above 1 is slower)
+const playStretched = (stretch: number): PlayerClick[] =>
+  sequence.map(circle => ({ x: circle.x, y: circle.y, time: 5000 + circle.time * stretch, frequency: circle.frequency }));
+
+const score = (clicks: PlayerClick[], rhythmModel: RhythmModel, tempo = 1) =>
+  calculateScore(sequence, clicks, MAX_POSITION_ERROR_PX, MAX_RHYTHM_ERROR_MS, { tempo, rhythmModel });
+
+describe('Tempo-invariant rhythm scoring', () => {
+  test('should score a steady rhythm played slower in full, but not against the absolute tempo', () => {
+    const clicks = playStretched(1.1);
+    expect(score(clicks, 'tempoInvariant').rhythm).toBe(100);
+    expect(score(clicks, 'absolute').rhythm).toBeLessThan(80);
+  });
+
+  test('should score a steady rhythm played faster in full', () => {
+    expect(score(playStretched(0.85), 'tempoInvariant').rhythm).toBe(100);
+  });
+
+  test('should report the tempo drift in either model', () => {
+    // 10% longer intervals are a tempo about 9% slower, 20% shorter ones 25% faster
+    expect(score(playStretched(1.1), 'absolute').tempoDrift).toBe(-9);
+    expect(score(playStretched(1.1), 'tempoInvariant').tempoDrift).toBe(-9);
+    expect(score(playStretched(0.8), 'tempoInvariant').tempoDrift).toBe(25);
+    expect(score(playStretched(1), 'absolute').tempoDrift).toBe(0);
+  });
+
+  test('should only follow the player\'s tempo up to the fit\'s limit', () => {
+    const withinLimit = score(playStretched(1 + MAX_TEMPO_FIT_DEVIATION), 'tempoInvariant');
+    const pastLimit = score(playStretched(1.6), 'tempoInvariant');
+    expect(withinLimit.rhythm).toBe(100);
+    expect(pastLimit.rhythm).toBeLessThan(100);
+    // Still closer than scoring against the sequence's own tempo
+    expect(pastLimit.rhythm).toBeGreaterThan(score(playStretched(1.6), 'absolute').rhythm);
+  });
+
+  test('should still penalise an uneven rhythm', () => {
+    const clicks = playStretched(1);
+    clicks[2] = { ...clicks[2], time: clicks[2].time + 150 };
+    const { rhythm, notes } = score(clicks, 'tempoInvariant');
+    expect(rhythm).toBeLessThan(100);
+    expect(notes[2].timingError).toBeGreaterThan(50);
+  });
+
+  test('should have no tempo to fit with fewer than two intervals', () => {
+    const { tempoDrift, rhythm } = score(playStretched(1.2).slice(0, 2), 'tempoInvariant');
+    expect(tempoDrift).toBeNull();
+    expect(rhythm).toBeLessThan(100);
+  });
+
+  test('should scale clicks played at a practice tempo back to full tempo', () => {
+    // At half tempo every gap is twice as long
+    expect(score(playStretched(2), 'absolute', 0.5).rhythm).toBe(100);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, test, expect } from 'vitest';
+import { recomputeScore, verifySubmission, SCORE_TOLERANCE } from '../backend/src/_utils/verification';
+import { generateSeededSequence, getSequenceLength } from '../services/gameLogic';
+import { getRhythmComplexity } from '../services/rhythm';
+import { getDailySeed, getUtcDateKey } from '../services/seededRandom';
+import type { PlayerClick, ScoreSubmission } from '../types';
+
+const SEED = 424242;
+const ROUND = 3;
+
+// Clicks on the circles of the round, on time, taken on a clock that didn't start at zero
+const replayClicks = (round: number, seed: number): PlayerClick[] =>
+  generateSeededSequence(getSequenceLength(round), seed, { rhythmComplexity: getRhythmComplexity(round) })
+    .map(circle => ({ x: circle.x + 5, y: circle.y, time: 12000 + circle.time, frequency: circle.frequency }));
+
+// A submission claiming exactly the scores its replay earns
+const honestSubmission = (overrides: Partial<ScoreSubmission> = {}): ScoreSubmission => {
+  const submission: ScoreSubmission = {
+    user: 'tester', position: 0, rhythm: 0, pitch: 0, total: 0,
+    round: ROUND, seed: SEED, clicks: replayClicks(ROUND, SEED),
+    ...overrides,
+  };
+  const { position, rhythm, pitch, total } = recomputeScore(submission);
+  return { ...submission, position, rhythm, pitch, total };
+};
+
+describe('recomputeScore', () => {
+  test('should score a replay of clicks on the circles highly', () => {
+    const score = recomputeScore(honestSubmission());
+    expect(score.position).toBeGreaterThan(90);
+    expect(score.rhythm).toBe(100);
+  });
+
+  test('should derive the pitch from where a click was released, not from the claimed frequency', () => {
+    const submission = honestSubmission();
+    const claimedInTune = recomputeScore(submission);
+    const claimedOffKey = recomputeScore({ ...submission, clicks: submission.clicks.map(click => ({ ...click, frequency: 1 })) });
+    expect(claimedOffKey.pitch).toBe(claimedInTune.pitch);
+  });
+
+  test('should time calibrated clicks against the beats of the round', () => {
+    const submission = honestSubmission();
+    // The first note was played half a beat (at 120 BPM) before the first click
+    const calibrated = { ...submission, latencyCalibrated: true, beatGridStart: submission.clicks[0].time - 250 };
+    expect(recomputeScore(calibrated).rhythm).toBeLessThan(recomputeScore(submission).rhythm);
+    expect(recomputeScore({ ...calibrated, latencyCalibrated: false }).rhythm).toBe(recomputeScore(submission).rhythm);
+  });
+});
+
+describe('verifySubmission', () => {
+  test('should accept a submission whose scores match its replay and return the score', () => {
+    const submission = honestSubmission();
+    const result = verifySubmission(submission);
+    expect(result.error).toBeNull();
+    if (result.error === null) {
+      expect(result.score.total).toBe(submission.total);
+      expect(result.score.notes).toHaveLength(submission.clicks.length);
+    }
+  });
+
+  test('should accept claimed scores within the tolerance', () => {
+    const submission = honestSubmission();
+    const total = submission.total - SCORE_TOLERANCE;
+    expect(verifySubmission({ ...submission, total }).error).toBeNull();
+  });
+
+  test('should reject claimed scores beyond the tolerance', () => {
+    const submission = honestSubmission();
+    const position = submission.position - SCORE_TOLERANCE - 1;
+    expect(verifySubmission({ ...submission, position }).error).toBe('Scores do not match the submitted replay');
+  });
+
+  test('should accept a calibrated run whose beat grid matches its clicks', () => {
+    // The replay's clicks land on the notes of a round whose first note was played at 12000
+    const calibrated = { ...honestSubmission(), latencyCalibrated: true, beatGridStart: 12000 };
+    const { position, rhythm, pitch, total } = recomputeScore(calibrated);
+    expect(verifySubmission({ ...calibrated, position, rhythm, pitch, total }).error).toBeNull();
+  });
+
+  test('should reject a beat grid lined up with the clicks instead of the notes', () => {
+    const submission = honestSubmission();
+    // The first click was late, and the grid is moved onto it to score it as perfect
+    const clicks = submission.clicks.map((click, i) => (i === 0 ? { ...click, time: click.time + 150 } : click));
+    const forged = { ...submission, clicks, latencyCalibrated: true, beatGridStart: clicks[0].time };
+    const { position, rhythm, pitch, total } = recomputeScore(forged);
+    expect(verifySubmission({ ...forged, position, rhythm, pitch, total }).error).toBe('Beat grid does not match the submitted replay');
+  });
+
+  test('should reject rounds outside the playable range', () => {
+    expect(verifySubmission({ ...honestSubmission(), round: 0 }).error).toBe('Invalid round');
+    expect(verifySubmission({ ...honestSubmission(), round: 2.5 }).error).toBe('Invalid round');
+    // Longer than any replay that is scored
+    expect(verifySubmission({ ...honestSubmission(), round: 1000 }).error).toBe('Invalid round');
+  });
+
+  test('should accept rounds past 100', () => {
+    const round = 150;
+    const clicks = replayClicks(round, SEED);
+    const { position, rhythm, pitch, total } = recomputeScore({ ...honestSubmission(), round, clicks });
+    expect(verifySubmission({ ...honestSubmission(), round, clicks, position, rhythm, pitch, total }).error).toBeNull();
+  });
+
+  test('should reject seeds outside 32 bits', () => {
+    expect(verifySubmission({ ...honestSubmission(), seed: -1 }).error).toBe('Invalid seed');
+    expect(verifySubmission({ ...honestSubmission(), seed: 2 ** 32 }).error).toBe('Invalid seed');
+  });
+
+  test('should reject oversized click arrays without scoring them', () => {
+    const clicks = Array.from({ length: 100000 }, (_, i) => ({ x: 0, y: 0, time: i }));
+    expect(verifySubmission({ ...honestSubmission(), clicks }).error).toBe('Invalid clicks');
+  });
+
+  test('should reject more clicks than the round has notes, and malformed clicks', () => {
+    const submission = honestSubmission();
+    const extraClick = { x: 0, y: 0, time: 99999 };
+    expect(verifySubmission({ ...submission, clicks: [...submission.clicks, extraClick] }).error).toBe('Invalid clicks');
+    expect(verifySubmission({ ...submission, clicks: [{ x: NaN, y: 0, time: 0 }] }).error).toBe('Invalid clicks');
+    expect(verifySubmission({ ...submission, clicks: [{ x: 0, y: 0, time: 0, releaseTime: Infinity }] }).error).toBe('Invalid clicks');
+  });
+
+  test('should reject unknown modes and options', () => {
+    const submission = honestSubmission();
+    expect(verifySubmission({ ...submission, mode: 'practice' }).error).toBe('Invalid game mode');
+    expect(verifySubmission({ ...submission, matching: 'nearest' as never }).error).toBe('Invalid matching mode');
+    expect(verifySubmission({ ...submission, difficulty: 'insane' as never }).error).toBe('Invalid difficulty');
+    expect(verifySubmission({ ...submission, trackBpm: 400 }).error).toBe('Invalid track tempo');
+    expect(verifySubmission({ ...submission, beatsPerBar: 3.5 }).error).toBe('Invalid time signature');
+    expect(verifySubmission({ ...submission, latencyCalibrated: true, beatGridStart: 'soon' as never }).error).toBe('Invalid beat grid');
+    expect(verifySubmission({ ...submission, metronome: 'yes' as never }).error).toBe('Invalid metronome flag');
+    expect(verifySubmission({ ...submission, countIn: 1 as never }).error).toBe('Invalid count-in flag');
+  });
+
+  test('should only accept daily challenge runs with the day\'s seed', () => {
+    const date = getUtcDateKey();
+    const dailySeed = getDailySeed(date, ROUND);
+    const daily = honestSubmission({ mode: 'daily', date, seed: dailySeed, clicks: replayClicks(ROUND, dailySeed) });
+    expect(verifySubmission(daily).error).toBeNull();
+    expect(verifySubmission({ ...daily, seed: SEED }).error).toBe('Seed does not match the daily challenge');
+    expect(verifySubmission({ ...daily, date: '2000-01-01' }).error).toBe('Invalid daily challenge date');
+    expect(verifySubmission({ ...daily, beatsPerBar: 3 }).error).toBe('Time signature does not match the daily challenge');
+  });
+
+  test('should regenerate the sequence in the bars of the submitted time signature', () => {
+    const round = 5;
+    const clicks = generateSeededSequence(getSequenceLength(round), SEED, { rhythmComplexity: getRhythmComplexity(round), beatsPerBar: 3 })
+      .map(circle => ({ x: circle.x, y: circle.y, time: 12000 + circle.time }));
+    const waltz = { ...honestSubmission(), round, clicks, beatsPerBar: 3 };
+    const { position, rhythm, pitch, total } = recomputeScore(waltz);
+    expect(rhythm).toBe(100);
+    expect(verifySubmission({ ...waltz, position, rhythm, pitch, total }).error).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { encodeWav } from '../services/wav';
+
+// Just what encodeWav reads of an AudioBuffer
+const audioBuffer = (channels: number[][], sampleRate = 8000) => ({
+  numberOfChannels: channels.length,
+  sampleRate,
+  length: channels[0].length,
+  getChannelData: (channel: number) => Float32Array.from(channels[channel]),
+}) as unknown as AudioBuffer;
+
+const readWav = async (buffer: AudioBuffer) => {
+  const blob = encodeWav(buffer);
+  const view = new DataView(await blob.arrayBuffer());
+  const text = (offset: number) => String.fromCharCode(...Array.from({ length: 4 }, (_, i) => view.getUint8(offset + i)));
+  return { blob, view, text };
+};
+
+describe('encodeWav', () => {
+  test('should write the RIFF, format and data headers of 16-bit PCM', async () => {
+    const { blob, view, text } = await readWav(audioBuffer([[0, 0, 0], [0, 0, 0]], 22050));
+    const dataSize = 3 * 2 * 2;
+
+    expect(blob.type).toBe('audio/wav');
+    expect(blob.size).toBe(44 + dataSize);
+    expect(text(0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + dataSize);
+    expect(text(8)).toBe('WAVE');
+    expect(text(12)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(22050);
+    expect(view.getUint32(28, true)).toBe(22050 * 2 * 2);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(dataSize);
+  });
+
+  test('should interleave the channels and clamp samples to full scale', async () => {
+    const { view } = await readWav(audioBuffer([[0.5, 2], [-1, -3]]));
+    const samples = Array.from({ length: 4 }, (_, i) => view.getInt16(44 + i * 2, true));
+    expect(samples).toEqual([Math.floor(0.5 * 0x7fff), -0x8000, 0x7fff, -0x8000]);
+  });
+});
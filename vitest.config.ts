@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests of the game logic. The Playwright specs in e2e/ run against the dev server instead.
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+  },
+})